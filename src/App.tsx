@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { BrowserRouter, Routes, Route, NavLink, useNavigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, NavLink, useNavigate, useParams } from 'react-router-dom';
 import HomePage from './pages/HomePage';
 import EnemyTeamPage from './pages/EnemyTeamPage';
 import MyTeamPage from './pages/MyTeamPage';
@@ -16,7 +16,13 @@ import FriendsPage from './pages/FriendsPage';
 import LiveDraftLobbyPage from './pages/LiveDraftLobbyPage';
 import LiveDraftListPage from './pages/LiveDraftListPage';
 import JoinLiveDraftPage from './pages/JoinLiveDraftPage';
+import JoinLiveDraftCoachPage from './pages/JoinLiveDraftCoachPage';
+import JoinLiveDraftTeamPage from './pages/JoinLiveDraftTeamPage';
+import LiveDraftAnalyticsPage from './pages/LiveDraftAnalyticsPage';
 import LiveDraftPage from './pages/LiveDraftPage';
+import LiveDraftReplayPage from './pages/LiveDraftReplayPage';
+import LiveDraftOverlayPage from './pages/LiveDraftOverlayPage';
+import TournamentPage from './pages/TournamentPage';
 import AdminPage from './pages/AdminPage';
 import SplashArtsPage from './pages/SplashArtsPage';
 import UpgradePage from './pages/UpgradePage';
@@ -47,6 +53,12 @@ function NotFoundPage() {
   );
 }
 
+// Remount the live draft page when moving between sessions (e.g. after a rematch)
+function KeyedLiveDraftPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  return <LiveDraftPage key={sessionId} />;
+}
+
 // Icons as components
 const HomeIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -319,6 +331,9 @@ export default function App() {
         <Routes>
           {/* Public routes (no sidebar) */}
           <Route path="/share/:token" element={<SharedDraftPage />} />
+          <Route path="/live-draft/replay/:gameId" element={<LiveDraftReplayPage />} />
+          <Route path="/live-draft/:sessionId/overlay" element={<LiveDraftOverlayPage />} />
+          <Route path="/tournament/:tournamentId" element={<TournamentPage />} />
           <Route path="/invite/:token" element={<AcceptInvitePage />} />
           <Route path="/reset-password" element={<ResetPasswordPage />} />
           <Route path="/auth/callback" element={<AuthCallbackPage />} />
@@ -342,10 +357,13 @@ export default function App() {
                   <Route path="/upgrade" element={<UpgradePage />} />
                   <Route path="/splasharts" element={<SplashArtsPage />} />
                   <Route path="/live-draft" element={<LiveDraftListPage />} />
+                  <Route path="/live-draft/analytics" element={<LiveDraftAnalyticsPage />} />
                   <Route path="/live-draft/join/:token" element={<JoinLiveDraftPage />} />
-                  <Route path="/live-draft/lobby/:sessionId" element={<LiveDraftPage />} />
-                  <Route path="/live-draft/:sessionId/game" element={<LiveDraftPage />} />
-                  <Route path="/live-draft/:sessionId" element={<LiveDraftPage />} />
+                  <Route path="/live-draft/coach/:token" element={<JoinLiveDraftCoachPage />} />
+                  <Route path="/live-draft/team/:token" element={<JoinLiveDraftTeamPage />} />
+                  <Route path="/live-draft/lobby/:sessionId" element={<KeyedLiveDraftPage />} />
+                  <Route path="/live-draft/:sessionId/game" element={<KeyedLiveDraftPage />} />
+                  <Route path="/live-draft/:sessionId" element={<KeyedLiveDraftPage />} />
                   <Route path="*" element={<NotFoundPage />} />
                 </Routes>
               </Layout>
@@ -54,6 +54,7 @@ const TIER_COLORS: Record<string, string> = {
 const MODE_COLORS: Record<string, string> = {
   normal: '#F0B232',
   fearless: '#0AC8B9',
+  hard_fearless: '#F97316',
   ironman: '#EF4444',
 };
 
@@ -0,0 +1,47 @@
+import { useChampionData } from '../../hooks/useChampionData';
+import { analyzeComposition, type CcDensity } from '../../lib/compositionAnalysis';
+import { COMP_ARCHETYPES } from '../../types';
+import DamageBalanceBar from './DamageBalanceBar';
+
+interface CompositionSummaryProps {
+  championIds: (string | null)[];
+  className?: string;
+}
+
+const CC_COLORS: Record<CcDensity, string> = {
+  low: 'text-gray-400',
+  medium: 'text-yellow-400',
+  high: 'text-green-400',
+};
+
+export default function CompositionSummary({ championIds, className = '' }: CompositionSummaryProps) {
+  const { getChampionById } = useChampionData();
+
+  const analysis = analyzeComposition(championIds, (id) => getChampionById(id)?.tags ?? []);
+
+  if (!analysis) return null;
+
+  const archetypeLabel = analysis.archetype
+    ? COMP_ARCHETYPES.find((a) => a.value === analysis.archetype)?.label
+    : 'Mixed';
+
+  return (
+    <div className={`w-full space-y-1.5 px-3 py-2 rounded-lg bg-lol-dark border border-lol-border/50 text-xs ${className}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500 uppercase tracking-wide">Comp</span>
+        <span className={`font-semibold ${analysis.archetype ? 'text-lol-gold' : 'text-gray-400'}`}>
+          {archetypeLabel}
+        </span>
+      </div>
+      <DamageBalanceBar estimate={analysis.damage} />
+      <div className="flex justify-between text-gray-400">
+        <span>
+          Frontline <span className="text-white tabular-nums">{analysis.frontline}</span>
+        </span>
+        <span>
+          CC <span className={`capitalize ${CC_COLORS[analysis.ccDensity]}`}>{analysis.ccDensity}</span>
+        </span>
+      </div>
+    </div>
+  );
+}
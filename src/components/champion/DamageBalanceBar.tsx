@@ -0,0 +1,34 @@
+import { getDamageWarning, type TeamDamageEstimate } from '../../lib/damageBalance';
+
+interface DamageBalanceBarProps {
+  estimate: TeamDamageEstimate;
+  showWarning?: boolean;
+  className?: string;
+}
+
+export default function DamageBalanceBar({ estimate, showWarning = true, className = '' }: DamageBalanceBarProps) {
+  const warning = showWarning ? getDamageWarning(estimate) : null;
+
+  return (
+    <div className={`text-xs ${className}`}>
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-lol-surface">
+        <div className="bg-orange-500" style={{ width: `${estimate.ad}%` }} />
+        <div className="bg-sky-500" style={{ width: `${estimate.ap}%` }} />
+        <div className="bg-gray-200" style={{ width: `${estimate.true}%` }} />
+      </div>
+      <div className="flex justify-between gap-2 mt-0.5 tabular-nums">
+        <span className="text-orange-400">{estimate.ad}% AD</span>
+        <span className="text-sky-400">{estimate.ap}% AP</span>
+        {estimate.true > 0 && <span className="text-gray-200">{estimate.true}% True</span>}
+      </div>
+      {warning && (
+        <div className="flex items-center gap-1 mt-1 text-amber-400">
+          <svg className="w-3.5 h-3.5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <span>{warning}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,3 +5,5 @@ export { default as ChampionSelector } from './ChampionSelector';
 export { default as PlayerTierList } from './PlayerTierList';
 export { default as TeamChampionPool } from './TeamChampionPool';
 export { default as MasteryDisplay } from './MasteryDisplay';
+export { default as CompositionSummary } from './CompositionSummary';
+export { default as DamageBalanceBar } from './DamageBalanceBar';
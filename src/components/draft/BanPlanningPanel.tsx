@@ -3,13 +3,17 @@ import { Card } from '../ui';
 import { ChampionIcon } from '../champion';
 import { useChampionData } from '../../hooks/useChampionData';
 import { BanCandidate } from './hooks/useDraftAnalytics';
-import { TIERS, Role, ROLES } from '../../types';
+import { TIERS, Role, ROLES, BanScoringWeights } from '../../types';
+import { BAN_SCORING_FIELDS, DEFAULT_BAN_SCORING } from '../../lib/banScoring';
 
 interface BanPlanningPanelProps {
   banCandidates: BanCandidate[];
   currentBans: string[];
   onAddBan: (championId: string) => void;
   onRemoveBan: (championId: string) => void;
+  // Ban scoring profile of the team; editable when onWeightsChange is set
+  weights?: BanScoringWeights | null;
+  onWeightsChange?: (weights: BanScoringWeights | null) => void;
 }
 
 type TagFilter = 'all' | 'flex' | 'contested';
@@ -19,10 +23,21 @@ export default function BanPlanningPanel({
   currentBans,
   onAddBan,
   onRemoveBan,
+  weights,
+  onWeightsChange,
 }: BanPlanningPanelProps) {
   const { getChampionById } = useChampionData();
   const [roleFilter, setRoleFilter] = useState<Role | 'all'>('all');
   const [tagFilter, setTagFilter] = useState<TagFilter>('all');
+  const [showWeights, setShowWeights] = useState(false);
+
+  const activeWeights = weights ?? DEFAULT_BAN_SCORING;
+
+  const handleWeightChange = (key: keyof BanScoringWeights, value: string) => {
+    const parsed = Number(value);
+    if (!onWeightsChange || value === '' || isNaN(parsed)) return;
+    onWeightsChange({ ...activeWeights, [key]: parsed });
+  };
 
   const getTierColor = (tier: string | null) => {
     if (!tier) return 'text-gray-400';
@@ -57,10 +72,54 @@ export default function BanPlanningPanel({
       <div className="flex items-center justify-between mb-4">
         <div>
           <h3 className="text-lg font-semibold text-red-400">Ban Suggestions</h3>
-          <p className="text-xs text-gray-500 mt-0.5">Ranked by player count, flex potential, and contested status</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {weights ? 'Ranked by your team\'s scoring profile' : 'Ranked by player count, flex potential, and contested status'}
+          </p>
         </div>
+        {onWeightsChange && (
+          <button
+            onClick={() => setShowWeights(!showWeights)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+              showWeights
+                ? 'bg-lol-gold/20 text-lol-gold border border-lol-gold/50'
+                : 'bg-lol-dark text-gray-400 border border-lol-border hover:text-white hover:border-lol-border-light'
+            }`}
+          >
+            Weights
+          </button>
+        )}
       </div>
 
+      {/* Scoring profile */}
+      {showWeights && onWeightsChange && (
+        <div className="mb-4 p-3 bg-lol-dark rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+            {BAN_SCORING_FIELDS.map((field) => (
+              <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  max={field.max}
+                  step={field.step}
+                  value={activeWeights[field.key]}
+                  onChange={(e) => handleWeightChange(field.key, e.target.value)}
+                  className="w-16 px-2 py-1 bg-lol-card border border-lol-border rounded text-white text-right tabular-nums focus:outline-none focus:border-lol-gold/50"
+                />
+              </label>
+            ))}
+          </div>
+          {weights && (
+            <button
+              onClick={() => onWeightsChange(null)}
+              className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="space-y-2 mb-4">
         {/* Role Filter */}
@@ -176,6 +235,23 @@ export default function BanPlanningPanel({
                     </div>
                   </div>
 
+                  {/* Score with breakdown tooltip */}
+                  <div className="relative group/score shrink-0">
+                    <span className="text-xs text-gray-400 tabular-nums cursor-help">{candidate.score}</span>
+                    <div className="absolute right-0 top-full mt-1 z-20 hidden group-hover/score:block w-48 p-2 bg-lol-card border border-lol-border rounded-lg shadow-xl">
+                      {candidate.breakdown.map((factor) => (
+                        <div key={factor.label} className="flex justify-between gap-2 text-xs">
+                          <span className="text-gray-400 truncate">{factor.label}</span>
+                          <span className="text-white tabular-nums">+{factor.points}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between gap-2 text-xs mt-1 pt-1 border-t border-lol-border">
+                        <span className="text-gray-300">Total</span>
+                        <span className="text-lol-gold font-semibold tabular-nums">{candidate.score}</span>
+                      </div>
+                    </div>
+                  </div>
+
                   <button
                     onClick={() => onAddBan(candidate.championId)}
                     className="opacity-0 group-hover:opacity-100 px-2.5 py-1.5 bg-red-500/20 text-red-400 text-xs font-medium rounded hover:bg-red-500/30 transition-all"
@@ -6,11 +6,14 @@ import { useDraftStore } from "../../stores/useDraftStore";
 import { useEnemyTeamStore } from "../../stores/useEnemyTeamStore";
 import { useMyTeamStore } from "../../stores/useMyTeamStore";
 import { useDraftAnalytics } from "./hooks/useDraftAnalytics";
+import { useBanSignals } from "./hooks/useBanSignals";
 import BanPlanningPanel from "./BanPlanningPanel";
 import ContestedAnalysis from "./ContestedAnalysis";
 import PoolOverview from "./PoolOverview";
 import GroupedChampionList from "./GroupedChampionList";
-import { ChampionIcon } from "../champion";
+import { ChampionIcon, DamageBalanceBar } from "../champion";
+import { useChampionData } from "../../hooks/useChampionData";
+import { estimateTeamDamage } from "../../lib/damageBalance";
 import { OpggLinks } from "../team";
 
 type ViewType = "bans" | "pools";
@@ -146,6 +149,7 @@ export default function DraftPlanningHub({
 
   // Pool filter state
   const allMyTeams = useMyTeamStore((s) => s.teams);
+  const setBanScoring = useMyTeamStore((s) => s.setBanScoring);
   const allEnemyTeams = useEnemyTeamStore((s) => s.teams);
   const [selectedPoolMyTeamIds, setSelectedPoolMyTeamIds] = useState<string[]>(
     [],
@@ -184,10 +188,19 @@ export default function DraftPlanningHub({
   const banGroups = session.banGroups || [];
   const priorityGroups = session.priorityGroups || [];
 
+  // Damage mix of the champions we plan to pick
+  const { getChampionById } = useChampionData();
+  const priorityChampionIds = [...new Set(getAllChampionIds(priorityGroups))];
+  const priorityDamage = estimateTeamDamage(
+    priorityChampionIds,
+    (id) => getChampionById(id)?.tags ?? [],
+  );
+
   // Get flat arrays for panels that need them
   const currentBans = getAllChampionIds(banGroups);
 
-  // Analytics (for current session)
+  // Analytics (for current session), ban suggestions use our team's scoring profile
+  const banSignals = useBanSignals(enemyTeam);
   const analytics = useDraftAnalytics({
     myTeam,
     enemyTeam,
@@ -195,7 +208,11 @@ export default function DraftPlanningHub({
     selectedCustomPoolIds: [],
     tierFilter: ["S", "A", "B", "C"],
     playerPools,
+    banScoring: myTeam.banScoring,
+    banSignals,
   });
+  // Only teams we own can change their profile
+  const canEditBanScoring = allMyTeams.some((t) => t.id === myTeam.id);
 
   // Linked draft data
   const linkedBanGroups = useMemo(
@@ -905,6 +922,12 @@ export default function DraftPlanningHub({
                 currentBans={currentBans}
                 onAddBan={onAddBan}
                 onRemoveBan={onRemoveBan}
+                weights={myTeam.banScoring}
+                onWeightsChange={
+                  canEditBanScoring
+                    ? (weights) => setBanScoring(myTeam.id, weights)
+                    : undefined
+                }
               />
               <ContestedAnalysis
                 contested={analytics.contested}
@@ -964,6 +987,21 @@ export default function DraftPlanningHub({
           onAddToFirstGroup={onAddPriority}
         />
       </div>
+
+      {/* Damage balance of our priorities */}
+      {priorityDamage && (
+        <div className="p-4 rounded-xl bg-lol-card border border-lol-border">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-300">
+              Damage mix of our priorities
+            </h3>
+            <span className="text-xs text-gray-500">
+              {priorityDamage.championCount} champions
+            </span>
+          </div>
+          <DamageBalanceBar estimate={priorityDamage} />
+        </div>
+      )}
     </div>
   );
 }
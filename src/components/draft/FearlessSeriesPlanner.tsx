@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { Card, Select } from '../ui';
+import { ChampionIcon } from '../champion';
+import { ROLES, Role, SeriesPlan, Team } from '../../types';
+import { usePlayerPoolStore } from '../../stores/usePlayerPoolStore';
+import { useDraftAnalytics } from './hooks/useDraftAnalytics';
+import {
+  SERIES_GAME_COUNTS,
+  createSeriesPlan,
+  getChampionsUsedElsewhere,
+  getComfortPools,
+  getComfortWarnings,
+  getEnemyExhaustion,
+  resizeSeriesPlan,
+} from '../../lib/fearlessSeriesPlanner';
+
+const DEFAULT_GAME_COUNT = 3;
+
+interface FearlessSeriesPlannerProps {
+  myTeam: Team | null;
+  enemyTeam: Team | null;
+  plan: SeriesPlan | null | undefined;
+  canEdit: boolean;
+  onChange: (plan: SeriesPlan | null) => void;
+}
+
+function roleLabel(role: Role) {
+  return ROLES.find((r) => r.value === role)?.label ?? role;
+}
+
+export default function FearlessSeriesPlanner({ myTeam, enemyTeam, plan, canEdit, onChange }: FearlessSeriesPlannerProps) {
+  const { pools: playerPools } = usePlayerPoolStore();
+  const [activeCell, setActiveCell] = useState<{ gameIndex: number; role: Role } | null>(null);
+
+  const analytics = useDraftAnalytics({
+    myTeam,
+    enemyTeam,
+    customPools: [],
+    selectedCustomPoolIds: [],
+    tierFilter: ['S', 'A', 'B', 'C'],
+    playerPools,
+  });
+
+  const myPools = useMemo(() => getComfortPools(analytics.allChampions, 'my'), [analytics.allChampions]);
+  const enemyPools = useMemo(() => getComfortPools(analytics.allChampions, 'enemy'), [analytics.allChampions]);
+
+  // Unsaved until the first edit
+  const activePlan = plan ?? createSeriesPlan(DEFAULT_GAME_COUNT);
+
+  const warnings = useMemo(() => getComfortWarnings(activePlan, myPools), [activePlan, myPools]);
+  const enemyExhaustion = useMemo(
+    () => getEnemyExhaustion(activePlan.gameCount, enemyPools),
+    [activePlan.gameCount, enemyPools]
+  );
+
+  const activePool = activeCell ? myPools.find((p) => p.role === activeCell.role) : null;
+  const usedElsewhere = activeCell ? getChampionsUsedElsewhere(activePlan, activeCell.gameIndex) : new Set<string>();
+  const activePick = activeCell
+    ? activePlan.games[activeCell.gameIndex]?.find((p) => p.role === activeCell.role)
+    : undefined;
+
+  const handleGameCountChange = (value: string) => {
+    const gameCount = Number(value);
+    if (activeCell && activeCell.gameIndex >= gameCount) setActiveCell(null);
+    onChange(resizeSeriesPlan(activePlan, gameCount));
+  };
+
+  const handleAssign = (gameIndex: number, role: Role, championId: string) => {
+    const games = activePlan.games.map((picks, i) => {
+      if (i !== gameIndex) return picks;
+      const others = picks.filter((p) => p.role !== role);
+      const current = picks.find((p) => p.role === role);
+      return current?.championId === championId ? others : [...others, { championId, role }];
+    });
+    onChange({ ...activePlan, games });
+  };
+
+  const hasWarning = (gameIndex: number, playerName: string, role: Role) =>
+    warnings.some((w) => w.gameNumber === gameIndex + 1 && w.playerName === playerName && w.role === role);
+
+  return (
+    <Card variant="bordered" padding="lg">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Fearless Series Planner</h2>
+          <p className="text-sm text-gray-500">Spread your comfort picks over the games of the series</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {plan && canEdit && (
+            <button
+              onClick={() => {
+                setActiveCell(null);
+                onChange(null);
+              }}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+            >
+              Clear plan
+            </button>
+          )}
+          <Select
+            options={SERIES_GAME_COUNTS.map((n) => ({ value: String(n), label: `${n} games` }))}
+            value={String(activePlan.gameCount)}
+            onChange={(e) => canEdit && handleGameCountChange(e.target.value)}
+            disabled={!canEdit}
+            size="sm"
+          />
+        </div>
+      </div>
+
+      {myPools.length === 0 ? (
+        <p className="text-sm text-gray-500">Add players with champion pools to your team to plan a series.</p>
+      ) : (
+        <div className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs uppercase">
+                <th className="text-left font-medium py-1">Player</th>
+                {activePlan.games.map((_, i) => (
+                  <th key={i} className="text-center font-medium py-1">Game {i + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {myPools.map((pool) => (
+                <tr key={`${pool.playerName}:${pool.role}`} className="border-t border-lol-border">
+                  <td className="py-2">
+                    <div className="text-white font-medium truncate">{pool.playerName}</div>
+                    <div className="text-xs text-gray-500">
+                      {roleLabel(pool.role)} · {pool.comfort.length} {pool.hasTierData ? 'S/A' : 'untiered'}
+                    </div>
+                  </td>
+                  {activePlan.games.map((picks, gameIndex) => {
+                    const pick = picks.find((p) => p.role === pool.role);
+                    const isActive = activeCell?.gameIndex === gameIndex && activeCell.role === pool.role;
+                    const warn = hasWarning(gameIndex, pool.playerName, pool.role);
+                    return (
+                      <td key={gameIndex} className="py-2">
+                        <button
+                          onClick={() => canEdit && setActiveCell(isActive ? null : { gameIndex, role: pool.role })}
+                          disabled={!canEdit}
+                          title={warn ? `${pool.playerName} has no S/A champions left for this game` : undefined}
+                          className={`mx-auto w-12 h-12 rounded-lg border flex items-center justify-center transition-colors ${
+                            isActive
+                              ? 'border-lol-gold bg-lol-gold/10'
+                              : warn
+                                ? 'border-amber-500/60 bg-amber-500/10'
+                                : 'border-lol-border/50 bg-lol-dark hover:border-lol-border-light'
+                          } ${!canEdit ? 'cursor-default' : ''}`}
+                        >
+                          {pick ? (
+                            <ChampionIcon championId={pick.championId} size="md" />
+                          ) : (
+                            <span className={warn ? 'text-amber-400' : 'text-gray-600'}>{warn ? '!' : '+'}</span>
+                          )}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {activeCell && activePool && (
+            <div className="p-3 rounded-lg bg-lol-dark border border-lol-border/50">
+              <div className="text-xs text-gray-400 mb-2">
+                {activePool.playerName} · Game {activeCell.gameIndex + 1}
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {activePool.champions.map((championId) => {
+                  const isUsed = usedElsewhere.has(championId);
+                  const isComfort = activePool.hasTierData && activePool.comfort.includes(championId);
+                  return (
+                    <div
+                      key={championId}
+                      className={`relative ${isUsed ? 'opacity-30 grayscale pointer-events-none' : ''}`}
+                    >
+                      <ChampionIcon
+                        championId={championId}
+                        size="sm"
+                        selected={activePick?.championId === championId}
+                        onClick={() => handleAssign(activeCell.gameIndex, activeCell.role, championId)}
+                      />
+                      {isComfort && (
+                        <div className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-lol-gold rounded-full" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="space-y-1">
+              {warnings.map((w) => (
+                <div key={`${w.gameNumber}:${w.playerName}:${w.role}`} className="text-sm text-amber-400">
+                  Game {w.gameNumber}: {w.playerName} ({roleLabel(w.role)}) has no S/A champions left
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {enemyExhaustion.length > 0 && (
+        <div className="mt-6 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-300">Enemy comfort picks likely exhausted</h3>
+          {enemyExhaustion.map((enemy) => (
+            <div
+              key={`${enemy.playerName}:${enemy.role}`}
+              className="flex items-center gap-3 p-2 rounded-lg bg-lol-dark"
+            >
+              <div className="w-40 shrink-0">
+                <div className="text-sm text-white truncate">{enemy.playerName}</div>
+                <div className="text-xs text-gray-500">
+                  {roleLabel(enemy.role)} · {enemy.comfortCount} comfort
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1 flex-1">
+                {enemy.likelyExhausted.map((championId) => (
+                  <ChampionIcon key={championId} championId={championId} size="xs" />
+                ))}
+              </div>
+              {enemy.runsOutAtGame !== null && (
+                <span className="text-xs text-red-400 shrink-0">Out of comfort picks by game {enemy.runsOutAtGame}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
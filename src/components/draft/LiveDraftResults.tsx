@@ -0,0 +1,113 @@
+import { Link } from 'react-router-dom';
+import { Card } from '../ui';
+import { useChampionData } from '../../hooks/useChampionData';
+import { getPrepAccuracy } from '../../lib/liveDraftResults';
+import type { LiveDraftResult, PlannedBanOutcome } from '../../types';
+
+interface LiveDraftResultsProps {
+  results: LiveDraftResult[];
+}
+
+const OUTCOME_STYLES: Record<PlannedBanOutcome, { label: string; className: string }> = {
+  banned: { label: 'Banned', className: 'bg-green-500/15 text-green-400 border-green-500/30' },
+  banned_by_enemy: { label: 'Enemy banned', className: 'bg-blue-500/15 text-blue-400 border-blue-500/30' },
+  picked: { label: 'We picked', className: 'bg-lol-gold/15 text-lol-gold border-lol-gold/30' },
+  picked_by_enemy: { label: 'Enemy picked', className: 'bg-red-500/15 text-red-400 border-red-500/30' },
+  open: { label: 'Not banned', className: 'bg-lol-dark text-gray-500 border-lol-border' },
+};
+
+export default function LiveDraftResults({ results }: LiveDraftResultsProps) {
+  const { getChampionById, getIconUrl } = useChampionData();
+  const accuracy = getPrepAccuracy(results);
+
+  const renderIcons = (ids: string[], dimmed = false) => (
+    <div className="flex gap-1">
+      {ids.map((id) => (
+        <img
+          key={id}
+          src={getIconUrl(id)}
+          alt={getChampionById(id)?.name ?? id}
+          title={getChampionById(id)?.name ?? id}
+          className={`w-7 h-7 rounded ${dimmed ? 'grayscale opacity-70' : ''}`}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <Card variant="bordered" padding="lg">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-white">Live Draft Results</h2>
+        {accuracy !== null && (
+          <span className="text-sm text-gray-400" title="Share of planned bans we actually banned">
+            Prep accuracy <span className="font-semibold text-white tabular-nums">{accuracy}%</span>
+          </span>
+        )}
+      </div>
+      <div className="space-y-3">
+        {results.map((result) => (
+          <div key={result.liveGameId} className="p-4 rounded-xl bg-lol-dark border border-lol-border/50 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0 text-sm">
+                <span
+                  className={`px-2 py-0.5 rounded text-xs font-bold ${
+                    result.won === null
+                      ? 'bg-gray-500/20 text-gray-400'
+                      : result.won
+                        ? 'bg-green-500/20 text-green-400'
+                        : 'bg-red-500/20 text-red-400'
+                  }`}
+                >
+                  {result.won === null ? '–' : result.won ? 'W' : 'L'}
+                </span>
+                <span className="text-white font-medium truncate">
+                  Game {result.gameNumber} vs {result.opponentName}
+                </span>
+                <span className={`text-xs ${result.side === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
+                  {result.side === 'blue' ? 'Blue side' : 'Red side'}
+                </span>
+              </div>
+              <Link
+                to={`/live-draft/${result.liveSessionId}`}
+                className="text-xs text-gray-500 hover:text-gray-300 transition-colors truncate"
+              >
+                {result.liveSessionName}
+              </Link>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <div className="text-xs uppercase tracking-wider text-gray-500">Our draft</div>
+                {renderIcons(result.ourBans, true)}
+                {renderIcons(result.ourPicks)}
+              </div>
+              <div className="space-y-1.5">
+                <div className="text-xs uppercase tracking-wider text-gray-500">Their draft</div>
+                {renderIcons(result.theirBans, true)}
+                {renderIcons(result.theirPicks)}
+              </div>
+            </div>
+
+            {result.plannedBans.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="text-xs uppercase tracking-wider text-gray-500">Planned bans</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {result.plannedBans.map(({ championId, outcome }) => (
+                    <span
+                      key={championId}
+                      className={`flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded-md border text-xs ${OUTCOME_STYLES[outcome].className}`}
+                    >
+                      <img src={getIconUrl(championId)} alt="" className="w-5 h-5 rounded" />
+                      {getChampionById(championId)?.name ?? championId}
+                      <span className="opacity-75">· {OUTCOME_STYLES[outcome].label}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
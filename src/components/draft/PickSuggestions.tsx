@@ -0,0 +1,61 @@
+import { useChampionData } from '../../hooks/useChampionData';
+import type { PickReasonKind, PickSuggestion } from '../../lib/pickRecommendations';
+
+interface PickSuggestionsProps {
+  suggestions: PickSuggestion[];
+  onSelect?: (championId: string) => void;
+  className?: string;
+}
+
+const REASON_COLORS: Record<PickReasonKind, string> = {
+  pool: 'text-gray-300',
+  role: 'text-gray-400',
+  flex: 'text-purple-400',
+  contested: 'text-orange-400',
+  fearless: 'text-orange-300',
+  counter: 'text-lol-gold',
+  synergy: 'text-sky-400',
+};
+
+export default function PickSuggestions({ suggestions, onSelect, className = '' }: PickSuggestionsProps) {
+  const { getChampionById, getIconUrl } = useChampionData();
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={`px-3 py-2 bg-lol-card border-t border-lol-border ${className}`}>
+      <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1.5">Suggested picks</div>
+      <div className="grid grid-cols-5 gap-2">
+        {suggestions.map((s) => {
+          const name = getChampionById(s.championId)?.name ?? s.championId;
+          return (
+            <button
+              key={s.championId}
+              onClick={() => onSelect?.(s.championId)}
+              disabled={!onSelect}
+              title={[`${name}: ${s.score}`, ...s.reasons.map((r) => `+${r.points} ${r.text}`)].join('\n')}
+              className="flex flex-col gap-1 p-1.5 rounded-lg bg-lol-dark border border-lol-border/50 text-left hover:border-lol-border-light transition-colors disabled:cursor-default min-w-0"
+            >
+              <div className="flex items-center gap-1.5 min-w-0">
+                <img src={getIconUrl(s.championId)} alt={name} className="w-7 h-7 rounded shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-xs text-white truncate">{name}</div>
+                  <div className="text-[10px] text-gray-500 tabular-nums">
+                    {s.score}{s.role && <span className="capitalize"> · {s.role}</span>}
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-0.5">
+                {s.reasons.map((r, i) => (
+                  <div key={i} className={`text-[10px] leading-tight truncate ${REASON_COLORS[r.kind]}`}>
+                    +{r.points} {r.text}
+                  </div>
+                ))}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMasteryStore } from '../../../stores/useMasteryStore';
+import { useChampionData } from '../../../hooks/useChampionData';
+import { getLatestPatchBuffs } from '../../../lib/patchService';
+import type { BanSignals } from '../../../lib/banScoring';
+import type { Team } from '../../../types';
+
+/**
+ * Mastery and patch data for ban scoring against an enemy team.
+ * Mastery comes from the cache only, it is never refreshed from here.
+ */
+export function useBanSignals(enemyTeam: Team | null): BanSignals {
+  const masteries = useMasteryStore((s) => s.masteries);
+  const getMastery = useMasteryStore((s) => s.getMastery);
+  const fetchMasteriesFromCache = useMasteryStore((s) => s.fetchMasteriesFromCache);
+  const { champions } = useChampionData();
+  const [patchBuffs, setPatchBuffs] = useState<Set<string>>();
+
+  useEffect(() => {
+    let mounted = true;
+    getLatestPatchBuffs()
+      .then((buffs) => {
+        if (mounted) setPatchBuffs(buffs);
+      })
+      .catch((err) => console.error('Failed to load patch buffs:', err));
+    return () => { mounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!enemyTeam) return;
+    fetchMasteriesFromCache(
+      enemyTeam.players.map((p) => ({ summonerName: p.summonerName, tagLine: p.tagLine, region: p.region }))
+    );
+  }, [enemyTeam, fetchMasteriesFromCache]);
+
+  const mastery = useMemo(() => {
+    const byChampion = new Map<string, { points: number; player: string }>();
+    if (!enemyTeam || masteries.size === 0) return byChampion;
+
+    const idByKey = new Map(champions.map((c) => [c.key, c.id]));
+    for (const player of enemyTeam.players) {
+      const data = getMastery({ summonerName: player.summonerName, tagLine: player.tagLine, region: player.region });
+      for (const entry of data?.masteries ?? []) {
+        const championId = idByKey.get(String(entry.championId));
+        if (!championId) continue;
+        const best = byChampion.get(championId);
+        if (!best || entry.championPoints > best.points) {
+          byChampion.set(championId, { points: entry.championPoints, player: player.summonerName });
+        }
+      }
+    }
+    return byChampion;
+  }, [enemyTeam, masteries, getMastery, champions]);
+
+  return useMemo(() => ({ mastery, patchBuffs }), [mastery, patchBuffs]);
+}
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
-import { Team, Player, CustomPool, ChampionTier, Role, ChampionGroup, PlayerPool } from '../../../types';
+import { Team, Player, CustomPool, ChampionTier, Role, ChampionGroup, PlayerPool, BanScoringWeights } from '../../../types';
+import { DEFAULT_BAN_SCORING, TIER_SCORE, scoreBanCandidate, type BanScoreFactor, type BanSignals } from '../../../lib/banScoring';
 
 // Source types for flexible pool selection
 export type PoolSource =
@@ -28,6 +29,8 @@ export interface BanCandidate {
   players: { name: string; role: Role; tier: ChampionTier | null }[];
   isFlexPick: boolean;
   isContested: boolean;
+  /** Points per scoring factor, summing to score */
+  breakdown: BanScoreFactor[];
 }
 
 // Contested champion with full context
@@ -84,6 +87,9 @@ interface UseDraftAnalyticsProps {
   tierFilter: ChampionTier[];
   // Player pools from usePlayerPoolStore - these contain the actual champion groups
   playerPools: PlayerPool[];
+  // Ban scoring profile of my team, defaults when unset
+  banScoring?: BanScoringWeights | null;
+  banSignals?: BanSignals;
 }
 
 // Helper to find player pool by summoner name + role
@@ -94,13 +100,6 @@ function findPlayerPool(pools: PlayerPool[], summonerName: string, role: Role):
   ) ?? null;
 }
 
-const TIER_SCORE: Record<ChampionTier, number> = {
-  S: 100,
-  A: 75,
-  B: 50,
-  C: 25,
-};
-
 function getTierFromGroups(groups: ChampionGroup[], championId: string): ChampionTier | undefined {
   for (const group of groups) {
     if (group.championIds.includes(championId)) {
@@ -125,6 +124,8 @@ export function useDraftAnalytics({
   selectedCustomPoolIds,
   tierFilter,
   playerPools,
+  banScoring,
+  banSignals,
 }: UseDraftAnalyticsProps): DraftAnalytics {
   return useMemo(() => {
     const allChampions = new Map<string, ChampionContext[]>();
@@ -326,12 +327,12 @@ export function useDraftAnalytics({
       const isFlexPick = new Set(players.map((p) => p.role)).size > 1;
       const isContested = myChampionSet.has(championId);
 
-      // Score calculation: prioritize player count and flex for enemies without tier data
-      // Base score: use tier if known, otherwise use neutral score (between A and B)
-      let score = bestTier ? TIER_SCORE[bestTier] : 60;
-      score += players.length * 25; // Multiple players is primary indicator for enemies
-      if (isFlexPick) score += 20; // Flex picks are very valuable to ban
-      if (isContested) score += 15; // Contested picks worth banning
+      // Player count and flex carry enemies without tier data, see lib/banScoring
+      const { score, breakdown } = scoreBanCandidate(
+        { championId, bestTier, playerCount: players.length, isFlexPick, isContested },
+        banScoring ?? DEFAULT_BAN_SCORING,
+        banSignals
+      );
 
       banCandidateMap.set(championId, {
         championId,
@@ -341,6 +342,7 @@ export function useDraftAnalytics({
         players,
         isFlexPick,
         isContested,
+        breakdown,
       });
     });
 
@@ -395,5 +397,5 @@ export function useDraftAnalytics({
       myChampionSet,
       enemyChampionSet,
     };
-  }, [myTeam, enemyTeam, customPools, selectedCustomPoolIds, tierFilter, playerPools]);
+  }, [myTeam, enemyTeam, customPools, selectedCustomPoolIds, tierFilter, playerPools, banScoring, banSignals]);
 }
@@ -13,9 +13,13 @@ export { default as PoolSourceSelector } from './PoolSourceSelector';
 export { default as RoleComparison } from './RoleComparison';
 export { default as PoolOverview } from './PoolOverview';
 export { default as TeamVsDisplay } from './TeamVsDisplay';
+export { default as LiveDraftResults } from './LiveDraftResults';
+export { default as FearlessSeriesPlanner } from './FearlessSeriesPlanner';
+export { default as PickSuggestions } from './PickSuggestions';
 
 // Hooks
 export { useDraftAnalytics } from './hooks/useDraftAnalytics';
+export { useBanSignals } from './hooks/useBanSignals';
 export type {
   PoolSource,
   ChampionContext,
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useChampionData } from '../../hooks/useChampionData';
+import { liveDraftCoachService } from '../../lib/liveDraftCoachService';
+import type {
+  DbLiveDraftCoach,
+  DbLiveDraftCoachProposal,
+  LiveDraftGame,
+  LiveDraftSession,
+  TeamSide,
+} from '../../types/liveDraft';
+
+const MAX_NOTES_SHOWN = 3;
+
+interface CoachPanelProps {
+  session: LiveDraftSession;
+  team: TeamSide;
+  /** Captains receive proposals, coaches send them */
+  role: 'captain' | 'coach';
+  /** The game currently being drafted */
+  game: LiveDraftGame | null;
+  coaches: DbLiveDraftCoach[];
+  /** Team-private feed, already filtered by RLS */
+  feed: DbLiveDraftCoachProposal[];
+  currentUserId: string | null;
+  /** Captain only: whether a proposal can be taken over right now */
+  canUseChampion?: boolean;
+  onUseChampion?: (championId: string) => void;
+}
+
+/**
+ * Team-private coaching strip above the board: the coach's hover and
+ * proposals for the current step, plus shared notes.
+ */
+export default function CoachPanel({
+  session,
+  team,
+  role,
+  game,
+  coaches,
+  feed,
+  currentUserId,
+  canUseChampion = false,
+  onUseChampion,
+}: CoachPanelProps) {
+  const { getIconUrl, getChampionById } = useChampionData();
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const teamCoaches = coaches.filter((c) => c.team === team);
+  const teamFeed = feed.filter((f) => f.team === team);
+  const captainId = team === 'team1' ? session.team1_captain_id : session.team2_captain_id;
+  const captainName = team === 'team1' ? session.team1_captain_display_name : session.team2_captain_display_name;
+  const authorName = (userId: string) => {
+    if (userId === currentUserId) return 'You';
+    if (userId === captainId) return captainName || 'Captain';
+    return teamCoaches.find((c) => c.user_id === userId)?.display_name || 'Coach';
+  };
+
+  // Only suggestions for the step being drafted right now are relevant
+  const stepSuggestions =
+    game?.status === 'drafting'
+      ? teamFeed.filter(
+          (f) => f.kind !== 'note' && f.game_id === game.id && f.action_index === game.current_action_index
+        )
+      : [];
+  const notes = teamFeed.filter((f) => f.kind === 'note').slice(-MAX_NOTES_SHOWN);
+
+  if (role === 'captain' && teamCoaches.length === 0 && notes.length === 0) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddNote = () => {
+    if (!note.trim()) return;
+    run(async () => {
+      await liveDraftCoachService.addNote(session.id, team, note);
+      setNote('');
+    });
+  };
+
+  const teamName = team === 'team1' ? session.team1_name : session.team2_name;
+
+  return (
+    <div className="px-4 py-2.5 rounded-lg bg-purple-500/10 border border-purple-500/30 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <svg className="w-5 h-5 text-purple-300 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-purple-200 truncate">
+              {role === 'coach' ? `Coaching ${teamName}` : 'Coach feed'}
+            </div>
+            <div className="text-xs text-gray-400 flex flex-wrap gap-x-2">
+              {teamCoaches.length === 0 ? (
+                <span>No coach connected</span>
+              ) : (
+                teamCoaches.map((c) => (
+                  <span key={c.user_id} className="flex items-center gap-1">
+                    {c.display_name || 'Coach'}
+                    {(role === 'captain' || c.user_id === currentUserId) && (
+                      <button
+                        onClick={() => run(() => liveDraftCoachService.removeCoach(session.id, c.user_id))}
+                        disabled={saving}
+                        className="text-gray-500 hover:text-red-400 transition-colors"
+                        title={c.user_id === currentUserId ? 'Stop coaching' : 'Remove coach'}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Suggestions for the current step */}
+        <div className="flex items-center gap-2 shrink-0">
+          {stepSuggestions.length === 0 ? (
+            <span className="text-xs text-gray-500">
+              {role === 'coach' ? 'Select a champion during your turn to suggest it' : 'No suggestions for this step'}
+            </span>
+          ) : (
+            stepSuggestions.map((s) => {
+              const name = getChampionById(s.champion_id!)?.name ?? s.champion_id;
+              const isProposal = s.kind === 'proposal';
+              return (
+                <button
+                  key={s.id}
+                  onClick={() => onUseChampion?.(s.champion_id!)}
+                  disabled={!canUseChampion}
+                  title={`${authorName(s.created_by)} ${isProposal ? 'proposes' : 'is looking at'} ${name}${
+                    s.note ? `: ${s.note}` : ''
+                  }${canUseChampion ? ' — click to select' : ''}`}
+                  className={`flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded text-xs transition-colors ${
+                    isProposal
+                      ? 'border border-purple-400/60 text-purple-100 bg-purple-500/20'
+                      : 'border border-dashed border-purple-400/40 text-gray-300'
+                  } ${canUseChampion ? 'hover:bg-purple-500/30' : 'cursor-default'}`}
+                >
+                  <img src={getIconUrl(s.champion_id!)} alt={name ?? ''} className="w-6 h-6 rounded" />
+                  <span>{isProposal ? name : `${name}?`}</span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* Team notes */}
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0 space-y-0.5">
+          {notes.map((n) => (
+            <div key={n.id} className="flex items-center gap-2 text-xs text-gray-300">
+              <span className="text-purple-300 shrink-0">
+                {authorName(n.created_by)}:
+              </span>
+              <span className="truncate">{n.note}</span>
+              <button
+                onClick={() => run(() => liveDraftCoachService.dismiss(n.id))}
+                disabled={saving}
+                className="text-gray-500 hover:text-red-400 transition-colors shrink-0"
+                title="Dismiss note"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddNote();
+          }}
+          placeholder="Private team note..."
+          maxLength={200}
+          disabled={saving}
+          className="w-64 shrink-0 px-3 py-1.5 text-xs rounded-lg bg-lol-dark border border-lol-border text-white placeholder-gray-600 focus:outline-none focus:border-purple-400/50"
+        />
+      </div>
+    </div>
+  );
+}
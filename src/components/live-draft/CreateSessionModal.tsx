@@ -4,8 +4,26 @@ import Modal from "../ui/Modal";
 import Input from "../ui/Input";
 import Button from "../ui/Button";
 import ButtonGroup from "../ui/ButtonGroup";
+import Select from "../ui/Select";
+import DraftOrderEditor from "./DraftOrderEditor";
+import { ChampionSearch } from "../champion";
+import { useChampionData } from "../../hooks/useChampionData";
+import { useMyTeamStore } from "../../stores/useMyTeamStore";
+import { useEnemyTeamStore } from "../../stores/useEnemyTeamStore";
+import { useDraftStore } from "../../stores/useDraftStore";
+import { useLiveDraftPresetsStore } from "../../stores/useLiveDraftPresetsStore";
 import { liveDraftService } from "../../lib/liveDraftService";
-import type { DraftMode } from "../../types/liveDraft";
+import {
+  DRAFT_ORDER,
+  DRAFT_ORDER_TEMPLATES,
+  isFearlessMode,
+} from "../../types/liveDraft";
+import type {
+  CreateLiveDraftSessionConfig,
+  DraftMode,
+  DraftOrderStep,
+  DraftOrderTemplate,
+} from "../../types/liveDraft";
 
 interface CreateSessionModalProps {
   isOpen: boolean;
@@ -15,9 +33,44 @@ interface CreateSessionModalProps {
 const DRAFT_MODE_OPTIONS = [
   { value: "normal", label: "Normal" },
   { value: "fearless", label: "Fearless" },
+  { value: "hard_fearless", label: "Hard Fearless" },
   { value: "ironman", label: "Ironman" },
 ];
 
+const CARRYOVER_OPTIONS = [
+  { value: "series", label: "Whole series" },
+  { value: "1", label: "1 game" },
+  { value: "2", label: "2 games" },
+  { value: "3", label: "3 games" },
+];
+
+const DRAFT_ORDER_OPTIONS = [
+  ...Object.entries(DRAFT_ORDER_TEMPLATES).map(([value, t]) => ({
+    value,
+    label: t.label,
+  })),
+  { value: "custom", label: "Custom" },
+];
+
+const OPPONENT_OPTIONS = [
+  { value: "human", label: "Human" },
+  { value: "bot", label: "Bot" },
+];
+
+const TIMEOUT_OPTIONS = [
+  { value: "0", label: "None" },
+  { value: "1", label: "1" },
+  { value: "2", label: "2" },
+  { value: "3", label: "3" },
+];
+
+const TRADE_PHASE_OPTIONS = [
+  { value: "0", label: "Off" },
+  { value: "30", label: "30s" },
+  { value: "60", label: "60s" },
+  { value: "90", label: "90s" },
+];
+
 const TIMER_OPTIONS = [
   { value: "15", label: "15s" },
   { value: "30", label: "30s", sublabel: "default" },
@@ -31,6 +84,11 @@ export default function CreateSessionModal({
   onClose,
 }: CreateSessionModalProps) {
   const navigate = useNavigate();
+  const { getIconUrl, getChampionById } = useChampionData();
+  const myTeams = useMyTeamStore((s) => s.teams);
+  const enemyTeams = useEnemyTeamStore((s) => s.teams);
+  const drafts = useDraftStore((s) => s.sessions);
+  const { presets, addPreset, removePreset } = useLiveDraftPresetsStore();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
@@ -43,6 +101,95 @@ export default function CreateSessionModal({
   const [plannedGames, setPlannedGames] = useState(3);
   const [pickTime, setPickTime] = useState(30);
   const [banTime, setBanTime] = useState(30);
+  const [timeoutsPerTeam, setTimeoutsPerTeam] = useState(1);
+  const [tradePhaseSeconds, setTradePhaseSeconds] = useState(0);
+  const [vsBot, setVsBot] = useState(false);
+  const [myTeamId, setMyTeamId] = useState("");
+  const [linkedDraftId, setLinkedDraftId] = useState("");
+  const [botEnemyTeamId, setBotEnemyTeamId] = useState("");
+  const [carryoverGames, setCarryoverGames] = useState<number | null>(null);
+  const [lockedChampions, setLockedChampions] = useState<string[]>([]);
+  const [draftOrderTemplate, setDraftOrderTemplate] =
+    useState<DraftOrderTemplate>("standard");
+  const [customDraftOrder, setCustomDraftOrder] =
+    useState<DraftOrderStep[]>(DRAFT_ORDER);
+
+  // Presets
+  const [presetId, setPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+
+  const buildConfig = (): CreateLiveDraftSessionConfig => {
+    const myTeam = myTeams.find((t) => t.id === myTeamId);
+    const botEnemyTeam = enemyTeams.find((t) => t.id === botEnemyTeamId);
+
+    return {
+      name: sessionName || "Live Draft",
+      draftMode,
+      fearlessCarryoverGames: isFearlessMode(draftMode)
+        ? carryoverGames
+        : null,
+      lockedChampions,
+      plannedGames,
+      pickTimeSeconds: pickTime,
+      banTimeSeconds: banTime,
+      timeoutsPerTeam,
+      tradePhaseSeconds,
+      draftOrderTemplate,
+      customDraftOrder:
+        draftOrderTemplate === "custom" ? customDraftOrder : undefined,
+      team1Name: team1Name || (vsBot ? myTeam?.name.slice(0, 30) : undefined),
+      team2Name: team2Name || (vsBot ? botEnemyTeam?.name.slice(0, 30) ?? "Bot" : undefined),
+      linkedTeamId: myTeamId || undefined,
+      linkedDraftId: linkedDraftId || undefined,
+      vsBot,
+      botEnemyTeamId: vsBot && botEnemyTeamId ? botEnemyTeamId : undefined,
+    };
+  };
+
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+
+    const { config } = preset;
+    setSessionName(config.name ?? "");
+    setTeam1Name(config.team1Name ?? "");
+    setTeam2Name(config.team2Name ?? "");
+    setDraftMode(config.draftMode);
+    setCarryoverGames(config.fearlessCarryoverGames ?? null);
+    setLockedChampions(config.lockedChampions ?? []);
+    setPlannedGames(config.plannedGames);
+    setPickTime(config.pickTimeSeconds);
+    setBanTime(config.banTimeSeconds);
+    setTimeoutsPerTeam(config.timeoutsPerTeam ?? 1);
+    setTradePhaseSeconds(config.tradePhaseSeconds ?? 0);
+    setDraftOrderTemplate(config.draftOrderTemplate ?? "standard");
+    setCustomDraftOrder(config.customDraftOrder ?? DRAFT_ORDER);
+    setVsBot(config.vsBot ?? false);
+    // Linked resources may have been deleted since the preset was saved
+    setMyTeamId(
+      myTeams.some((t) => t.id === config.linkedTeamId) ? config.linkedTeamId! : "",
+    );
+    setLinkedDraftId(
+      drafts.some((d) => d.id === config.linkedDraftId) ? config.linkedDraftId! : "",
+    );
+    setBotEnemyTeamId(
+      enemyTeams.some((t) => t.id === config.botEnemyTeamId) ? config.botEnemyTeamId! : "",
+    );
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    addPreset(name, { ...buildConfig(), name: sessionName });
+    setPresetName("");
+  };
+
+  const handleRemovePreset = () => {
+    if (!presetId) return;
+    removePreset(presetId);
+    setPresetId("");
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -50,15 +197,7 @@ export default function CreateSessionModal({
     setLoading(true);
 
     try {
-      const session = await liveDraftService.createSession({
-        name: sessionName || "Live Draft",
-        draftMode,
-        plannedGames,
-        pickTimeSeconds: pickTime,
-        banTimeSeconds: banTime,
-        team1Name: team1Name || undefined,
-        team2Name: team2Name || undefined,
-      });
+      const session = await liveDraftService.createSession(buildConfig());
 
       // Navigate to lobby page
       navigate(`/live-draft/${session.id}`);
@@ -79,7 +218,19 @@ export default function CreateSessionModal({
     setPlannedGames(3);
     setPickTime(30);
     setBanTime(30);
+    setTimeoutsPerTeam(1);
+    setTradePhaseSeconds(0);
+    setVsBot(false);
+    setMyTeamId("");
+    setLinkedDraftId("");
+    setBotEnemyTeamId("");
+    setCarryoverGames(null);
+    setLockedChampions([]);
+    setDraftOrderTemplate("standard");
+    setCustomDraftOrder(DRAFT_ORDER);
     setShowSettings(false);
+    setPresetId("");
+    setPresetName("");
     setError(null);
   };
 
@@ -103,6 +254,34 @@ export default function CreateSessionModal({
           </div>
         )}
 
+        {/* Preset */}
+        {presets.length > 0 && (
+          <div className="flex items-end gap-2">
+            <Select
+              label="Preset"
+              options={[
+                { value: "", label: "None" },
+                ...presets.map((p) => ({ value: p.id, label: p.name })),
+              ]}
+              value={presetId}
+              onChange={(e) => applyPreset(e.target.value)}
+              size="sm"
+              className="flex-1"
+            />
+            {presetId && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleRemovePreset}
+                className="text-red-400/80 hover:text-red-300"
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Session Name */}
         <Input
           label="Session Name"
@@ -133,19 +312,75 @@ export default function CreateSessionModal({
           Team and side selection happens in the lobby
         </p>
 
+        {/* Linked resources */}
+        {(myTeams.length > 0 || drafts.length > 0) && (
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label={vsBot ? "Your Team" : "Linked Team"}
+              options={[
+                { value: "", label: "None" },
+                ...myTeams.map((t) => ({ value: t.id, label: t.name })),
+              ]}
+              value={myTeamId}
+              onChange={(e) => setMyTeamId(e.target.value)}
+              size="sm"
+            />
+            <Select
+              label="Linked Draft"
+              options={[
+                { value: "", label: "None" },
+                ...drafts.map((d) => ({ value: d.id, label: d.name })),
+              ]}
+              value={linkedDraftId}
+              onChange={(e) => setLinkedDraftId(e.target.value)}
+              size="sm"
+            />
+          </div>
+        )}
+
+        {/* Opponent */}
+        <div className="space-y-3">
+          <ButtonGroup
+            label="Opponent"
+            options={OPPONENT_OPTIONS}
+            value={vsBot ? "bot" : "human"}
+            onChange={(value) => setVsBot(value === "bot")}
+            size="sm"
+          />
+          {vsBot && (
+            <>
+              <Select
+                label="Bot Plays As"
+                options={[
+                  { value: "", label: "None" },
+                  ...enemyTeams.map((t) => ({ value: t.id, label: t.name })),
+                ]}
+                value={botEnemyTeamId}
+                onChange={(e) => setBotEnemyTeamId(e.target.value)}
+                size="sm"
+              />
+              <p className="text-xs text-gray-500">
+                The bot takes Team 2 and drafts from the selected enemy
+                team's champion pools, banning threats from your team's pools.
+                Join Team 1 in the lobby to start.
+              </p>
+            </>
+          )}
+        </div>
+
         {/* Draft Mode */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-gray-300">
             Draft Mode
           </label>
-          <div className="grid grid-cols-3 gap-2">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
             {DRAFT_MODE_OPTIONS.map((option) => (
               <button
                 key={option.value}
                 type="button"
                 onClick={() => setDraftMode(option.value as DraftMode)}
                 className={`
-                  px-4 py-3 rounded-xl text-sm font-medium transition-colors border-2
+                  px-2 py-3 rounded-xl text-sm font-medium transition-colors border-2
                   ${
                     draftMode === option.value
                       ? "bg-lol-gold/20 border-lol-gold text-lol-gold"
@@ -162,9 +397,58 @@ export default function CreateSessionModal({
               "Standard draft rules. Champions can be reused each game."}
             {draftMode === "fearless" &&
               "Champions can't be picked by the same team again in the series."}
+            {draftMode === "hard_fearless" &&
+              "Champions a team picks or bans can't be used by that team again in the series."}
             {draftMode === "ironman" &&
               "Once a champion is picked or banned, they are unavailable for the rest of the series."}
           </p>
+          {isFearlessMode(draftMode) && (
+            <ButtonGroup
+              label="Locks Last"
+              options={CARRYOVER_OPTIONS}
+              value={carryoverGames === null ? "series" : carryoverGames.toString()}
+              onChange={(value) =>
+                setCarryoverGames(value === "series" ? null : parseInt(value, 10))
+              }
+              size="sm"
+            />
+          )}
+        </div>
+
+        {/* Pre-locked champions */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">
+            Locked Champions{" "}
+            <span className="text-gray-500 font-normal">(optional)</span>
+          </label>
+          <ChampionSearch
+            onSelect={(champion) =>
+              setLockedChampions((prev) => [...prev, champion.id])
+            }
+            placeholder="Lock a champion for the whole series..."
+            excludeIds={lockedChampions}
+          />
+          {lockedChampions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {lockedChampions.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() =>
+                    setLockedChampions((prev) => prev.filter((c) => c !== id))
+                  }
+                  title={`Unlock ${getChampionById(id)?.name ?? id}`}
+                  className="relative w-8 h-8 rounded overflow-hidden border border-lol-border hover:border-red-500/60 transition-colors"
+                >
+                  <img
+                    src={getIconUrl(id)}
+                    alt={getChampionById(id)?.name ?? id}
+                    className="w-full h-full object-cover grayscale"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Number of Games */}
@@ -193,6 +477,30 @@ export default function CreateSessionModal({
           </div>
         </div>
 
+        {/* Draft Order */}
+        <div className="space-y-2">
+          <ButtonGroup
+            label="Draft Order"
+            options={DRAFT_ORDER_OPTIONS}
+            value={draftOrderTemplate}
+            onChange={(value) =>
+              setDraftOrderTemplate(value as DraftOrderTemplate)
+            }
+            size="sm"
+          />
+          <p className="text-xs text-gray-500">
+            {draftOrderTemplate === "custom"
+              ? "Build your own ban/pick order. Each side needs 5 picks."
+              : DRAFT_ORDER_TEMPLATES[draftOrderTemplate].description}
+          </p>
+          {draftOrderTemplate === "custom" && (
+            <DraftOrderEditor
+              steps={customDraftOrder}
+              onChange={setCustomDraftOrder}
+            />
+          )}
+        </div>
+
         {/* Settings Toggle */}
         <button
           type="button"
@@ -254,9 +562,52 @@ export default function CreateSessionModal({
               onChange={(value) => setBanTime(parseInt(value, 10))}
               size="sm"
             />
+            <ButtonGroup
+              label="Timeouts per Captain"
+              options={TIMEOUT_OPTIONS}
+              value={timeoutsPerTeam.toString()}
+              onChange={(value) => setTimeoutsPerTeam(parseInt(value, 10))}
+              size="sm"
+            />
+            <ButtonGroup
+              label="Trade Phase"
+              options={TRADE_PHASE_OPTIONS}
+              value={tradePhaseSeconds.toString()}
+              onChange={(value) => setTradePhaseSeconds(parseInt(value, 10))}
+              size="sm"
+            />
           </div>
         )}
 
+        {/* Save as preset */}
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="Save as Preset"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleSavePreset();
+                }
+              }}
+              placeholder="e.g., Weekly scrims Bo3"
+              maxLength={30}
+              size="sm"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            Save
+          </Button>
+        </div>
+
         {/* Actions */}
         <div className="flex gap-3 pt-2">
           <Button
@@ -5,6 +5,7 @@ import { NONE_CHAMPION } from "../../types/liveDraft";
 import { ROLES } from "../../types";
 import type { Role, DraftSession, Team, ChampionGroup } from "../../types";
 import RoleIcon from "../team/RoleIcon";
+import type { MatchupRecommendation } from "../../lib/championMatchups";
 import { useMyTeamStore } from "../../stores/useMyTeamStore";
 import { useEnemyTeamStore } from "../../stores/useEnemyTeamStore";
 import { usePlayerPoolStore } from "../../stores/usePlayerPoolStore";
@@ -64,6 +65,10 @@ interface DraftChampionGridProps {
   linkedDraftSessionId: string | null;
   onLinkDraftSession: (draftId: string | null) => void;
   contestedChampionIds: Set<string>;
+  /** Captain only: teammate votes per champion for the current step */
+  voteCounts?: Map<string, number>;
+  /** Picks recommended by our counter/synergy matrix against the current draft */
+  matchupRecommendations?: Map<string, MatchupRecommendation>;
 }
 
 export default function DraftChampionGrid({
@@ -78,6 +83,8 @@ export default function DraftChampionGrid({
   linkedDraftSessionId,
   onLinkDraftSession,
   contestedChampionIds,
+  voteCounts,
+  matchupRecommendations,
 }: DraftChampionGridProps) {
   const { champions, loading, searchChampions, getIconUrl } = useChampionData();
   const [search, setSearch] = useState("");
@@ -237,6 +244,19 @@ export default function DraftChampionGrid({
     const isUnavailable = unavailableChampions.has(championId);
     const champion = champions.find((c) => c.id === championId);
     if (!champion) return null;
+    const votes = isUnavailable ? 0 : (voteCounts?.get(championId) ?? 0);
+    const recommendation = isUnavailable || isBanPhase ? undefined : matchupRecommendations?.get(championId);
+    const nameOf = (id: string) => champions.find((c) => c.id === id)?.name ?? id;
+    const recommendationText = recommendation
+      ? [
+          ...recommendation.counters.map((m) => `good into ${nameOf(m.targetId)}`),
+          ...recommendation.synergies.map((m) => `pairs with ${nameOf(m.championId === championId ? m.targetId : m.championId)}`),
+        ].join(", ")
+      : "";
+    const title = [
+      votes > 0 ? `${champion.name} (${votes} team vote${votes === 1 ? '' : 's'})` : champion.name,
+      recommendationText,
+    ].filter(Boolean).join(" — ");
 
     return (
       <button
@@ -244,7 +264,7 @@ export default function DraftChampionGrid({
         onClick={() => isMyTurn && !isUnavailable && onSelectChampion(championId)}
         disabled={!isMyTurn || isUnavailable}
         className={`relative group transition-all duration-150 w-14 h-14 shrink-0 ${isUnavailable ? 'cursor-not-allowed' : 'hover:scale-105'}`}
-        title={champion.name}
+        title={title}
       >
         <img
           src={getIconUrl(championId)}
@@ -255,6 +275,22 @@ export default function DraftChampionGrid({
         {isSelected && !isUnavailable && (
           <div className="absolute inset-0 rounded-md bg-yellow-800/40 pointer-events-none" />
         )}
+        {recommendation && (
+          <>
+            <div className={`absolute inset-0 rounded-md ring-2 pointer-events-none ${recommendation.counters.length > 0 ? 'ring-lol-gold/80' : 'ring-sky-400/70'}`} />
+            <div className={`absolute -top-1 -left-1 w-[18px] h-[18px] rounded-full text-[10px] font-bold flex items-center justify-center pointer-events-none ${recommendation.counters.length > 0 ? 'bg-lol-gold text-lol-dark' : 'bg-sky-500 text-white'}`}>
+              {recommendation.counters.length > 0 ? 'C' : 'S'}
+            </div>
+          </>
+        )}
+        {votes > 0 && (
+          <>
+            <div className="absolute inset-0 rounded-md ring-2 ring-emerald-400/70 pointer-events-none" />
+            <div className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-emerald-500 text-white text-[10px] font-bold flex items-center justify-center pointer-events-none">
+              {votes}
+            </div>
+          </>
+        )}
         <div className="absolute bottom-0 left-0 right-0 bg-black/80 text-white text-[10px] text-center py-0.5 opacity-0 group-hover:opacity-100 transition-opacity truncate rounded-b-md">
           {champion.name}
         </div>
@@ -0,0 +1,114 @@
+import { useMemo } from 'react';
+import {
+  DRAFT_ORDER,
+  MAX_DRAFT_SLOTS,
+  buildDraftOrder,
+  validateDraftOrder,
+} from '../../types/liveDraft';
+import type { DraftOrderAction, DraftOrderStep, DraftSide } from '../../types/liveDraft';
+
+interface DraftOrderEditorProps {
+  steps: DraftOrderStep[];
+  onChange: (steps: DraftOrderStep[]) => void;
+}
+
+const ADD_BUTTONS: { turn: DraftSide; actionType: 'ban' | 'pick'; label: string }[] = [
+  { turn: 'blue', actionType: 'ban', label: 'Blue ban' },
+  { turn: 'red', actionType: 'ban', label: 'Red ban' },
+  { turn: 'blue', actionType: 'pick', label: 'Blue pick' },
+  { turn: 'red', actionType: 'pick', label: 'Red pick' },
+];
+
+export default function DraftOrderEditor({ steps, onChange }: DraftOrderEditorProps) {
+  const actions: DraftOrderAction[] = useMemo(
+    () => steps.map(({ turn, actionType }) => ({ turn, actionType: actionType as 'ban' | 'pick' })),
+    [steps]
+  );
+
+  const validationError = useMemo(() => validateDraftOrder(steps), [steps]);
+
+  const countFor = (turn: DraftSide, actionType: 'ban' | 'pick') =>
+    steps.filter((s) => s.turn === turn && s.actionType === actionType).length;
+
+  const handleAdd = (action: DraftOrderAction) => {
+    onChange(buildDraftOrder([...actions, action]));
+  };
+
+  const handleRemove = (position: number) => {
+    onChange(buildDraftOrder(actions.filter((_, i) => i !== position)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Step sequence */}
+      <div className="flex flex-wrap gap-1 min-h-10 p-2 rounded-lg bg-lol-dark border border-lol-border">
+        {steps.length === 0 ? (
+          <span className="text-xs text-gray-500 self-center px-1">Add steps below</span>
+        ) : (
+          steps.map((step, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => handleRemove(i)}
+              title="Remove step"
+              className={`
+                flex items-center gap-1 px-1.5 py-1 rounded text-[10px] font-medium border transition-colors
+                ${step.turn === 'blue'
+                  ? 'bg-blue-500/10 border-blue-500/40 text-blue-300 hover:bg-blue-500/20'
+                  : 'bg-red-500/10 border-red-500/40 text-red-300 hover:bg-red-500/20'
+                }
+              `}
+            >
+              <span className="text-gray-500">{i + 1}</span>
+              {step.actionType === 'ban' ? 'Ban' : 'Pick'}
+            </button>
+          ))
+        )}
+      </div>
+
+      {/* Add buttons */}
+      <div className="flex flex-wrap items-center gap-2">
+        {ADD_BUTTONS.map((btn) => {
+          const isFull = countFor(btn.turn, btn.actionType) >= MAX_DRAFT_SLOTS;
+          return (
+            <button
+              key={btn.label}
+              type="button"
+              disabled={isFull}
+              onClick={() => handleAdd({ turn: btn.turn, actionType: btn.actionType })}
+              className={`
+                px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors
+                disabled:opacity-40 disabled:cursor-not-allowed
+                ${btn.turn === 'blue'
+                  ? 'border-blue-500/40 text-blue-300 hover:bg-blue-500/10'
+                  : 'border-red-500/40 text-red-300 hover:bg-red-500/10'
+                }
+              `}
+            >
+              + {btn.label}
+            </button>
+          );
+        })}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={() => onChange(DRAFT_ORDER)}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Start from standard
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      <p className={`text-xs ${validationError ? 'text-yellow-500' : 'text-gray-500'}`}>
+        {validationError ?? `${steps.length} steps. Click a step to remove it.`}
+      </p>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useMemo } from 'react';
 import { useChampionData } from '../../hooks/useChampionData';
-import type { DbLiveDraftUnavailableChampion, DraftMode } from '../../types/liveDraft';
+import { isFearlessMode, isLockActive } from '../../types/liveDraft';
+import type { ChampionLockRules, DbLiveDraftUnavailableChampion } from '../../types/liveDraft';
 
 interface FearlessBarProps {
-  draftMode: DraftMode;
+  rules: ChampionLockRules;
   fearlessChampions: DbLiveDraftUnavailableChampion[];
   currentGameNumber: number;
 }
@@ -11,17 +12,20 @@ interface FearlessBarProps {
 const iconStyle = { filter: 'grayscale(100%) brightness(0.75)' };
 
 export default function FearlessBar({
-  draftMode,
+  rules,
   fearlessChampions,
   currentGameNumber,
 }: FearlessBarProps) {
   const { getIconUrl, getChampionById } = useChampionData();
 
+  const draftMode = rules.draft_mode;
+  const lockedChampions = rules.locked_champions ?? [];
+
+  // Only show locks still active in this game (respects hard fearless bans and carryover expiry)
   const byGame = useMemo(() => {
     const map = new Map<number, DbLiveDraftUnavailableChampion[]>();
     for (const uc of fearlessChampions) {
-      if (uc.from_game >= currentGameNumber) continue;
-      if (draftMode === 'fearless' && uc.reason === 'banned') continue;
+      if (!isLockActive(uc, rules, currentGameNumber)) continue;
       const list = map.get(uc.from_game);
       if (list) {
         list.push(uc);
@@ -30,9 +34,9 @@ export default function FearlessBar({
       }
     }
     return map;
-  }, [fearlessChampions, currentGameNumber, draftMode]);
+  }, [fearlessChampions, currentGameNumber, rules]);
 
-  if (draftMode === 'normal' || byGame.size === 0) return null;
+  if (byGame.size === 0 && lockedChampions.length === 0) return null;
 
   const sortedGames = [...byGame.entries()].sort(([a], [b]) => a - b);
 
@@ -42,7 +46,7 @@ export default function FearlessBar({
     rows.push(sortedGames.slice(i, i + 2));
   }
 
-  const renderIcon = (c: DbLiveDraftUnavailableChampion, borderClass?: string) => {
+  const renderIcon = (c: Pick<DbLiveDraftUnavailableChampion, 'id' | 'champion_id'>, borderClass?: string) => {
     const name = getChampionById(c.champion_id)?.name ?? c.champion_id;
     return (
       <div
@@ -65,6 +69,15 @@ export default function FearlessBar({
 
   return (
     <div className="flex flex-col items-center px-4 py-2 bg-lol-card/50 border-y border-lol-border/30 gap-1.5">
+      {/* Champions pre-locked by the session creator */}
+      {lockedChampions.length > 0 && (
+        <div className="flex items-center justify-center gap-2 w-full max-w-[1800px]">
+          <span className="text-[9px] text-gray-500 font-medium uppercase tracking-wider">Locked</span>
+          <div className="flex items-center gap-0.5 min-w-0 flex-wrap justify-center">
+            {lockedChampions.map(id => renderIcon({ id: `locked-${id}`, champion_id: id }))}
+          </div>
+        </div>
+      )}
       {rows.map((rowGames, rowIdx) => (
         <div key={rowIdx} className="flex items-center justify-center gap-3 w-full max-w-[1800px]">
           {rowGames.map(([gameNum, champions]) => (
@@ -83,7 +96,7 @@ export default function FearlessBar({
 
               {/* Champion icons */}
               <div className="flex items-center gap-0.5 min-w-0">
-                {draftMode === 'fearless' ? (
+                {isFearlessMode(draftMode) ? (
                   <>
                     <div className="flex items-center gap-0.5 shrink min-w-0">
                       {champions.filter(c => c.team === 'blue').map(c =>
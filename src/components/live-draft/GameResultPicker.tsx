@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import type { DraftSide, LiveDraftGame, LiveDraftSession } from '../../types/liveDraft';
+
+interface GameResultPickerProps {
+  session: LiveDraftSession;
+  game: LiveDraftGame;
+  /** Captains record results; everyone else only sees them */
+  canRecord: boolean;
+  onRecord: (winner: DraftSide) => Promise<void>;
+}
+
+/**
+ * Compact header control for a completed game's winner. Recorded results feed
+ * the series score, the series report and tournament brackets.
+ */
+export default function GameResultPicker({ session, game, canRecord, onRecord }: GameResultPickerProps) {
+  const [saving, setSaving] = useState(false);
+
+  const nameForSide = (side: DraftSide) => {
+    const blueIsTeam1 = game.blue_side_team === 'team1';
+    return (side === 'blue') === blueIsTeam1 ? session.team1_name : session.team2_name;
+  };
+
+  if (game.winner) {
+    return (
+      <span className="text-xs px-2 py-1 rounded bg-lol-gold/10 text-lol-gold truncate max-w-40">
+        {nameForSide(game.winner)} won
+      </span>
+    );
+  }
+
+  if (!canRecord) return null;
+
+  const handleRecord = async (side: DraftSide) => {
+    setSaving(true);
+    try {
+      await onRecord(side);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <span className="text-gray-500">Winner:</span>
+      {(['blue', 'red'] as const).map((side) => (
+        <button
+          key={side}
+          onClick={() => handleRecord(side)}
+          disabled={saving}
+          className={`px-2 py-1 rounded border transition-colors truncate max-w-28 disabled:opacity-50 ${
+            side === 'blue'
+              ? 'border-blue-500/30 text-blue-400 hover:bg-blue-500/10'
+              : 'border-red-500/30 text-red-400 hover:bg-red-500/10'
+          }`}
+        >
+          {nameForSide(side)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -3,8 +3,14 @@ import DraftSlotLive from './DraftSlotLive';
 import DraftHeader from './DraftHeader';
 import DraftChampionGrid from './DraftChampionGrid';
 import FearlessBar from './FearlessBar';
+import { DamageBalanceBar } from '../champion';
+import PickSuggestions from '../draft/PickSuggestions';
+import { useChampionData } from '../../hooks/useChampionData';
+import { estimateTeamDamage } from '../../lib/damageBalance';
+import type { MatchupRecommendation } from '../../lib/championMatchups';
+import type { PickSuggestion } from '../../lib/pickRecommendations';
 import type { LiveDraftSession, LiveDraftGame, DraftSide, DbLiveDraftUnavailableChampion } from '../../types/liveDraft';
-import { DRAFT_ORDER, NONE_CHAMPION } from '../../types/liveDraft';
+import { NONE_CHAMPION, getBanSlotGroups, getDraftStep, resolveDraftOrder } from '../../types/liveDraft';
 import type { DraftSession } from '../../types';
 
 export interface FillingSlot {
@@ -26,6 +32,11 @@ interface LiveDraftBoardProps {
   timerRemaining: number | null;
   unavailableChampions: Set<string>;
   isLocking?: boolean;
+  /**
+   * Coaches propose and teammates vote for the selected champion
+   * instead of locking it in
+   */
+  proposeMode?: 'coach' | 'vote';
   isReadyLoading?: boolean;
   iAmReady: boolean;
   isCaptain: boolean;
@@ -39,6 +50,12 @@ interface LiveDraftBoardProps {
   linkedDraftSessionId: string | null;
   onLinkDraftSession: (draftId: string | null) => void;
   contestedChampionIds: Set<string>;
+  /** Captain only: teammate votes per champion for the current step */
+  voteCounts?: Map<string, number>;
+  /** Picks recommended by our counter/synergy matrix against the current draft */
+  matchupRecommendations?: Map<string, MatchupRecommendation>;
+  /** Ranked picks for the viewer's side while it is on turn */
+  pickSuggestions?: PickSuggestion[];
   // Side picking (games 2+)
   onSelectSide?: (side: DraftSide) => void;
   onClearSide?: () => void;
@@ -64,6 +81,7 @@ export default function LiveDraftBoard({
   timerRemaining,
   unavailableChampions,
   isLocking = false,
+  proposeMode,
   isReadyLoading = false,
   iAmReady,
   isCaptain,
@@ -76,6 +94,9 @@ export default function LiveDraftBoard({
   linkedDraftSessionId,
   onLinkDraftSession,
   contestedChampionIds,
+  voteCounts,
+  matchupRecommendations,
+  pickSuggestions,
   onSelectSide,
   onClearSide,
   sidePickingLoading,
@@ -120,8 +141,11 @@ export default function LiveDraftBoard({
     isReady: isTeam1Blue ? !!session.team2_ready : !!session.team1_ready,
   };
 
-  // Current draft step info
-  const currentStep = game.current_action_index >= 0 ? DRAFT_ORDER[game.current_action_index] : null;
+  // Current draft step info (the order comes from the session's template)
+  const draftOrder = resolveDraftOrder(session);
+  const currentStep = game.current_action_index >= 0 ? getDraftStep(game.current_action_index, draftOrder) : null;
+  const [blueBanPhase1, blueBanPhase2] = getBanSlotGroups(draftOrder, 'blue');
+  const [redBanPhase1, redBanPhase2] = getBanSlotGroups(draftOrder, 'red');
   const currentActionType = currentStep?.actionType || null;
 
   const getSlotActive = (side: DraftSide, type: 'ban' | 'pick', index: number): boolean => {
@@ -142,6 +166,16 @@ export default function LiveDraftBoard({
   const showReady = (session.status === 'lobby' || game.status === 'pending') && !isSessionCompleted;
   const isDraftFinished = game.status === 'completed' || isSessionCompleted;
 
+  // Running damage mix of each side's locked picks
+  const { getChampionById } = useChampionData();
+  const getPickDamage = (picks: (string | null)[]) =>
+    estimateTeamDamage(
+      picks.filter((id) => id !== NONE_CHAMPION),
+      (id) => getChampionById(id)?.tags ?? []
+    );
+  const blueDamage = getPickDamage(game.blue_picks);
+  const redDamage = getPickDamage(game.red_picks);
+
   // Check if a pick slot can be filled (timed out + captain's own side)
   const canFillSlot = (side: DraftSide, type: 'ban' | 'pick', index: number): boolean => {
     if (!isCaptain || !mySide || mySide !== side) return false;
@@ -187,7 +221,7 @@ export default function LiveDraftBoard({
       <div className="relative flex items-center justify-between gap-8 pt-2 pb-1 max-w-[1900px] w-full mx-auto">
         {/* Blue Bans */}
         <div className="flex items-center gap-1.5">
-          {[0, 1, 2].map((index) => (
+          {blueBanPhase1.map((index) => (
             <DraftSlotLive
               key={`blue-ban-${index}`}
               type="ban"
@@ -198,8 +232,8 @@ export default function LiveDraftBoard({
               hoveredChampionId={getHoveredChampion('blue')}
             />
           ))}
-          <div className="w-1" />
-          {[3, 4].map((index) => (
+          {blueBanPhase2.length > 0 && <div className="w-1" />}
+          {blueBanPhase2.map((index) => (
             <DraftSlotLive
               key={`blue-ban-${index}`}
               type="ban"
@@ -215,7 +249,7 @@ export default function LiveDraftBoard({
 
         {/* Red Bans (mirrored) */}
         <div className="flex flex-row-reverse items-center gap-1.5">
-          {[0, 1, 2].map((index) => (
+          {redBanPhase1.map((index) => (
             <DraftSlotLive
               key={`red-ban-${index}`}
               type="ban"
@@ -226,8 +260,8 @@ export default function LiveDraftBoard({
               hoveredChampionId={getHoveredChampion('red')}
             />
           ))}
-          <div className="w-1" />
-          {[3, 4].map((index) => (
+          {redBanPhase2.length > 0 && <div className="w-1" />}
+          {redBanPhase2.map((index) => (
             <DraftSlotLive
               key={`red-ban-${index}`}
               type="ban"
@@ -244,7 +278,7 @@ export default function LiveDraftBoard({
 
       {/* === FEARLESS BAR === */}
       <FearlessBar
-        draftMode={session.draft_mode}
+        rules={session}
         fearlessChampions={fearlessChampions}
         currentGameNumber={game.game_number}
       />
@@ -268,6 +302,7 @@ export default function LiveDraftBoard({
               onFillClick={() => onFillSlotClick?.('blue', 'pick', index)}
             />
           ))}
+          {blueDamage && <DamageBalanceBar estimate={blueDamage} className="px-2 pt-1" />}
         </div>
 
         {/* Champion Selection Grid + Action Button - center */}
@@ -285,9 +320,15 @@ export default function LiveDraftBoard({
               linkedDraftSessionId={linkedDraftSessionId}
               onLinkDraftSession={onLinkDraftSession}
               contestedChampionIds={contestedChampionIds}
+              voteCounts={voteCounts}
+              matchupRecommendations={matchupRecommendations}
             />
           </div>
 
+          {pickSuggestions && !fillingSlot && (
+            <PickSuggestions suggestions={pickSuggestions} onSelect={onSelectChampion} className="shrink-0" />
+          )}
+
           {/* Action Button - centered between grid and viewport bottom */}
           <div className="shrink-0 h-24 flex items-center justify-center px-4">
             {fillingSlot ? (
@@ -359,6 +400,13 @@ export default function LiveDraftBoard({
                   'Ready up'
                 )}
               </button>
+            ) : game.status === 'trading' ? (
+              <button
+                disabled
+                className="min-w-[200px] py-3 px-6 rounded-xl font-semibold text-base bg-lol-dark text-lol-gold border-2 border-lol-gold/40"
+              >
+                Trade Phase
+              </button>
             ) : isDraftFinished ? (
               <button
                 disabled
@@ -390,8 +438,12 @@ export default function LiveDraftBoard({
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                     </svg>
-                    Locking...
+                    {proposeMode === 'coach' ? 'Proposing...' : proposeMode === 'vote' ? 'Voting...' : 'Locking...'}
                   </span>
+                ) : proposeMode === 'coach' ? (
+                  currentActionType === 'ban' ? 'Propose ban' : 'Propose pick'
+                ) : proposeMode === 'vote' ? (
+                  currentActionType === 'ban' ? 'Vote ban' : 'Vote pick'
                 ) : currentActionType === 'ban' ? (
                   selectedChampion === NONE_CHAMPION ? 'No ban' : 'Ban champion'
                 ) : (
@@ -419,6 +471,7 @@ export default function LiveDraftBoard({
               onFillClick={() => onFillSlotClick?.('red', 'pick', index)}
             />
           ))}
+          {redDamage && <DamageBalanceBar estimate={redDamage} className="px-2 pt-1" />}
         </div>
       </div>
     </div>
@@ -3,25 +3,13 @@ import { liveDraftService } from '../../lib/liveDraftService';
 import { useFriendsStore } from '../../stores/useFriendsStore';
 import { Button, Modal } from '../ui';
 import JoinTeamModal from './JoinTeamModal';
+import { DRAFT_MODE_LABELS, DRAFT_ORDER_TEMPLATE_LABELS } from '../../types/liveDraft';
 import type {
   LiveDraftSession,
   LiveDraftParticipant,
   DraftSide,
-  DraftMode,
 } from '../../types/liveDraft';
 
-const DRAFT_MODE_LABELS: Record<DraftMode, string> = {
-  normal: 'Normal',
-  fearless: 'Fearless',
-  ironman: 'Ironman',
-};
-
-const DRAFT_MODE_DESCRIPTIONS: Record<DraftMode, string> = {
-  normal: 'Standard draft rules',
-  fearless: "Champions can't be picked by the same team twice",
-  ironman: 'Picked/banned champions are unavailable for the series',
-};
-
 interface LiveDraftLobbyModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -31,7 +19,7 @@ interface LiveDraftLobbyModalProps {
   myDisplayName: string | null;
   setMyDisplayName: (name: string | null) => void;
   defaultDisplayName: string;
-  loadSession: () => Promise<void>;
+  loadSession: () => Promise<boolean>;
   setError: (error: string | null) => void;
   broadcastSessionUpdate: () => void;
   onDeleteSession?: () => Promise<void>;
@@ -575,6 +563,15 @@ export default function LiveDraftLobbyModal({
               </span>
               <span>Best of {session.planned_games}</span>
               <span>{session.pick_time_seconds}s timer</span>
+              {session.draft_order_template && session.draft_order_template !== 'standard' && (
+                <span>{DRAFT_ORDER_TEMPLATE_LABELS[session.draft_order_template]} order</span>
+              )}
+              {session.fearless_carryover_games && (
+                <span>Locks last {session.fearless_carryover_games} game{session.fearless_carryover_games !== 1 ? 's' : ''}</span>
+              )}
+              {session.locked_champions?.length > 0 && (
+                <span>{session.locked_champions.length} pre-locked</span>
+              )}
             </div>
           </div>
 
@@ -1,9 +1,19 @@
 import { useMemo } from 'react';
-import { ChampionIcon } from '../champion';
+import {
+  DndContext,
+  DragEndEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { ChampionIcon, CompositionSummary } from '../champion';
 import RoleIcon from '../team/RoleIcon';
 import type { Player, Role, Team, ChampionGroup } from '../../types';
-import type { DraftSide } from '../../types/liveDraft';
+import type { DraftSide, PickRole } from '../../types/liveDraft';
 import { usePlayerPoolStore } from '../../stores/usePlayerPoolStore';
+import { matchPlayersToPicks, type RoleAssignment } from '../../lib/liveDraftRoles';
 
 interface PlayerRowProps {
   player: Player;
@@ -73,6 +83,72 @@ function PlayerRow({ player, side, championGroups }: PlayerRowProps) {
   );
 }
 
+interface PickRowProps {
+  assignment: RoleAssignment;
+  side: DraftSide;
+  canAssign: boolean;
+}
+
+function PickRow({ assignment, side, canAssign }: PickRowProps) {
+  const { role, pickIndex, championId, player } = assignment;
+
+  const { setNodeRef: setDroppableRef, isOver } = useDroppable({
+    id: `role-${side}-${role}`,
+    data: { role },
+    disabled: !canAssign,
+  });
+
+  const { attributes, listeners, setNodeRef: setDraggableRef, isDragging } = useDraggable({
+    id: `pick-${side}-${pickIndex}`,
+    data: { pickIndex },
+    disabled: !canAssign || !championId,
+  });
+
+  const borderColor = side === 'blue' ? 'border-blue-500/30' : 'border-red-500/30';
+  const bgColor = side === 'blue' ? 'bg-blue-500/5' : 'bg-red-500/5';
+
+  return (
+    <div
+      ref={setDroppableRef}
+      className={`flex items-center gap-3 p-2 rounded-lg border transition-all ${
+        isOver ? 'border-lol-gold bg-lol-gold/10' : `${borderColor} ${bgColor}`
+      }`}
+    >
+      {/* Role Icon */}
+      <div className="shrink-0">
+        <RoleIcon role={role} size="md" />
+      </div>
+
+      {/* Player Name */}
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-white truncate text-sm">
+          {player?.summonerName || <span className="text-gray-500 italic capitalize">{role}</span>}
+        </div>
+        {player?.tagLine && (
+          <div className="text-xs text-gray-500 truncate">#{player.tagLine}</div>
+        )}
+      </div>
+
+      {/* Assigned Pick */}
+      <div
+        ref={setDraggableRef}
+        {...attributes}
+        {...listeners}
+        className={`shrink-0 ${canAssign && championId ? 'cursor-grab active:cursor-grabbing' : ''} ${
+          isDragging ? 'opacity-50' : ''
+        }`}
+        title={canAssign && championId ? 'Drag onto another role to swap' : undefined}
+      >
+        {championId ? (
+          <ChampionIcon championId={championId} size="sm" />
+        ) : (
+          <div className="w-8 h-8 rounded bg-lol-dark border border-gray-700" />
+        )}
+      </div>
+    </div>
+  );
+}
+
 interface LiveDraftTeamDisplayProps {
   team: Team | null;
   side: DraftSide;
@@ -80,6 +156,12 @@ interface LiveDraftTeamDisplayProps {
   captainName?: string | null;
   isReady?: boolean;
   showHeader?: boolean;
+  /** Picks in pick order; when set, rows show the pick played in each role */
+  picks?: (string | null)[];
+  /** Role of each pick slot (same index as picks) */
+  pickRoles?: PickRole[];
+  /** Enables dragging picks between roles */
+  onAssignRole?: (pickIndex: number, role: PickRole) => void;
 }
 
 const ROLE_ORDER: Role[] = ['top', 'jungle', 'mid', 'adc', 'support'];
@@ -91,9 +173,33 @@ export default function LiveDraftTeamDisplay({
   captainName,
   isReady = false,
   showHeader = true,
+  picks,
+  pickRoles,
+  onAssignRole,
 }: LiveDraftTeamDisplayProps) {
   const playerPools = usePlayerPoolStore((s) => s.pools);
 
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 5,
+      },
+    }),
+  );
+
+  const assignments = useMemo(
+    () => (picks && pickRoles ? matchPlayersToPicks(team, picks, pickRoles) : null),
+    [team, picks, pickRoles]
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const pickIndex = event.active.data.current?.pickIndex as number | undefined;
+    const role = event.over?.data.current?.role as PickRole | undefined;
+    if (pickIndex === undefined || !role || !onAssignRole) return;
+    if (pickRoles?.[pickIndex] === role) return;
+    onAssignRole(pickIndex, role);
+  };
+
   // Get players sorted by role order
   const sortedPlayers = useMemo(() => {
     if (!team) return [];
@@ -159,7 +265,20 @@ export default function LiveDraftTeamDisplay({
         </div>
       )}
 
-      {team && sortedPlayers.length > 0 ? (
+      {assignments ? (
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          <div className="space-y-1.5">
+            {assignments.map((assignment) => (
+              <PickRow
+                key={assignment.role}
+                assignment={assignment}
+                side={side}
+                canAssign={!!onAssignRole}
+              />
+            ))}
+          </div>
+        </DndContext>
+      ) : team && sortedPlayers.length > 0 ? (
         <div className="space-y-1.5">
           {sortedPlayers.map((player) => (
             <PlayerRow
@@ -175,6 +294,8 @@ export default function LiveDraftTeamDisplay({
           {team ? 'No players configured' : 'No team linked'}
         </div>
       )}
+
+      {picks && <CompositionSummary championIds={picks} />}
     </div>
   );
 }
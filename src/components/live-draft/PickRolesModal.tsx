@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Modal } from '../ui';
+import LiveDraftTeamDisplay from './LiveDraftTeamDisplay';
+import { getPickRoles, hasAssignedRoles, swapPickRole } from '../../lib/liveDraftRoles';
+import type { Team } from '../../types';
+import type { DraftSide, LiveDraftGame, LiveDraftSession, PickRole } from '../../types/liveDraft';
+
+interface PickRolesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: LiveDraftSession;
+  game: LiveDraftGame;
+  /** Side the current captain may rearrange in this game, if any */
+  mySide: DraftSide | null;
+  team1: Team | null;
+  team2: Team | null;
+  onSaveRoles: (roles: PickRole[]) => Promise<void>;
+}
+
+export default function PickRolesModal({
+  isOpen,
+  onClose,
+  session,
+  game,
+  mySide,
+  team1,
+  team2,
+  onSaveRoles,
+}: PickRolesModalProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const blueTeam = game.blue_side_team === 'team1' ? 'team1' : 'team2';
+  const sideInfo = (side: DraftSide) => {
+    const teamKey = side === 'blue' ? blueTeam : blueTeam === 'team1' ? 'team2' : 'team1';
+    return {
+      team: teamKey === 'team1' ? team1 : team2,
+      name: teamKey === 'team1' ? session.team1_name : session.team2_name,
+      picks: side === 'blue' ? game.blue_picks : game.red_picks,
+      roles: getPickRoles(game, side),
+      assigned: hasAssignedRoles(game, side),
+    };
+  };
+
+  const handleAssign = async (side: DraftSide, pickIndex: number, role: PickRole) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSaveRoles(swapPickRole(sideInfo(side).roles, pickIndex, role));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign roles');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Game ${game.game_number} — ${game.status === 'trading' ? 'Trade Phase' : 'Roles'}`}
+      size="xl"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">
+          {mySide
+            ? 'Drag your picks onto the role they will play. Unassigned roles are guessed from champion data.'
+            : 'Roles are set by each captain after the draft. Unassigned roles are guessed from champion data.'}
+        </p>
+
+        <div className={`grid grid-cols-2 gap-4 ${saving ? 'opacity-70 pointer-events-none' : ''}`}>
+          {(['blue', 'red'] as const).map((side) => {
+            const info = sideInfo(side);
+            return (
+              <div key={side} className="space-y-1">
+                <LiveDraftTeamDisplay
+                  team={info.team}
+                  side={side}
+                  teamName={info.name}
+                  picks={info.picks}
+                  pickRoles={info.roles}
+                  onAssignRole={
+                    mySide === side ? (pickIndex, role) => handleAssign(side, pickIndex, role) : undefined
+                  }
+                />
+                {!info.assigned && (
+                  <div className="text-[11px] text-gray-500 px-1">Roles not confirmed yet</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm text-center">
+            {error}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react';
+import { Button, Modal } from '../ui';
+import { useChampionData } from '../../hooks/useChampionData';
+import { liveDraftService } from '../../lib/liveDraftService';
+import {
+  buildSeriesReport,
+  seriesReportToJson,
+  seriesReportToMarkdown,
+} from '../../lib/liveDraftReport';
+import { DRAFT_MODE_LABELS, NONE_CHAMPION } from '../../types/liveDraft';
+import type {
+  DbLiveDraftUnavailableChampion,
+  LiveDraftGame,
+  LiveDraftSession,
+} from '../../types/liveDraft';
+
+interface SeriesReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: LiveDraftSession;
+  games: LiveDraftGame[];
+  unavailableChampions: DbLiveDraftUnavailableChampion[];
+}
+
+function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function SeriesReportModal({
+  isOpen,
+  onClose,
+  session,
+  games,
+  unavailableChampions,
+}: SeriesReportModalProps) {
+  const { getIconUrl, getChampionById } = useChampionData();
+  const [copied, setCopied] = useState(false);
+
+  const report = useMemo(
+    () => buildSeriesReport(session, games, unavailableChampions),
+    [session, games, unavailableChampions]
+  );
+
+  const championName = (id: string) =>
+    id === NONE_CHAMPION ? 'None' : getChampionById(id)?.name ?? id;
+
+  const fileBase = session.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'series';
+
+  const handleCopyMarkdown = async () => {
+    const ok = await liveDraftService.copyToClipboard(seriesReportToMarkdown(report, championName));
+    if (ok) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const renderIcons = (ids: string[], size: string, grayscale = false) => (
+    <div className="flex flex-wrap gap-1">
+      {ids.length === 0 && <span className="text-xs text-gray-600">—</span>}
+      {ids.map((id, i) => (
+        <img
+          key={`${id}-${i}`}
+          src={getIconUrl(id)}
+          alt={championName(id)}
+          title={championName(id)}
+          className={`${size} rounded ${grayscale ? 'grayscale opacity-70' : ''}`}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Series Report" size="2xl">
+      <div className="space-y-5">
+        {/* Score */}
+        <div className="flex items-center justify-center gap-4 py-2">
+          <span className="text-lg font-semibold text-white">{report.team1.name}</span>
+          <span className="text-2xl font-bold tabular-nums text-lol-gold">
+            {report.team1.wins} – {report.team2.wins}
+          </span>
+          <span className="text-lg font-semibold text-white">{report.team2.name}</span>
+        </div>
+
+        {/* Per-game picks and bans */}
+        <div className="space-y-3">
+          {report.games.map((game) => (
+            <div key={game.gameNumber} className="p-3 rounded-lg bg-lol-dark border border-lol-border">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-300">Game {game.gameNumber}</span>
+                <span className="text-xs text-gray-500">
+                  {game.winner ? `Winner: ${report[game.winner].name}` : 'Result not recorded'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {(['team1', 'team2'] as const).map((team) => (
+                  <div key={team} className="space-y-1.5">
+                    <div className={`text-xs font-medium ${game[team].side === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
+                      {report[team].name} · {game[team].side}
+                    </div>
+                    {renderIcons(game[team].picks, 'w-8 h-8')}
+                    {renderIcons(game[team].bans, 'w-6 h-6', true)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {report.games.length === 0 && (
+            <p className="text-sm text-gray-500 text-center">No completed games yet.</p>
+          )}
+        </div>
+
+        {/* Team summaries */}
+        <div className="grid grid-cols-2 gap-4">
+          {(['team1', 'team2'] as const).map((team) => {
+            const summary = report[team];
+            return (
+              <div key={team} className="space-y-3 p-3 rounded-lg bg-lol-dark border border-lol-border">
+                <div className="text-sm font-semibold text-white">{summary.name}</div>
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">First picks</div>
+                  {renderIcons(summary.firstPicks.map((fp) => fp.championId), 'w-7 h-7')}
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">Repeated bans</div>
+                  <div className="flex flex-wrap gap-2">
+                    {summary.repeatedBans.length === 0 && <span className="text-xs text-gray-600">—</span>}
+                    {summary.repeatedBans.map((b) => (
+                      <span key={b.championId} className="flex items-center gap-1 text-xs text-gray-400">
+                        <img src={getIconUrl(b.championId)} alt={championName(b.championId)} className="w-6 h-6 rounded" />
+                        ×{b.count}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                {report.draftMode !== 'normal' && (
+                  <div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      {DRAFT_MODE_LABELS[report.draftMode]} pool used ({summary.fearlessPool.length})
+                    </div>
+                    {renderIcons(summary.fearlessPool, 'w-6 h-6', true)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Export */}
+        <div className="flex flex-wrap gap-2 justify-end pt-2 border-t border-lol-border">
+          <Button variant="ghost" size="sm" onClick={handleCopyMarkdown}>
+            {copied ? 'Copied!' : 'Copy Markdown'}
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => downloadFile(seriesReportToMarkdown(report, championName), `${fileBase}-report.md`, 'text/markdown')}
+          >
+            Download .md
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => downloadFile(seriesReportToJson(report), `${fileBase}-report.json`, 'application/json')}
+          >
+            Download .json
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
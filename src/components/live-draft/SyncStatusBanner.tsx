@@ -0,0 +1,52 @@
+import { Button } from '../ui';
+import type { ConnectionStatus, SyncStatus } from '../../types/liveDraft';
+
+interface SyncStatusBannerProps {
+  connectionStatus: ConnectionStatus;
+  syncStatus: SyncStatus;
+  onResync: () => void;
+}
+
+export default function SyncStatusBanner({ connectionStatus, syncStatus, onResync }: SyncStatusBannerProps) {
+  if (syncStatus === 'out_of_sync') {
+    return (
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 rounded-lg bg-red-500/10 border border-red-500/30">
+        <div className="flex items-center gap-3 min-w-0">
+          <svg className="w-5 h-5 text-red-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-red-300 truncate">You are out of sync with the draft</div>
+            <div className="text-xs text-gray-400">
+              Updates were missed while you were disconnected. Actions are disabled until you resync.
+            </div>
+          </div>
+        </div>
+        <Button size="sm" onClick={onResync}>
+          Resync
+        </Button>
+      </div>
+    );
+  }
+
+  if (connectionStatus !== 'reconnecting' && syncStatus !== 'resyncing') return null;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2.5 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+      <svg className="animate-spin h-5 w-5 text-yellow-400 shrink-0" fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+      </svg>
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-yellow-300 truncate">
+          {syncStatus === 'resyncing' ? 'Catching up...' : 'Connection lost — reconnecting...'}
+        </div>
+        <div className="text-xs text-gray-400">
+          {syncStatus === 'resyncing'
+            ? 'Fetching what changed while you were away.'
+            : 'The board may be behind until the connection is back.'}
+        </div>
+      </div>
+    </div>
+  );
+}
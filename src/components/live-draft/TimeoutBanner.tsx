@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui';
+import type { LiveDraftSession } from '../../types/liveDraft';
+
+// Matches live_draft_max_timeout_seconds() — the server auto-resumes after this
+const MAX_TIMEOUT_SECONDS = 300;
+
+function formatClock(totalSeconds: number) {
+  const s = Math.max(0, totalSeconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+interface TimeoutBannerProps {
+  session: LiveDraftSession;
+  canResume: boolean;
+  isResuming: boolean;
+  onResume: () => void;
+}
+
+export default function TimeoutBanner({ session, canResume, isResuming, onResume }: TimeoutBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (session.status !== 'paused' || !session.paused_at) return null;
+
+  const teamName = session.paused_by === 'team2' ? session.team2_name : session.team1_name;
+  const elapsed = Math.floor((now - new Date(session.paused_at).getTime()) / 1000);
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2.5 rounded-lg bg-orange-500/10 border border-orange-500/30">
+      <div className="flex items-center gap-3 min-w-0">
+        <svg className="w-5 h-5 text-orange-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-orange-300 truncate">
+            Tactical timeout — {teamName}
+          </div>
+          <div className="text-xs text-gray-400">
+            Turn timer is frozen. Auto-resumes in {formatClock(MAX_TIMEOUT_SECONDS - elapsed)}.
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <span className="text-lg font-semibold tabular-nums text-orange-300">{formatClock(elapsed)}</span>
+        {canResume && (
+          <Button size="sm" onClick={onResume} disabled={isResuming}>
+            {isResuming ? 'Resuming...' : 'Resume'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
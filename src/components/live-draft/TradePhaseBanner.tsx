@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui';
+import type { DraftSide, LiveDraftGame, LiveDraftSession } from '../../types/liveDraft';
+
+interface TradePhaseBannerProps {
+  session: LiveDraftSession;
+  game: LiveDraftGame;
+  /** Side the current captain controls in this game, if any */
+  mySide: DraftSide | null;
+  isConfirming: boolean;
+  onRearrange: () => void;
+  onConfirm: () => void;
+}
+
+export default function TradePhaseBanner({
+  session,
+  game,
+  mySide,
+  isConfirming,
+  onRearrange,
+  onConfirm,
+}: TradePhaseBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (game.status !== 'trading' || !game.turn_started_at) return null;
+
+  const elapsed = Math.floor((now - new Date(game.turn_started_at).getTime()) / 1000);
+  const remaining = Math.max(0, session.trade_phase_seconds - elapsed);
+  const myConfirmed = mySide === 'blue' ? game.blue_lineup_confirmed : game.red_lineup_confirmed;
+
+  const sideStatus = (side: DraftSide) => {
+    const confirmed = side === 'blue' ? game.blue_lineup_confirmed : game.red_lineup_confirmed;
+    return (
+      <span className={`${side === 'blue' ? 'text-blue-400' : 'text-red-400'} ${confirmed ? '' : 'opacity-60'}`}>
+        {side === 'blue' ? 'Blue' : 'Red'} {confirmed ? 'locked' : 'trading'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2.5 rounded-lg bg-lol-gold/10 border border-lol-gold/30">
+      <div className="flex items-center gap-3 min-w-0">
+        <svg className="w-5 h-5 text-lol-gold shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+        </svg>
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-lol-gold truncate">Trade phase</div>
+          <div className="text-xs text-gray-400 flex gap-2">
+            {sideStatus('blue')}
+            <span className="text-gray-600">·</span>
+            {sideStatus('red')}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <span className="text-lg font-semibold tabular-nums text-lol-gold">{remaining}s</span>
+        {mySide && !myConfirmed && (
+          <>
+            <Button variant="secondary" size="sm" onClick={onRearrange}>
+              Rearrange
+            </Button>
+            <Button size="sm" onClick={onConfirm} disabled={isConfirming}>
+              {isConfirming ? 'Confirming...' : 'Lock Lineup'}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
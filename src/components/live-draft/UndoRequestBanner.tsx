@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui';
+import type { DbLiveDraftUndoRequest, DraftActionType, LiveDraftSession, TeamSide } from '../../types/liveDraft';
+
+interface UndoRequestBannerProps {
+  session: LiveDraftSession;
+  request: DbLiveDraftUndoRequest;
+  /** The viewer's team if they captain one */
+  myTeam: TeamSide | null;
+  actionType: DraftActionType | null;
+  championName: string | null;
+  isResponding: boolean;
+  onRespond: (accept: boolean) => void;
+}
+
+export default function UndoRequestBanner({
+  session,
+  request,
+  myTeam,
+  actionType,
+  championName,
+  isResponding,
+  onRespond,
+}: UndoRequestBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = Math.ceil((new Date(request.expires_at).getTime() - now) / 1000);
+  if (remaining <= 0) return null;
+
+  const teamName = request.requested_by === 'team1' ? session.team1_name : session.team2_name;
+  const what = `${actionType === 'ban' ? 'ban' : 'pick'}${championName ? ` (${championName})` : ''}`;
+  const isRequester = myTeam === request.requested_by;
+  const canRespond = !!myTeam && !isRequester;
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2.5 rounded-lg bg-sky-500/10 border border-sky-500/30">
+      <div className="flex items-center gap-3 min-w-0">
+        <svg className="w-5 h-5 text-sky-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-sky-300 truncate">
+            {isRequester ? `Asking to undo your last ${what}` : `${teamName} wants to undo their last ${what}`}
+          </div>
+          <div className="text-xs text-gray-400">
+            {isRequester
+              ? 'Waiting for the opposing captain to accept.'
+              : canRespond
+                ? 'Accepting gives them the step back with a fresh timer.'
+                : 'Waiting for the opposing captain.'}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <span className="text-lg font-semibold tabular-nums text-sky-300">{remaining}s</span>
+        {canRespond && (
+          <>
+            <Button size="sm" variant="ghost" onClick={() => onRespond(false)} disabled={isResponding}>
+              Decline
+            </Button>
+            <Button size="sm" onClick={() => onRespond(true)} disabled={isResponding}>
+              Accept
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -956,6 +956,7 @@ export function clearAllLocalStores(): void {
     'teamcomp-lol-custom-pools',
     'teamcomp-lol-draft-theory',
     'teamcomp-lol-custom-templates',
+    'teamcomp-lol-live-draft-presets',
   ];
 
   storeKeys.forEach((key) => {
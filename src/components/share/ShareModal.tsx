@@ -62,6 +62,8 @@ export default function ShareModal({ isOpen, onClose, draftSessionId, draftName
             name: team.name,
             notes: team.notes,
             champion_pool: team.championPool || [],
+            champion_matchups: team.matchups || [],
+            ban_scoring: team.banScoring ?? null,
             sort_order: index,
           }),
         });
@@ -100,6 +102,8 @@ export default function ShareModal({ isOpen, onClose, draftSessionId, draftName
             notepad: session.notepad || [],
             is_favorite: session.isFavorite || false,
             is_planned: session.isPlanned || false,
+            live_results: session.liveResults || [],
+            series_plan: session.seriesPlan ?? null,
             sort_order: index,
           }),
         });
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Button, Select } from '../ui';
+import { ChampionIcon, ChampionSearch } from '../champion';
+import { useChampionData } from '../../hooks/useChampionData';
+import { MATCHUP_STRENGTHS, type ChampionMatchup, type MatchupStrength, type MatchupType } from '../../types';
+
+interface MatchupMatrixProps {
+  matchups: ChampionMatchup[];
+  onAdd: (matchup: Omit<ChampionMatchup, 'id'>) => void;
+  onUpdate: (matchupId: string, updates: Partial<Omit<ChampionMatchup, 'id'>>) => void;
+  onRemove: (matchupId: string) => void;
+}
+
+const TYPE_OPTIONS: { value: MatchupType; label: string }[] = [
+  { value: 'counter', label: 'is good into' },
+  { value: 'synergy', label: 'pairs with' },
+];
+
+const SECTIONS: { type: MatchupType; title: string; empty: string }[] = [
+  { type: 'counter', title: 'Counters', empty: 'No counters yet' },
+  { type: 'synergy', title: 'Synergies', empty: 'No synergies yet' },
+];
+
+const STRENGTH_OPTIONS = MATCHUP_STRENGTHS.map((s) => ({ value: String(s.value), label: s.label }));
+
+export default function MatchupMatrix({ matchups, onAdd, onUpdate, onRemove }: MatchupMatrixProps) {
+  const { getChampionById } = useChampionData();
+  const [championId, setChampionId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [type, setType] = useState<MatchupType>('counter');
+  const [strength, setStrength] = useState<MatchupStrength>(2);
+
+  const isDuplicate = matchups.some(
+    (m) => m.type === type && m.championId === championId && m.targetId === targetId
+  );
+  const canAdd = !!championId && !!targetId && championId !== targetId && !isDuplicate;
+
+  const handleAdd = () => {
+    if (!championId || !targetId || !canAdd) return;
+    onAdd({ championId, targetId, type, strength });
+    setChampionId(null);
+    setTargetId(null);
+  };
+
+  const renderPicked = (id: string, onClear: () => void) => (
+    <button
+      onClick={onClear}
+      title="Change champion"
+      className="flex items-center gap-2 px-2 py-1 rounded-lg bg-lol-dark border border-lol-border hover:border-lol-border-light transition-colors"
+    >
+      <ChampionIcon championId={id} size="xs" />
+      <span className="text-sm text-white">{getChampionById(id)?.name ?? id}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-44">
+          {championId
+            ? renderPicked(championId, () => setChampionId(null))
+            : <ChampionSearch onSelect={(c) => setChampionId(c.id)} placeholder="Our champion..." />}
+        </div>
+        <Select
+          options={TYPE_OPTIONS}
+          value={type}
+          onChange={(e) => setType(e.target.value as MatchupType)}
+          size="sm"
+          className="w-36"
+        />
+        <div className="w-44">
+          {targetId
+            ? renderPicked(targetId, () => setTargetId(null))
+            : (
+              <ChampionSearch
+                onSelect={(c) => setTargetId(c.id)}
+                placeholder={type === 'counter' ? 'Enemy champion...' : 'Ally champion...'}
+              />
+            )}
+        </div>
+        <Select
+          options={STRENGTH_OPTIONS}
+          value={String(strength)}
+          onChange={(e) => setStrength(Number(e.target.value) as MatchupStrength)}
+          size="sm"
+          className="w-28"
+        />
+        <Button size="sm" onClick={handleAdd} disabled={!canAdd}>
+          Add
+        </Button>
+        {isDuplicate && <span className="text-xs text-amber-400">Already in the matrix</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {SECTIONS.map((section) => {
+          const entries = matchups.filter((m) => m.type === section.type);
+          return (
+            <div key={section.type} className="space-y-2">
+              <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide">{section.title}</h3>
+              {entries.length === 0 ? (
+                <div className="text-gray-600 text-sm py-3 text-center bg-lol-dark rounded-lg">{section.empty}</div>
+              ) : (
+                entries.map((m) => (
+                  <div
+                    key={m.id}
+                    className="group flex items-center gap-2 p-2 rounded-lg bg-lol-dark border border-lol-border/50"
+                  >
+                    <ChampionIcon championId={m.championId} size="sm" />
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {TYPE_OPTIONS.find((t) => t.value === m.type)?.label}
+                    </span>
+                    <ChampionIcon championId={m.targetId} size="sm" />
+                    <input
+                      value={m.notes ?? ''}
+                      onChange={(e) => onUpdate(m.id, { notes: e.target.value })}
+                      placeholder="Why..."
+                      className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-gray-600 focus:outline-none"
+                    />
+                    <Select
+                      options={STRENGTH_OPTIONS}
+                      value={String(m.strength)}
+                      onChange={(e) => onUpdate(m.id, { strength: Number(e.target.value) as MatchupStrength })}
+                      size="sm"
+                      className="w-28 shrink-0"
+                    />
+                    <button
+                      onClick={() => onRemove(m.id)}
+                      className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -8,3 +8,4 @@ export { default as RoleIcon } from './RoleIcon';
 export { default as TeamMembersPanel } from './TeamMembersPanel';
 export { default as InviteModal } from './InviteModal';
 export { default as TransferOwnershipModal } from './TransferOwnershipModal';
+export { default as MatchupMatrix } from './MatchupMatrix';
@@ -4,12 +4,16 @@ interface BanSectionProps {
   side: "blue" | "red";
   bans: (string | null)[];
   slotSize?: string;
+  activeSlotId?: string | null;
+  locked?: boolean;
 }
 
 export default function BanSection({
   side,
   bans,
   slotSize = "size-10",
+  activeSlotId,
+  locked,
 }: BanSectionProps) {
   return (
     <div className="space-y-2">
@@ -24,6 +28,8 @@ export default function BanSection({
               championId={bans[index]}
               side={side}
               size={slotSize}
+              isActive={activeSlotId === `${side}:ban:${index}`}
+              locked={locked}
             />
           ))}
         </div>
@@ -36,6 +42,8 @@ export default function BanSection({
               championId={bans[index]}
               side={side}
               size={slotSize}
+              isActive={activeSlotId === `${side}:ban:${index}`}
+              locked={locked}
             />
           ))}
         </div>
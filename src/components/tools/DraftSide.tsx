@@ -1,13 +1,16 @@
 import { useState, useRef, useEffect } from "react";
 import DraftSlot from "./DraftSlot";
 import BanSection from "./BanSection";
+import { CompositionSummary } from "../champion";
 import { useDraftTheoryStore } from "../../stores/useDraftTheoryStore";
 
 interface DraftSideProps {
   side: "blue" | "red";
   bans: (string | null)[];
   picks: (string | null)[];
-  onClearSide: () => void;
+  onClearSide?: () => void;
+  activeSlotId?: string | null;
+  locked?: boolean;
 }
 
 export default function DraftSide({
@@ -15,6 +18,8 @@ export default function DraftSide({
   bans,
   picks,
   onClearSide,
+  activeSlotId,
+  locked,
 }: DraftSideProps) {
   const teamName = useDraftTheoryStore((state) =>
     side === "blue" ? state.blueTeamName : state.redTeamName,
@@ -77,7 +82,7 @@ export default function DraftSide({
       </div>
 
       {/* Bans Section */}
-      <BanSection side={side} bans={bans} />
+      <BanSection side={side} bans={bans} activeSlotId={activeSlotId} locked={locked} />
 
       {/* Picks Section */}
       <div className="space-y-2 my-auto">
@@ -95,19 +100,26 @@ export default function DraftSide({
                 id={`${side}:pick:${index}`}
                 championId={picks[index]}
                 side={side}
+                isActive={activeSlotId === `${side}:pick:${index}`}
+                locked={locked}
               />
             </div>
           ))}
         </div>
       </div>
 
+      {/* Composition analysis */}
+      <CompositionSummary championIds={picks} />
+
       {/* Clear Side Button */}
-      <button
-        onClick={onClearSide}
-        className="mt-auto px-3 py-1.5 text-xs text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface rounded-lg border border-lol-border transition-colors"
-      >
-        Clear Side
-      </button>
+      {onClearSide && (
+        <button
+          onClick={onClearSide}
+          className="mt-auto px-3 py-1.5 text-xs text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface rounded-lg border border-lol-border transition-colors"
+        >
+          Clear Side
+        </button>
+      )}
     </div>
   );
 }
@@ -8,6 +8,8 @@ interface DraftSlotProps {
   side: 'blue' | 'red';
   size?: string;
   isOver?: boolean;
+  isActive?: boolean; // next slot of a draft order simulation
+  locked?: boolean; // champions can't be dragged out (simulation mode)
 }
 
 export default function DraftSlot({
@@ -17,6 +19,8 @@ export default function DraftSlot({
   side,
   size = 'size-22',
   isOver,
+  isActive,
+  locked,
 }: DraftSlotProps) {
   const { getIconUrl, getChampionById } = useChampionData();
 
@@ -26,7 +30,7 @@ export default function DraftSlot({
 
   const { attributes, listeners, setNodeRef: setDraggableRef, isDragging } = useDraggable({
     id,
-    disabled: !championId,
+    disabled: !championId || locked,
   });
 
   const champion = championId ? getChampionById(championId) : null;
@@ -56,6 +60,7 @@ export default function DraftSlot({
         ${championId ? colors.bg : 'bg-lol-dark'}
         ${championId ? `border ${colors.border}` : 'border border-gray-700'}
         ${showIsOver ? 'border-lol-gold shadow-lg shadow-lol-gold/20' : ''}
+        ${isActive ? 'ring-2 ring-lol-gold animate-pulse' : ''}
         ${isDragging ? 'opacity-50' : ''}
         group
       `}
@@ -73,7 +78,7 @@ export default function DraftSlot({
           ref={setDraggableRef}
           {...attributes}
           {...listeners}
-          className="w-full h-full cursor-grab active:cursor-grabbing"
+          className={`w-full h-full ${locked ? '' : 'cursor-grab active:cursor-grabbing'}`}
         >
           <img
             src={iconUrl}
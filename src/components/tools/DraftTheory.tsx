@@ -9,8 +9,18 @@ import {
   useSensors,
   pointerWithin,
 } from "@dnd-kit/core";
-import { useDraftTheoryStore } from "../../stores/useDraftTheoryStore";
+import {
+  useDraftTheoryStore,
+  getSimulationSlot,
+} from "../../stores/useDraftTheoryStore";
+import { useMyTeamStore } from "../../stores/useMyTeamStore";
+import { usePlayerPoolStore } from "../../stores/usePlayerPoolStore";
+import { DRAFT_ORDER } from "../../types/liveDraft";
 import { useChampionData } from "../../hooks/useChampionData";
+import { useDraftAnalytics } from "../draft/hooks/useDraftAnalytics";
+import PickSuggestions from "../draft/PickSuggestions";
+import { Select } from "../ui";
+import { recommendPicks } from "../../lib/pickRecommendations";
 import DraftSide from "./DraftSide";
 import DraftChampionPool from "./DraftChampionPool";
 
@@ -42,6 +52,10 @@ function parsePoolId(id: string): string | null {
 export default function DraftTheory() {
   const { getIconUrl, getChampionById } = useChampionData();
   const [activeId, setActiveId] = useState<string | null>(null);
+  const { teams: myTeams, selectedTeamId } = useMyTeamStore();
+  const { pools: playerPools } = usePlayerPoolStore();
+  // Team whose pools drive the suggested picks, defaults to the selected team
+  const [suggestTeamId, setSuggestTeamId] = useState<string | null>(null);
 
   const {
     blueBans,
@@ -54,8 +68,32 @@ export default function DraftTheory() {
     clearSide,
     clearAll,
     getAllUsedChampionIds,
+    isSimulating,
+    simulationHistory,
+    simulationStep,
+    setSimulating,
+    simulateStep,
+    undoStep,
+    redoStep,
   } = useDraftTheoryStore();
 
+  // In simulation mode only the next slot of the draft order accepts a champion
+  const activeSlot = isSimulating ? getSimulationSlot(simulationStep) : null;
+  const activeSlotId = activeSlot
+    ? `${activeSlot.side}:${activeSlot.type}:${activeSlot.index}`
+    : null;
+
+  const suggestTeam =
+    myTeams.find((t) => t.id === (suggestTeamId ?? selectedTeamId)) ?? null;
+  const analytics = useDraftAnalytics({
+    myTeam: suggestTeam,
+    enemyTeam: null,
+    customPools: [],
+    selectedCustomPoolIds: [],
+    tierFilter: ["S", "A", "B", "C"],
+    playerPools,
+  });
+
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
@@ -77,6 +115,14 @@ export default function DraftTheory() {
     const activeIdStr = active.id as string;
     const overIdStr = over.id as string;
 
+    if (isSimulating) {
+      const poolChampionId = parsePoolId(activeIdStr);
+      if (poolChampionId && overIdStr === activeSlotId) {
+        simulateStep(poolChampionId);
+      }
+      return;
+    }
+
     // Case 1: Dragging from pool to a slot
     const poolChampionId = parsePoolId(activeIdStr);
     if (poolChampionId) {
@@ -152,6 +198,19 @@ export default function DraftTheory() {
 
   const usedChampionIds = getAllUsedChampionIds();
 
+  const pickSuggestions =
+    activeSlot?.type === "pick" && suggestTeam
+      ? recommendPicks({
+          allChampions: analytics.allChampions,
+          contested: analytics.contested,
+          ourPicks: activeSlot.side === "blue" ? bluePicks : redPicks,
+          enemyPicks: activeSlot.side === "blue" ? redPicks : bluePicks,
+          unavailable: new Set(usedChampionIds),
+          matchups: suggestTeam.matchups,
+          getChampionName: (id) => getChampionById(id)?.name ?? id,
+        })
+      : [];
+
   return (
     <DndContext
       sensors={sensors}
@@ -160,13 +219,95 @@ export default function DraftTheory() {
       onDragEnd={handleDragEnd}
     >
       <div className="flex flex-col h-full">
+        {/* Simulation toolbar */}
+        <div className="flex items-center gap-3 mb-4 shrink-0">
+          <button
+            onClick={() => setSimulating(!isSimulating)}
+            title={isSimulating ? undefined : "Clears the board and fills it in draft order"}
+            className={`px-3 py-1.5 text-xs rounded-lg border transition-colors ${
+              isSimulating
+                ? "text-lol-gold border-lol-gold/50 bg-lol-gold/10 hover:bg-lol-gold/20"
+                : "text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface border-lol-border"
+            }`}
+          >
+            {isSimulating ? "Stop simulation" : "Simulate draft order"}
+          </button>
+          {isSimulating && (
+            <>
+              <span className="text-sm text-gray-400">
+                {activeSlot ? (
+                  <>
+                    Step {simulationStep + 1}/{DRAFT_ORDER.length}:{" "}
+                    <span
+                      className={
+                        activeSlot.side === "blue"
+                          ? "text-blue-400"
+                          : "text-red-400"
+                      }
+                    >
+                      {activeSlot.side === "blue" ? "Blue" : "Red"}{" "}
+                      {activeSlot.type} {activeSlot.index + 1}
+                    </span>
+                  </>
+                ) : (
+                  "Draft complete"
+                )}
+              </span>
+              <div className="flex gap-2 ml-auto">
+                {myTeams.length > 0 && (
+                  <Select
+                    options={[
+                      { value: "", label: "No suggestions" },
+                      ...myTeams.map((t) => ({ value: t.id, label: `Suggest for ${t.name}` })),
+                    ]}
+                    value={suggestTeam?.id ?? ""}
+                    onChange={(e) => setSuggestTeamId(e.target.value)}
+                    size="sm"
+                    className="w-52"
+                  />
+                )}
+                <button
+                  onClick={undoStep}
+                  disabled={simulationStep === 0}
+                  className="px-3 py-1.5 text-xs text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface rounded-lg border border-lol-border transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redoStep}
+                  disabled={simulationStep >= simulationHistory.length}
+                  className="px-3 py-1.5 text-xs text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface rounded-lg border border-lol-border transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  Redo
+                </button>
+                <button
+                  onClick={clearAll}
+                  className="px-3 py-1.5 text-xs text-gray-400 hover:text-white bg-lol-dark hover:bg-lol-surface rounded-lg border border-lol-border transition-colors"
+                >
+                  Restart
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {pickSuggestions.length > 0 && (
+          <PickSuggestions
+            suggestions={pickSuggestions}
+            onSelect={simulateStep}
+            className="mb-4 shrink-0 rounded-lg border"
+          />
+        )}
+
         <div className="flex gap-6 flex-1 min-h-0">
           {/* Blue Side */}
           <DraftSide
             side="blue"
             bans={blueBans}
             picks={bluePicks}
-            onClearSide={() => clearSide("blue")}
+            onClearSide={isSimulating ? undefined : () => clearSide("blue")}
+            activeSlotId={activeSlotId}
+            locked={isSimulating}
           />
 
           {/* Champion Pool */}
@@ -179,7 +320,9 @@ export default function DraftTheory() {
             side="red"
             bans={redBans}
             picks={redPicks}
-            onClearSide={() => clearSide("red")}
+            onClearSide={isSimulating ? undefined : () => clearSide("red")}
+            activeSlotId={activeSlotId}
+            locked={isSimulating}
           />
         </div>
       </div>
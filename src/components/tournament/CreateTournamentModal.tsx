@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Modal from "../ui/Modal";
+import Input from "../ui/Input";
+import Button from "../ui/Button";
+import ButtonGroup from "../ui/ButtonGroup";
+import { tournamentService } from "../../lib/tournamentService";
+import { DRAFT_MODE_LABELS } from "../../types/liveDraft";
+import type { DraftMode } from "../../types/liveDraft";
+import {
+  MAX_TOURNAMENT_TEAMS,
+  MIN_TOURNAMENT_TEAMS,
+  TOURNAMENT_FORMAT_DESCRIPTIONS,
+  TOURNAMENT_FORMAT_LABELS,
+} from "../../types/tournament";
+import type { TournamentFormat } from "../../types/tournament";
+
+interface CreateTournamentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS = (
+  Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]
+).map((value) => ({ value, label: TOURNAMENT_FORMAT_LABELS[value] }));
+
+const BEST_OF_OPTIONS = [
+  { value: "1", label: "Bo1" },
+  { value: "3", label: "Bo3" },
+  { value: "5", label: "Bo5" },
+];
+
+const DRAFT_MODE_OPTIONS = (Object.keys(DRAFT_MODE_LABELS) as DraftMode[]).map(
+  (value) => ({ value, label: DRAFT_MODE_LABELS[value] }),
+);
+
+const TIMER_OPTIONS = [
+  { value: "15", label: "15s" },
+  { value: "30", label: "30s" },
+  { value: "45", label: "45s" },
+  { value: "60", label: "60s" },
+];
+
+export default function CreateTournamentModal({
+  isOpen,
+  onClose,
+}: CreateTournamentModalProps) {
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<TournamentFormat>("single_elimination");
+  const [teamsText, setTeamsText] = useState("");
+  const [gamesPerMatch, setGamesPerMatch] = useState(1);
+  const [draftMode, setDraftMode] = useState<DraftMode>("normal");
+  const [timerSeconds, setTimerSeconds] = useState(30);
+
+  const teams = teamsText
+    .split("\n")
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  const resetForm = () => {
+    setName("");
+    setFormat("single_elimination");
+    setTeamsText("");
+    setGamesPerMatch(1);
+    setDraftMode("normal");
+    setTimerSeconds(30);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    try {
+      const tournamentId = await tournamentService.createTournament({
+        name,
+        format,
+        teams,
+        gamesPerMatch,
+        draftMode,
+        pickTimeSeconds: timerSeconds,
+        banTimeSeconds: timerSeconds,
+      });
+      resetForm();
+      onClose();
+      navigate(`/tournament/${tournamentId}`);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to create tournament",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Create Tournament"
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        <Input
+          label="Tournament Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Friday In-House Cup"
+          maxLength={50}
+        />
+
+        <div className="space-y-2">
+          <ButtonGroup
+            label="Format"
+            options={FORMAT_OPTIONS}
+            value={format}
+            onChange={(value) => setFormat(value as TournamentFormat)}
+            size="sm"
+          />
+          <p className="text-xs text-gray-500">
+            {TOURNAMENT_FORMAT_DESCRIPTIONS[format]}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300">
+            Teams{" "}
+            <span className="text-gray-500 font-normal">
+              (one per line, strongest seed first)
+            </span>
+          </label>
+          <textarea
+            value={teamsText}
+            onChange={(e) => setTeamsText(e.target.value)}
+            rows={6}
+            placeholder={"Team Alpha\nTeam Bravo\nTeam Charlie\nTeam Delta"}
+            className="w-full px-4 py-3 text-sm rounded-xl bg-lol-dark border border-lol-border text-white placeholder-gray-600 focus:outline-none focus:border-lol-gold/50 focus:ring-2 focus:ring-lol-gold/20 transition-all duration-200 resize-y"
+          />
+          <p
+            className={`text-xs ${
+              teams.length > MAX_TOURNAMENT_TEAMS
+                ? "text-red-400"
+                : "text-gray-500"
+            }`}
+          >
+            {teams.length} team{teams.length === 1 ? "" : "s"} ·{" "}
+            {MIN_TOURNAMENT_TEAMS}–{MAX_TOURNAMENT_TEAMS} allowed. Byes are
+            given to the top seeds.
+          </p>
+        </div>
+
+        <ButtonGroup
+          label="Match Length"
+          options={BEST_OF_OPTIONS}
+          value={gamesPerMatch.toString()}
+          onChange={(value) => setGamesPerMatch(parseInt(value, 10))}
+          size="sm"
+        />
+
+        <ButtonGroup
+          label="Draft Mode"
+          options={DRAFT_MODE_OPTIONS}
+          value={draftMode}
+          onChange={(value) => setDraftMode(value as DraftMode)}
+          size="sm"
+        />
+
+        <ButtonGroup
+          label="Pick & Ban Timer"
+          options={TIMER_OPTIONS}
+          value={timerSeconds.toString()}
+          onChange={(value) => setTimerSeconds(parseInt(value, 10))}
+          size="sm"
+        />
+
+        <p className="text-xs text-gray-500">
+          Each match gets its own live draft session as soon as both teams are
+          known. Recording game winners in a session advances the bracket.
+        </p>
+
+        <div className="flex gap-3 pt-2">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={loading || teams.length < MIN_TOURNAMENT_TEAMS}
+            className="flex-1"
+          >
+            {loading ? "Creating..." : "Create Tournament"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
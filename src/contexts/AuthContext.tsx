@@ -397,6 +397,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       'teamcomp-lol-custom-pools',
       'teamcomp-lol-draft-theory',
       'teamcomp-lol-custom-templates',
+      'teamcomp-lol-live-draft-presets',
     ];
     storeKeys.forEach((key) => localStorage.removeItem(key));
 
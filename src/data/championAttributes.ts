@@ -0,0 +1,257 @@
+// Champion composition attributes (frontline, crowd control, team comp styles)
+// Manually maintained - update when new champions release or reworks change a kit
+// Champions missing here fall back to their Data Dragon tags
+
+import type { ChampionAttributes } from '../types';
+
+export const CHAMPION_ATTRIBUTES: Record<string, ChampionAttributes> = {
+
+  // A
+  Aatrox: { frontline: true, cc: 1, styles: ['splitpush', 'engage'] },
+  Ahri: { frontline: false, cc: 2, styles: ['pick'] },
+  Akali: { frontline: false, cc: 0, styles: ['pick', 'splitpush'] },
+  Akshan: { frontline: false, cc: 0, styles: ['pick', 'splitpush'] },
+  Alistar: { frontline: true, cc: 3, styles: ['engage', 'protect'] },
+  Ambessa: { frontline: true, cc: 1, styles: ['engage', 'splitpush'] },
+  Amumu: { frontline: true, cc: 3, styles: ['engage'] },
+  Anivia: { frontline: false, cc: 2, styles: ['poke', 'protect'] },
+  Annie: { frontline: false, cc: 2, styles: ['engage', 'pick'] },
+  Aphelios: { frontline: false, cc: 1, styles: ['protect'] },
+  Ashe: { frontline: false, cc: 2, styles: ['pick', 'engage'] },
+  AurelionSol: { frontline: false, cc: 1, styles: ['poke'] },
+  Aurora: { frontline: false, cc: 2, styles: ['pick'] },
+  Azir: { frontline: false, cc: 2, styles: ['poke', 'protect'] },
+
+  // B
+  Bard: { frontline: false, cc: 2, styles: ['pick'] },
+  Belveth: { frontline: false, cc: 1, styles: ['splitpush'] },
+  Blitzcrank: { frontline: true, cc: 3, styles: ['pick'] },
+  Brand: { frontline: false, cc: 1, styles: ['poke'] },
+  Braum: { frontline: true, cc: 2, styles: ['protect'] },
+  Briar: { frontline: false, cc: 1, styles: ['pick'] },
+
+  // C
+  Caitlyn: { frontline: false, cc: 1, styles: ['poke'] },
+  Camille: { frontline: false, cc: 2, styles: ['splitpush', 'pick'] },
+  Cassiopeia: { frontline: false, cc: 2, styles: ['protect'] },
+  Chogath: { frontline: true, cc: 2, styles: ['engage'] },
+  Corki: { frontline: false, cc: 0, styles: ['poke'] },
+
+  // D
+  Darius: { frontline: true, cc: 1, styles: ['engage'] },
+  Diana: { frontline: false, cc: 2, styles: ['engage'] },
+  Draven: { frontline: false, cc: 1, styles: ['pick'] },
+  DrMundo: { frontline: true, cc: 1, styles: ['splitpush'] },
+
+  // E
+  Ekko: { frontline: false, cc: 1, styles: ['pick'] },
+  Elise: { frontline: false, cc: 1, styles: ['pick'] },
+  Evelynn: { frontline: false, cc: 1, styles: ['pick'] },
+  Ezreal: { frontline: false, cc: 0, styles: ['poke'] },
+
+  // F
+  Fiddlesticks: { frontline: false, cc: 2, styles: ['engage'] },
+  Fiora: { frontline: false, cc: 1, styles: ['splitpush'] },
+  Fizz: { frontline: false, cc: 1, styles: ['pick'] },
+
+  // G
+  Galio: { frontline: true, cc: 3, styles: ['engage'] },
+  Gangplank: { frontline: false, cc: 1, styles: ['poke', 'splitpush'] },
+  Garen: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Gnar: { frontline: true, cc: 2, styles: ['engage'] },
+  Gragas: { frontline: true, cc: 2, styles: ['engage', 'pick'] },
+  Graves: { frontline: false, cc: 0, styles: ['pick'] },
+  Gwen: { frontline: false, cc: 0, styles: ['splitpush'] },
+
+  // H
+  Hecarim: { frontline: true, cc: 2, styles: ['engage'] },
+  Heimerdinger: { frontline: false, cc: 1, styles: ['poke'] },
+  Hwei: { frontline: false, cc: 2, styles: ['poke'] },
+
+  // I
+  Illaoi: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Irelia: { frontline: false, cc: 1, styles: ['splitpush', 'engage'] },
+  Ivern: { frontline: false, cc: 1, styles: ['protect'] },
+
+  // J
+  Janna: { frontline: false, cc: 2, styles: ['protect'] },
+  JarvanIV: { frontline: true, cc: 3, styles: ['engage'] },
+  Jax: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Jayce: { frontline: false, cc: 1, styles: ['poke'] },
+  Jhin: { frontline: false, cc: 1, styles: ['poke', 'pick'] },
+  Jinx: { frontline: false, cc: 1, styles: ['protect'] },
+
+  // K
+  Kaisa: { frontline: false, cc: 0, styles: ['pick', 'protect'] },
+  Kalista: { frontline: false, cc: 2, styles: ['engage'] },
+  Karma: { frontline: false, cc: 1, styles: ['poke', 'protect'] },
+  Karthus: { frontline: false, cc: 0, styles: ['poke'] },
+  Kassadin: { frontline: false, cc: 1, styles: ['pick'] },
+  Katarina: { frontline: false, cc: 0, styles: ['pick'] },
+  Kayle: { frontline: false, cc: 0, styles: ['protect'] },
+  Kayn: { frontline: false, cc: 1, styles: ['pick'] },
+  Kennen: { frontline: false, cc: 3, styles: ['engage'] },
+  Khazix: { frontline: false, cc: 0, styles: ['pick'] },
+  Kindred: { frontline: false, cc: 1, styles: ['protect'] },
+  Kled: { frontline: true, cc: 1, styles: ['engage'] },
+  KogMaw: { frontline: false, cc: 0, styles: ['protect'] },
+  KSante: { frontline: true, cc: 2, styles: ['engage', 'protect'] },
+
+  // L
+  Leblanc: { frontline: false, cc: 1, styles: ['pick'] },
+  LeeSin: { frontline: false, cc: 2, styles: ['pick'] },
+  Leona: { frontline: true, cc: 3, styles: ['engage'] },
+  Lillia: { frontline: false, cc: 2, styles: ['engage'] },
+  Lissandra: { frontline: false, cc: 3, styles: ['engage'] },
+  Lucian: { frontline: false, cc: 0, styles: ['pick'] },
+  Lulu: { frontline: false, cc: 2, styles: ['protect'] },
+  Lux: { frontline: false, cc: 2, styles: ['poke', 'pick'] },
+
+  // M
+  Malphite: { frontline: true, cc: 3, styles: ['engage'] },
+  Malzahar: { frontline: false, cc: 2, styles: ['pick'] },
+  Maokai: { frontline: true, cc: 3, styles: ['engage'] },
+  MasterYi: { frontline: false, cc: 0, styles: ['splitpush'] },
+  Mel: { frontline: false, cc: 1, styles: ['poke'] },
+  Milio: { frontline: false, cc: 1, styles: ['protect'] },
+  MissFortune: { frontline: false, cc: 1, styles: ['engage'] },
+  MonkeyKing: { frontline: true, cc: 3, styles: ['engage'] },
+  Mordekaiser: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Morgana: { frontline: false, cc: 2, styles: ['pick', 'protect'] },
+
+  // N
+  Naafiri: { frontline: false, cc: 0, styles: ['pick'] },
+  Nami: { frontline: false, cc: 2, styles: ['protect'] },
+  Nasus: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Nautilus: { frontline: true, cc: 3, styles: ['engage', 'pick'] },
+  Neeko: { frontline: false, cc: 3, styles: ['engage'] },
+  Nidalee: { frontline: false, cc: 0, styles: ['poke', 'pick'] },
+  Nilah: { frontline: false, cc: 1, styles: ['engage'] },
+  Nocturne: { frontline: false, cc: 1, styles: ['pick'] },
+  Nunu: { frontline: true, cc: 2, styles: ['pick'] },
+
+  // O
+  Olaf: { frontline: true, cc: 0, styles: ['engage'] },
+  Orianna: { frontline: false, cc: 2, styles: ['engage', 'protect'] },
+  Ornn: { frontline: true, cc: 3, styles: ['engage'] },
+
+  // P
+  Pantheon: { frontline: false, cc: 1, styles: ['pick'] },
+  Poppy: { frontline: true, cc: 2, styles: ['pick', 'protect'] },
+  Pyke: { frontline: false, cc: 2, styles: ['pick'] },
+
+  // Q
+  Qiyana: { frontline: false, cc: 2, styles: ['pick'] },
+  Quinn: { frontline: false, cc: 1, styles: ['splitpush'] },
+
+  // R
+  Rakan: { frontline: false, cc: 3, styles: ['engage'] },
+  Rammus: { frontline: true, cc: 3, styles: ['engage'] },
+  RekSai: { frontline: false, cc: 1, styles: ['pick'] },
+  Rell: { frontline: true, cc: 3, styles: ['engage'] },
+  Renata: { frontline: false, cc: 2, styles: ['protect'] },
+  Renekton: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Rengar: { frontline: false, cc: 1, styles: ['pick'] },
+  Riven: { frontline: false, cc: 2, styles: ['splitpush'] },
+  Rumble: { frontline: false, cc: 1, styles: ['engage'] },
+  Ryze: { frontline: false, cc: 1, styles: ['splitpush'] },
+
+  // S
+  Samira: { frontline: false, cc: 1, styles: ['engage'] },
+  Sejuani: { frontline: true, cc: 3, styles: ['engage'] },
+  Senna: { frontline: false, cc: 1, styles: ['poke', 'protect'] },
+  Seraphine: { frontline: false, cc: 2, styles: ['poke', 'protect'] },
+  Sett: { frontline: true, cc: 2, styles: ['engage'] },
+  Shaco: { frontline: false, cc: 1, styles: ['pick', 'splitpush'] },
+  Shen: { frontline: true, cc: 2, styles: ['splitpush', 'protect'] },
+  Shyvana: { frontline: true, cc: 1, styles: ['engage'] },
+  Singed: { frontline: true, cc: 2, styles: ['splitpush'] },
+  Sion: { frontline: true, cc: 3, styles: ['engage'] },
+  Sivir: { frontline: false, cc: 0, styles: ['engage'] },
+  Skarner: { frontline: true, cc: 3, styles: ['pick'] },
+  Smolder: { frontline: false, cc: 0, styles: ['poke'] },
+  Sona: { frontline: false, cc: 2, styles: ['protect'] },
+  Soraka: { frontline: false, cc: 1, styles: ['protect'] },
+  Swain: { frontline: true, cc: 2, styles: ['engage'] },
+  Sylas: { frontline: false, cc: 1, styles: ['pick'] },
+  Syndra: { frontline: false, cc: 2, styles: ['pick'] },
+
+  // T
+  TahmKench: { frontline: true, cc: 2, styles: ['protect'] },
+  Taliyah: { frontline: false, cc: 2, styles: ['pick'] },
+  Talon: { frontline: false, cc: 0, styles: ['pick'] },
+  Taric: { frontline: true, cc: 2, styles: ['protect'] },
+  Teemo: { frontline: false, cc: 1, styles: ['splitpush'] },
+  Thresh: { frontline: false, cc: 3, styles: ['pick', 'protect'] },
+  Tristana: { frontline: false, cc: 1, styles: ['splitpush'] },
+  Trundle: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Tryndamere: { frontline: false, cc: 0, styles: ['splitpush'] },
+  TwistedFate: { frontline: false, cc: 2, styles: ['pick'] },
+  Twitch: { frontline: false, cc: 0, styles: ['protect'] },
+
+  // U
+  Udyr: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Urgot: { frontline: true, cc: 1, styles: ['splitpush'] },
+
+  // V
+  Varus: { frontline: false, cc: 2, styles: ['poke'] },
+  Vayne: { frontline: false, cc: 1, styles: ['protect', 'splitpush'] },
+  Veigar: { frontline: false, cc: 2, styles: ['pick'] },
+  Velkoz: { frontline: false, cc: 1, styles: ['poke'] },
+  Vex: { frontline: false, cc: 2, styles: ['engage'] },
+  Vi: { frontline: false, cc: 2, styles: ['pick', 'engage'] },
+  Viego: { frontline: false, cc: 0, styles: ['pick'] },
+  Viktor: { frontline: false, cc: 1, styles: ['poke'] },
+  Vladimir: { frontline: false, cc: 0, styles: ['engage'] },
+  Volibear: { frontline: true, cc: 2, styles: ['engage'] },
+
+  // W
+  Warwick: { frontline: true, cc: 2, styles: ['pick'] },
+
+  // X
+  Xayah: { frontline: false, cc: 2, styles: ['protect'] },
+  Xerath: { frontline: false, cc: 1, styles: ['poke'] },
+  XinZhao: { frontline: true, cc: 2, styles: ['engage'] },
+
+  // Y
+  Yasuo: { frontline: false, cc: 2, styles: ['engage'] },
+  Yone: { frontline: false, cc: 2, styles: ['engage', 'splitpush'] },
+  Yorick: { frontline: false, cc: 1, styles: ['splitpush'] },
+  Yunara: { frontline: false, cc: 0, styles: ['protect'] },
+  Yuumi: { frontline: false, cc: 1, styles: ['protect'] },
+
+  // Z
+  Zaahen: { frontline: true, cc: 1, styles: ['splitpush'] },
+  Zac: { frontline: true, cc: 3, styles: ['engage'] },
+  Zed: { frontline: false, cc: 0, styles: ['pick', 'splitpush'] },
+  Zeri: { frontline: false, cc: 0, styles: ['protect'] },
+  Ziggs: { frontline: false, cc: 1, styles: ['poke'] },
+  Zilean: { frontline: false, cc: 2, styles: ['protect'] },
+  Zoe: { frontline: false, cc: 1, styles: ['poke', 'pick'] },
+  Zyra: { frontline: false, cc: 2, styles: ['poke'] },
+};
+
+// Rough attributes from Data Dragon class tags for champions without curated data
+function attributesFromTags(tags: string[]): ChampionAttributes {
+  const has = (tag: string) => tags.includes(tag);
+  return {
+    frontline: has('Tank'),
+    cc: has('Tank') || has('Support') ? 2 : 1,
+    styles: has('Tank')
+      ? ['engage']
+      : has('Assassin')
+        ? ['pick']
+        : has('Marksman')
+          ? ['protect']
+          : has('Mage')
+            ? ['poke']
+            : has('Fighter')
+              ? ['splitpush']
+              : ['protect'],
+  };
+}
+
+// Get composition attributes for a champion by ID
+export function getChampionAttributes(championId: string, tags: string[] = []): ChampionAttributes {
+  return CHAMPION_ATTRIBUTES[championId] || attributesFromTags(tags);
+}
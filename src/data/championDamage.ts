@@ -0,0 +1,240 @@
+// Champion damage profiles: rough share of physical (AD), magic (AP) and true damage dealt, in percent
+// Manually maintained - update when new champions release or reworks change a kit
+// Champions missing here fall back to their Data Dragon tags
+
+import type { ChampionDamageProfile } from '../types';
+
+export const CHAMPION_DAMAGE: Record<string, ChampionDamageProfile> = {
+
+  // A
+  Aatrox: { ad: 100, ap: 0, true: 0 },
+  Ahri: { ad: 0, ap: 100, true: 0 },
+  Akali: { ad: 20, ap: 80, true: 0 },
+  Akshan: { ad: 100, ap: 0, true: 0 },
+  Alistar: { ad: 0, ap: 100, true: 0 },
+  Ambessa: { ad: 90, ap: 0, true: 10 },
+  Amumu: { ad: 0, ap: 100, true: 0 },
+  Anivia: { ad: 0, ap: 100, true: 0 },
+  Annie: { ad: 0, ap: 100, true: 0 },
+  Aphelios: { ad: 100, ap: 0, true: 0 },
+  Ashe: { ad: 100, ap: 0, true: 0 },
+  AurelionSol: { ad: 0, ap: 100, true: 0 },
+  Aurora: { ad: 0, ap: 100, true: 0 },
+  Azir: { ad: 0, ap: 100, true: 0 },
+
+  // B
+  Bard: { ad: 0, ap: 100, true: 0 },
+  Belveth: { ad: 100, ap: 0, true: 0 },
+  Blitzcrank: { ad: 0, ap: 100, true: 0 },
+  Brand: { ad: 0, ap: 100, true: 0 },
+  Braum: { ad: 20, ap: 80, true: 0 },
+  Briar: { ad: 100, ap: 0, true: 0 },
+
+  // C
+  Caitlyn: { ad: 100, ap: 0, true: 0 },
+  Camille: { ad: 75, ap: 0, true: 25 },
+  Cassiopeia: { ad: 0, ap: 100, true: 0 },
+  Chogath: { ad: 0, ap: 80, true: 20 },
+  Corki: { ad: 40, ap: 60, true: 0 },
+
+  // D
+  Darius: { ad: 80, ap: 0, true: 20 },
+  Diana: { ad: 0, ap: 100, true: 0 },
+  Draven: { ad: 100, ap: 0, true: 0 },
+  DrMundo: { ad: 40, ap: 60, true: 0 },
+
+  // E
+  Ekko: { ad: 0, ap: 100, true: 0 },
+  Elise: { ad: 0, ap: 100, true: 0 },
+  Evelynn: { ad: 0, ap: 100, true: 0 },
+  Ezreal: { ad: 80, ap: 20, true: 0 },
+
+  // F
+  Fiddlesticks: { ad: 0, ap: 100, true: 0 },
+  Fiora: { ad: 75, ap: 0, true: 25 },
+  Fizz: { ad: 0, ap: 100, true: 0 },
+
+  // G
+  Galio: { ad: 0, ap: 100, true: 0 },
+  Gangplank: { ad: 85, ap: 0, true: 15 },
+  Garen: { ad: 80, ap: 0, true: 20 },
+  Gnar: { ad: 100, ap: 0, true: 0 },
+  Gragas: { ad: 0, ap: 100, true: 0 },
+  Graves: { ad: 100, ap: 0, true: 0 },
+  Gwen: { ad: 0, ap: 75, true: 25 },
+
+  // H
+  Hecarim: { ad: 100, ap: 0, true: 0 },
+  Heimerdinger: { ad: 0, ap: 100, true: 0 },
+  Hwei: { ad: 0, ap: 100, true: 0 },
+
+  // I
+  Illaoi: { ad: 100, ap: 0, true: 0 },
+  Irelia: { ad: 100, ap: 0, true: 0 },
+  Ivern: { ad: 0, ap: 100, true: 0 },
+
+  // J
+  Janna: { ad: 0, ap: 100, true: 0 },
+  JarvanIV: { ad: 100, ap: 0, true: 0 },
+  Jax: { ad: 60, ap: 40, true: 0 },
+  Jayce: { ad: 100, ap: 0, true: 0 },
+  Jhin: { ad: 100, ap: 0, true: 0 },
+  Jinx: { ad: 100, ap: 0, true: 0 },
+
+  // K
+  Kaisa: { ad: 55, ap: 45, true: 0 },
+  Kalista: { ad: 100, ap: 0, true: 0 },
+  Karma: { ad: 0, ap: 100, true: 0 },
+  Karthus: { ad: 0, ap: 100, true: 0 },
+  Kassadin: { ad: 0, ap: 100, true: 0 },
+  Katarina: { ad: 20, ap: 80, true: 0 },
+  Kayle: { ad: 50, ap: 50, true: 0 },
+  Kayn: { ad: 100, ap: 0, true: 0 },
+  Kennen: { ad: 0, ap: 100, true: 0 },
+  Khazix: { ad: 100, ap: 0, true: 0 },
+  Kindred: { ad: 100, ap: 0, true: 0 },
+  Kled: { ad: 100, ap: 0, true: 0 },
+  KogMaw: { ad: 60, ap: 40, true: 0 },
+  KSante: { ad: 80, ap: 0, true: 20 },
+
+  // L
+  Leblanc: { ad: 0, ap: 100, true: 0 },
+  LeeSin: { ad: 100, ap: 0, true: 0 },
+  Leona: { ad: 0, ap: 100, true: 0 },
+  Lillia: { ad: 0, ap: 100, true: 0 },
+  Lissandra: { ad: 0, ap: 100, true: 0 },
+  Lucian: { ad: 100, ap: 0, true: 0 },
+  Lulu: { ad: 0, ap: 100, true: 0 },
+  Lux: { ad: 0, ap: 100, true: 0 },
+
+  // M
+  Malphite: { ad: 0, ap: 100, true: 0 },
+  Malzahar: { ad: 0, ap: 100, true: 0 },
+  Maokai: { ad: 0, ap: 100, true: 0 },
+  MasterYi: { ad: 80, ap: 0, true: 20 },
+  Mel: { ad: 0, ap: 100, true: 0 },
+  Milio: { ad: 0, ap: 100, true: 0 },
+  MissFortune: { ad: 100, ap: 0, true: 0 },
+  MonkeyKing: { ad: 100, ap: 0, true: 0 },
+  Mordekaiser: { ad: 0, ap: 100, true: 0 },
+  Morgana: { ad: 0, ap: 100, true: 0 },
+
+  // N
+  Naafiri: { ad: 100, ap: 0, true: 0 },
+  Nami: { ad: 0, ap: 100, true: 0 },
+  Nasus: { ad: 100, ap: 0, true: 0 },
+  Nautilus: { ad: 30, ap: 70, true: 0 },
+  Neeko: { ad: 0, ap: 100, true: 0 },
+  Nidalee: { ad: 0, ap: 100, true: 0 },
+  Nilah: { ad: 100, ap: 0, true: 0 },
+  Nocturne: { ad: 100, ap: 0, true: 0 },
+  Nunu: { ad: 0, ap: 100, true: 0 },
+
+  // O
+  Olaf: { ad: 80, ap: 0, true: 20 },
+  Orianna: { ad: 0, ap: 100, true: 0 },
+  Ornn: { ad: 50, ap: 50, true: 0 },
+
+  // P
+  Pantheon: { ad: 100, ap: 0, true: 0 },
+  Poppy: { ad: 85, ap: 15, true: 0 },
+  Pyke: { ad: 80, ap: 0, true: 20 },
+
+  // Q
+  Qiyana: { ad: 100, ap: 0, true: 0 },
+  Quinn: { ad: 100, ap: 0, true: 0 },
+
+  // R
+  Rakan: { ad: 0, ap: 100, true: 0 },
+  Rammus: { ad: 0, ap: 100, true: 0 },
+  RekSai: { ad: 80, ap: 0, true: 20 },
+  Rell: { ad: 0, ap: 100, true: 0 },
+  Renata: { ad: 0, ap: 100, true: 0 },
+  Renekton: { ad: 100, ap: 0, true: 0 },
+  Rengar: { ad: 100, ap: 0, true: 0 },
+  Riven: { ad: 100, ap: 0, true: 0 },
+  Rumble: { ad: 0, ap: 100, true: 0 },
+  Ryze: { ad: 0, ap: 100, true: 0 },
+
+  // S
+  Samira: { ad: 100, ap: 0, true: 0 },
+  Sejuani: { ad: 20, ap: 80, true: 0 },
+  Senna: { ad: 100, ap: 0, true: 0 },
+  Seraphine: { ad: 0, ap: 100, true: 0 },
+  Sett: { ad: 80, ap: 0, true: 20 },
+  Shaco: { ad: 100, ap: 0, true: 0 },
+  Shen: { ad: 40, ap: 60, true: 0 },
+  Shyvana: { ad: 50, ap: 50, true: 0 },
+  Singed: { ad: 0, ap: 100, true: 0 },
+  Sion: { ad: 60, ap: 40, true: 0 },
+  Sivir: { ad: 100, ap: 0, true: 0 },
+  Skarner: { ad: 60, ap: 40, true: 0 },
+  Smolder: { ad: 100, ap: 0, true: 0 },
+  Sona: { ad: 0, ap: 100, true: 0 },
+  Soraka: { ad: 0, ap: 100, true: 0 },
+  Swain: { ad: 0, ap: 100, true: 0 },
+  Sylas: { ad: 0, ap: 100, true: 0 },
+  Syndra: { ad: 0, ap: 100, true: 0 },
+
+  // T
+  TahmKench: { ad: 0, ap: 100, true: 0 },
+  Taliyah: { ad: 0, ap: 100, true: 0 },
+  Talon: { ad: 100, ap: 0, true: 0 },
+  Taric: { ad: 0, ap: 100, true: 0 },
+  Teemo: { ad: 0, ap: 100, true: 0 },
+  Thresh: { ad: 0, ap: 100, true: 0 },
+  Tristana: { ad: 100, ap: 0, true: 0 },
+  Trundle: { ad: 100, ap: 0, true: 0 },
+  Tryndamere: { ad: 100, ap: 0, true: 0 },
+  TwistedFate: { ad: 0, ap: 100, true: 0 },
+  Twitch: { ad: 80, ap: 0, true: 20 },
+
+  // U
+  Udyr: { ad: 50, ap: 50, true: 0 },
+  Urgot: { ad: 100, ap: 0, true: 0 },
+
+  // V
+  Varus: { ad: 100, ap: 0, true: 0 },
+  Vayne: { ad: 70, ap: 0, true: 30 },
+  Veigar: { ad: 0, ap: 100, true: 0 },
+  Velkoz: { ad: 0, ap: 100, true: 0 },
+  Vex: { ad: 0, ap: 100, true: 0 },
+  Vi: { ad: 100, ap: 0, true: 0 },
+  Viego: { ad: 100, ap: 0, true: 0 },
+  Viktor: { ad: 0, ap: 100, true: 0 },
+  Vladimir: { ad: 0, ap: 100, true: 0 },
+  Volibear: { ad: 60, ap: 40, true: 0 },
+
+  // W
+  Warwick: { ad: 50, ap: 50, true: 0 },
+
+  // X
+  Xayah: { ad: 100, ap: 0, true: 0 },
+  Xerath: { ad: 0, ap: 100, true: 0 },
+  XinZhao: { ad: 100, ap: 0, true: 0 },
+
+  // Y
+  Yasuo: { ad: 100, ap: 0, true: 0 },
+  Yone: { ad: 100, ap: 0, true: 0 },
+  Yorick: { ad: 100, ap: 0, true: 0 },
+  Yunara: { ad: 90, ap: 0, true: 10 },
+  Yuumi: { ad: 0, ap: 100, true: 0 },
+
+  // Z
+  Zaahen: { ad: 100, ap: 0, true: 0 },
+  Zac: { ad: 0, ap: 100, true: 0 },
+  Zed: { ad: 100, ap: 0, true: 0 },
+  Zeri: { ad: 100, ap: 0, true: 0 },
+  Ziggs: { ad: 0, ap: 100, true: 0 },
+  Zilean: { ad: 0, ap: 100, true: 0 },
+  Zoe: { ad: 0, ap: 100, true: 0 },
+  Zyra: { ad: 0, ap: 100, true: 0 },
+};
+
+// Get the damage profile for a champion by ID, guessing from Data Dragon tags when not curated
+export function getChampionDamageProfile(championId: string, tags: string[] = []): ChampionDamageProfile {
+  const profile = CHAMPION_DAMAGE[championId];
+  if (profile) return profile;
+  const isMagic = tags.includes('Mage') || (tags.includes('Support') && !tags.includes('Marksman'));
+  return isMagic ? { ad: 0, ap: 100, true: 0 } : { ad: 100, ap: 0, true: 0 };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { liveDraftCoachService } from '../lib/liveDraftCoachService';
+import type { DbLiveDraftCoach, DbLiveDraftCoachProposal } from '../types/liveDraft';
+
+/**
+ * Coaches of a live draft session plus the caller's team-private coaching
+ * feed. The feed arrives over postgres_changes, so realtime applies the same
+ * RLS as the initial query: the opposing team and spectators get nothing.
+ */
+export function useCoachFeed(sessionId: string | undefined, userId: string | null) {
+  const [coaches, setCoaches] = useState<DbLiveDraftCoach[]>([]);
+  const [feed, setFeed] = useState<DbLiveDraftCoachProposal[]>([]);
+
+  const load = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const [coachData, feedData] = await Promise.all([
+        liveDraftCoachService.getCoaches(sessionId),
+        userId ? liveDraftCoachService.getFeed(sessionId) : Promise.resolve([]),
+      ]);
+      setCoaches(coachData);
+      setFeed(feedData);
+    } catch (err) {
+      console.error('Failed to load coaching feed:', err);
+    }
+  }, [sessionId, userId]);
+
+  useEffect(() => {
+    if (!sessionId || !supabase) return;
+
+    const channel = supabase
+      .channel(`live_draft_coach_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_coaches', filter: `session_id=eq.${sessionId}` },
+        () => load()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_coach_proposals', filter: `session_id=eq.${sessionId}` },
+        () => load()
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      if (supabase) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [sessionId, load]);
+
+  return { coaches, feed, reload: load };
+}
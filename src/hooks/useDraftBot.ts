@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useChampionData } from './useChampionData';
+import { useMyTeamStore } from '../stores/useMyTeamStore';
+import { useEnemyTeamStore } from '../stores/useEnemyTeamStore';
+import { usePlayerPoolStore } from '../stores/usePlayerPoolStore';
+import { useDraftAnalytics } from '../components/draft/hooks/useDraftAnalytics';
+import { liveDraftService } from '../lib/liveDraftService';
+import { chooseBotAction, getBotThinkTime } from '../lib/draftBot';
+import {
+  getDraftStep,
+  getUnavailableChampions,
+  resolveDraftOrder,
+  type DbLiveDraftUnavailableChampion,
+  type LiveDraftGame,
+  type LiveDraftSession,
+} from '../types/liveDraft';
+
+interface UseDraftBotOptions {
+  session: LiveDraftSession | null;
+  activeGame: LiveDraftGame | null;
+  allGames: LiveDraftGame[];
+  unavailableEntries: DbLiveDraftUnavailableChampion[];
+  /** Only the human captain's client runs the bot */
+  enabled: boolean;
+  /** Required for anonymous captains */
+  team?: 'team1' | 'team2';
+  onActed: () => void;
+}
+
+/**
+ * Plays team2's turns in bot-opponent sessions. Waits a short think time,
+ * never longer than the turn timer allows, then submits the bot's choice.
+ * If this client goes away the server turn timer fills the slot instead.
+ */
+export function useDraftBot({
+  session,
+  activeGame,
+  allGames,
+  unavailableEntries,
+  enabled,
+  team,
+  onActed,
+}: UseDraftBotOptions) {
+  const { champions } = useChampionData();
+  const myTeams = useMyTeamStore((s) => s.teams);
+  const enemyTeams = useEnemyTeamStore((s) => s.teams);
+  const playerPools = usePlayerPoolStore((s) => s.pools);
+
+  const botTeam = useMemo(
+    () => enemyTeams.find((t) => t.id === session?.team2_linked_enemy_id) ?? null,
+    [enemyTeams, session?.team2_linked_enemy_id]
+  );
+  const opponentTeam = useMemo(
+    () => myTeams.find((t) => t.id === session?.team1_linked_team_id) ?? null,
+    [myTeams, session?.team1_linked_team_id]
+  );
+
+  // From the bot's point of view the human team is the enemy
+  const { banCandidates } = useDraftAnalytics({
+    myTeam: botTeam,
+    enemyTeam: opponentTeam,
+    customPools: [],
+    selectedCustomPoolIds: [],
+    tierFilter: ['S', 'A', 'B', 'C'],
+    playerPools,
+  });
+
+  const actedKeyRef = useRef<string | null>(null);
+  const onActedRef = useRef(onActed);
+  useEffect(() => {
+    onActedRef.current = onActed;
+  });
+
+  const active = enabled && !!session?.bot_opponent && session.status === 'in_progress'
+    && activeGame?.status === 'drafting' && !!activeGame.turn_started_at;
+  const botSide = activeGame?.blue_side_team === 'team2' ? 'blue' : 'red';
+  const isBotTurn = active && activeGame?.current_turn === botSide;
+  const stepKey = isBotTurn ? `${activeGame!.id}:${activeGame!.current_action_index}` : null;
+
+  useEffect(() => {
+    if (!stepKey || !session || !activeGame?.turn_started_at || champions.length === 0) return;
+    if (actedKeyRef.current === stepKey) return;
+
+    const step = getDraftStep(activeGame.current_action_index, resolveDraftOrder(session));
+    if (!step) return;
+
+    const timeLimit = step.actionType === 'ban' ? session.ban_time_seconds : session.pick_time_seconds;
+    const elapsed = Date.now() - new Date(activeGame.turn_started_at).getTime();
+    const delay = Math.max(0, getBotThinkTime(stepKey, timeLimit) - elapsed);
+
+    const timer = setTimeout(async () => {
+      actedKeyRef.current = stepKey;
+      const championId = chooseBotAction({
+        actionType: step.actionType,
+        seed: stepKey,
+        botPicks: botSide === 'blue' ? activeGame.blue_picks : activeGame.red_picks,
+        unavailable: getUnavailableChampions(session, activeGame, unavailableEntries, allGames, 'team2'),
+        botTeam,
+        opponentTeam,
+        playerPools,
+        banCandidates,
+        allChampionIds: champions.map((c) => c.id),
+      });
+
+      try {
+        await liveDraftService.submitBotAction(activeGame.id, championId, team);
+        onActedRef.current();
+      } catch (err) {
+        console.error('Draft bot failed to act:', err);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [
+    stepKey,
+    session,
+    activeGame,
+    allGames,
+    unavailableEntries,
+    botSide,
+    botTeam,
+    opponentTeam,
+    playerPools,
+    banCandidates,
+    champions,
+    team,
+  ]);
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { liveDraftService } from '../lib/liveDraftService';
+import type {
+  ConnectionStatus,
+  DbLiveDraftUnavailableChampion,
+  DraftMode,
+  LiveDraftAction,
+  LiveDraftGame,
+  LiveDraftMessage,
+  LiveDraftParticipant,
+  LiveDraftSession,
+  SessionStatus,
+  SyncStatus,
+} from '../types/liveDraft';
+
+// Older than any row, so the first resync without games fetches them all
+const NO_GAMES_UPDATED_AT = '1970-01-01T00:00:00Z';
+
+/** The newest server state the local board has applied */
+interface SyncCursor {
+  sessionUpdatedAt: string;
+  sessionStatus: SessionStatus;
+  draftMode: DraftMode;
+  gamesUpdatedAt: string;
+  /** Active game and the next action index it expects */
+  gameId: string | null;
+  actionIndex: number;
+}
+
+interface UseLiveDraftResyncOptions {
+  sessionId: string | undefined;
+  session: LiveDraftSession | null;
+  allGames: LiveDraftGame[];
+  setSession: (session: LiveDraftSession) => void;
+  setAllGames: Dispatch<SetStateAction<LiveDraftGame[]>>;
+  setParticipants: (participants: LiveDraftParticipant[]) => void;
+  setMessages: (messages: LiveDraftMessage[]) => void;
+  setFearlessChampions: (champions: DbLiveDraftUnavailableChampion[]) => void;
+  /** Full reload, used to recover once the board is out of sync. Resolves to false on failure */
+  reloadAll: () => Promise<boolean>;
+}
+
+/**
+ * The missed actions must continue exactly where the local board stopped and
+ * lead up to the server's current step. Actions past the fetched game row are
+ * ignored; they arrive through realtime like any other update.
+ */
+function isActionDeltaConsistent(actions: LiveDraftAction[], fromIndex: number, serverGame: LiveDraftGame): boolean {
+  // The game was reset and starts over, nothing to line up
+  if (serverGame.current_action_index < fromIndex) return true;
+
+  const missed = actions.filter((a) => a.action_index < serverGame.current_action_index);
+  if (missed.some((a, i) => a.action_index !== fromIndex + i)) return false;
+  return serverGame.status !== 'drafting' || fromIndex + missed.length === serverGame.current_action_index;
+}
+
+function mergeGames(games: LiveDraftGame[], changed: LiveDraftGame[]): LiveDraftGame[] {
+  const byId = new Map(games.map((g) => [g.id, g]));
+  changed.forEach((g) => byId.set(g.id, g));
+  return [...byId.values()].sort((a, b) => a.game_number - b.game_number);
+}
+
+function latestUpdatedAt(games: LiveDraftGame[]): string {
+  return games.reduce(
+    (latest, g) => (Date.parse(g.updated_at) > Date.parse(latest) ? g.updated_at : latest),
+    NO_GAMES_UPDATED_AT
+  );
+}
+
+/**
+ * Tracks the realtime connection of a live draft and catches up incrementally
+ * after it drops: only the session, games and actions that changed since the
+ * last applied state are fetched. If the missed actions don't line up with
+ * the board, the sync status turns 'out_of_sync' until the user reloads.
+ */
+export function useLiveDraftResync({
+  sessionId,
+  session,
+  allGames,
+  setSession,
+  setAllGames,
+  setParticipants,
+  setMessages,
+  setFearlessChampions,
+  reloadAll,
+}: UseLiveDraftResyncOptions) {
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('in_sync');
+  const cursorRef = useRef<SyncCursor | null>(null);
+  const droppedRef = useRef(false);
+
+  useEffect(() => {
+    if (!session) return;
+    const activeGame = allGames.find((g) => g.status === 'drafting' || g.status === 'trading');
+    cursorRef.current = {
+      sessionUpdatedAt: session.updated_at,
+      sessionStatus: session.status,
+      draftMode: session.draft_mode,
+      gamesUpdatedAt: latestUpdatedAt(allGames),
+      gameId: activeGame?.id ?? null,
+      actionIndex: activeGame?.current_action_index ?? 0,
+    };
+  }, [session, allGames]);
+
+  const resync = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!sessionId || !cursor) return;
+
+    setSyncStatus('resyncing');
+    try {
+      const [changedSession, changedGames] = await Promise.all([
+        liveDraftService.getSessionIfChanged(sessionId, cursor.sessionUpdatedAt),
+        liveDraftService.getGamesChangedSince(sessionId, cursor.gamesUpdatedAt),
+      ]);
+
+      // Every action bumps its game's updated_at, so only a changed game can have missed actions
+      const activeGame = changedGames.find((g) => g.id === cursor.gameId);
+      if (activeGame) {
+        const actions = await liveDraftService.getActionsSince(activeGame.id, cursor.actionIndex);
+        if (!isActionDeltaConsistent(actions, cursor.actionIndex, activeGame)) {
+          setSyncStatus('out_of_sync');
+          return;
+        }
+      }
+
+      if (changedSession) {
+        setSession(changedSession);
+      }
+
+      // A session status change can add or remove games, so refetch the full list then
+      if (changedSession && changedSession.status !== cursor.sessionStatus) {
+        setAllGames(await liveDraftService.getGames(sessionId));
+      } else if (changedGames.length > 0) {
+        setAllGames((games) => mergeGames(games, changedGames));
+      }
+
+      // Finished games can lock champions in fearless/ironman
+      if (changedGames.length > 0 && cursor.draftMode !== 'normal') {
+        setFearlessChampions(await liveDraftService.getUnavailableChampions(sessionId));
+      }
+
+      // Participants and chat are small, refetch them as a whole
+      const [participants, messages] = await Promise.all([
+        liveDraftService.getParticipants(sessionId),
+        liveDraftService.getMessages(sessionId),
+      ]);
+      setParticipants(participants);
+      setMessages(messages);
+
+      setSyncStatus('in_sync');
+    } catch (err) {
+      console.error('Failed to resync live draft:', err);
+      setSyncStatus('out_of_sync');
+    }
+  }, [sessionId, setSession, setAllGames, setParticipants, setMessages, setFearlessChampions]);
+
+  /**
+   * Feed the session channel's subscribe status in here
+   */
+  const handleChannelStatus = useCallback(
+    (status: string) => {
+      if (status === 'SUBSCRIBED') {
+        setConnectionStatus('connected');
+        if (droppedRef.current) {
+          droppedRef.current = false;
+          resync();
+        }
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        droppedRef.current = true;
+        setConnectionStatus('reconnecting');
+      } else if (status === 'CLOSED') {
+        setConnectionStatus('disconnected');
+      }
+    },
+    [resync]
+  );
+
+  /**
+   * Recover from 'out_of_sync' by reloading everything
+   */
+  const recover = useCallback(async () => {
+    setSyncStatus('resyncing');
+    const reloaded = await reloadAll();
+    setSyncStatus(reloaded ? 'in_sync' : 'out_of_sync');
+  }, [reloadAll]);
+
+  return { connectionStatus, syncStatus, handleChannelStatus, recover };
+}
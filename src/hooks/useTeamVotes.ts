@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { TeamVoteEvent } from '../types/liveDraft';
+
+/**
+ * Team-private champion votes. Votes travel as presence on a channel named
+ * after the team link token, separate from the public session channel, so
+ * only the captain and teammates holding the link ever see them. Each voter
+ * holds at most one vote; leaving the page withdraws it.
+ *
+ * Pass a voterId to vote, omit it to only listen (captain).
+ */
+export function useTeamVotes(token: string | null, voterId: string | null) {
+  const [votes, setVotes] = useState<TeamVoteEvent[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  useEffect(() => {
+    if (!token || !supabase) return;
+
+    const channel = supabase.channel(`live_draft_team_${token}`, {
+      config: { presence: { key: voterId ?? '' } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<TeamVoteEvent>();
+        setVotes(
+          Object.values(state).flatMap((presences) =>
+            presences.slice(-1).map(({ voterId, displayName, gameId, actionIndex, championId }) => ({
+              voterId,
+              displayName,
+              gameId,
+              actionIndex,
+              championId,
+            }))
+          )
+        );
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') channelRef.current = channel;
+      });
+
+    return () => {
+      channelRef.current = null;
+      if (supabase) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [token, voterId]);
+
+  const castVote = useCallback(
+    async (vote: Omit<TeamVoteEvent, 'voterId'>) => {
+      if (!voterId) return;
+      if (!channelRef.current) throw new Error('Not connected to your team yet');
+      await channelRef.current.track({ ...vote, voterId });
+    },
+    [voterId]
+  );
+
+  return { votes, castVote };
+}
+
+/**
+ * Vote totals per champion for one step of a game
+ */
+export function countTeamVotes(votes: TeamVoteEvent[], gameId: string, actionIndex: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const vote of votes) {
+    if (vote.gameId !== gameId || vote.actionIndex !== actionIndex) continue;
+    counts.set(vote.championId, (counts.get(vote.championId) ?? 0) + 1);
+  }
+  return counts;
+}
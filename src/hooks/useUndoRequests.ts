@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { liveDraftService } from '../lib/liveDraftService';
+import type { DbLiveDraftUndoRequest } from '../types/liveDraft';
+
+/**
+ * Pending undo requests of a live draft session, kept current over realtime
+ */
+export function useUndoRequests(sessionId: string | undefined) {
+  const [requests, setRequests] = useState<DbLiveDraftUndoRequest[]>([]);
+
+  const load = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      setRequests(await liveDraftService.getUndoRequests(sessionId));
+    } catch (err) {
+      console.error('Failed to load undo requests:', err);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId || !supabase) return;
+
+    const channel = supabase
+      .channel(`live_draft_undo_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_undo_requests', filter: `session_id=eq.${sessionId}` },
+        () => load()
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      if (supabase) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [sessionId, load]);
+
+  return requests;
+}
@@ -0,0 +1,94 @@
+import type { BanScoringWeights, ChampionTier } from '../types';
+
+// Ban candidate scoring. Each factor is kept in a breakdown so the ban
+// suggestions can show why a champion ranks where it does.
+
+export const TIER_SCORE: Record<ChampionTier, number> = {
+  S: 100,
+  A: 75,
+  B: 50,
+  C: 25,
+};
+
+// Champions without tier data score between A and B
+const UNKNOWN_TIER_SCORE = 60;
+
+// Mastery points that earn the full mastery weight
+const FULL_MASTERY_POINTS = 500_000;
+
+export const DEFAULT_BAN_SCORING: BanScoringWeights = {
+  tier: 1,
+  perPlayer: 25,
+  flex: 20,
+  contested: 15,
+  mastery: 15,
+  patchBuff: 10,
+};
+
+export const BAN_SCORING_FIELDS: { key: keyof BanScoringWeights; label: string; step: number; max: number }[] = [
+  { key: 'tier', label: 'Tier multiplier', step: 0.1, max: 3 },
+  { key: 'perPlayer', label: 'Per player', step: 5, max: 100 },
+  { key: 'flex', label: 'Flex pick', step: 5, max: 100 },
+  { key: 'contested', label: 'Contested', step: 5, max: 100 },
+  { key: 'mastery', label: 'Mastery', step: 5, max: 100 },
+  { key: 'patchBuff', label: 'Patch buff', step: 5, max: 100 },
+];
+
+export interface BanScoreFactor {
+  label: string;
+  points: number;
+}
+
+/** Extra data that feeds ban scoring when it is available */
+export interface BanSignals {
+  /** Highest enemy mastery per champion */
+  mastery?: Map<string, { points: number; player: string }>;
+  /** Champions buffed in the latest patch */
+  patchBuffs?: Set<string>;
+}
+
+export interface BanScoreInput {
+  championId: string;
+  bestTier: ChampionTier | null;
+  playerCount: number;
+  isFlexPick: boolean;
+  isContested: boolean;
+}
+
+/**
+ * Score one ban candidate, returning the total and every non-zero factor
+ */
+export function scoreBanCandidate(
+  candidate: BanScoreInput,
+  weights: BanScoringWeights = DEFAULT_BAN_SCORING,
+  signals: BanSignals = {}
+): { score: number; breakdown: BanScoreFactor[] } {
+  const breakdown: BanScoreFactor[] = [
+    {
+      label: candidate.bestTier ? `${candidate.bestTier} tier` : 'No tier data',
+      points: Math.round((candidate.bestTier ? TIER_SCORE[candidate.bestTier] : UNKNOWN_TIER_SCORE) * weights.tier),
+    },
+    {
+      label: `${candidate.playerCount} player${candidate.playerCount === 1 ? '' : 's'}`,
+      points: candidate.playerCount * weights.perPlayer,
+    },
+  ];
+
+  if (candidate.isFlexPick) breakdown.push({ label: 'Flex pick', points: weights.flex });
+  if (candidate.isContested) breakdown.push({ label: 'Contested', points: weights.contested });
+
+  const mastery = signals.mastery?.get(candidate.championId);
+  if (mastery) {
+    breakdown.push({
+      label: `${mastery.player}: ${Math.round(mastery.points / 1000)}k mastery`,
+      points: Math.round(weights.mastery * Math.min(1, mastery.points / FULL_MASTERY_POINTS)),
+    });
+  }
+
+  if (signals.patchBuffs?.has(candidate.championId)) {
+    breakdown.push({ label: 'Buffed last patch', points: weights.patchBuff });
+  }
+
+  const factors = breakdown.filter((f) => f.points !== 0);
+  return { score: factors.reduce((sum, f) => sum + f.points, 0), breakdown: factors };
+}
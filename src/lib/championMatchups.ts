@@ -0,0 +1,46 @@
+import type { ChampionMatchup } from '../types';
+
+// Recommendations from a team's counter/synergy matrix during a draft
+
+export interface MatchupRecommendation {
+  /** Enemy picks this champion is good into */
+  counters: ChampionMatchup[];
+  /** Our picks this champion pairs with */
+  synergies: ChampionMatchup[];
+  /** Summed strength of all matching entries */
+  score: number;
+}
+
+/**
+ * Champions worth picking against the enemy's current picks, keyed by the
+ * champion to pick. Synergies match either way round, so "X pairs with Y"
+ * also recommends X once Y is on our side.
+ */
+export function getMatchupRecommendations(
+  matchups: ChampionMatchup[],
+  enemyPicks: string[],
+  ourPicks: string[] = []
+): Map<string, MatchupRecommendation> {
+  const recommendations = new Map<string, MatchupRecommendation>();
+  const enemy = new Set(enemyPicks);
+  const ours = new Set(ourPicks);
+
+  const add = (championId: string, matchup: ChampionMatchup, kind: 'counters' | 'synergies') => {
+    if (enemy.has(championId) || ours.has(championId)) return;
+    const entry = recommendations.get(championId) ?? { counters: [], synergies: [], score: 0 };
+    entry[kind].push(matchup);
+    entry.score += matchup.strength;
+    recommendations.set(championId, entry);
+  };
+
+  for (const matchup of matchups) {
+    if (matchup.type === 'counter') {
+      if (enemy.has(matchup.targetId)) add(matchup.championId, matchup, 'counters');
+    } else {
+      if (ours.has(matchup.targetId)) add(matchup.championId, matchup, 'synergies');
+      if (ours.has(matchup.championId)) add(matchup.targetId, matchup, 'synergies');
+    }
+  }
+
+  return recommendations;
+}
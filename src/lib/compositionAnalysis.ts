@@ -0,0 +1,66 @@
+import { getChampionAttributes } from '../data/championAttributes';
+import { estimateTeamDamage, type TeamDamageEstimate } from './damageBalance';
+import { COMP_ARCHETYPES, type CompArchetype } from '../types';
+import { NONE_CHAMPION } from '../types/liveDraft';
+
+export type CcDensity = 'low' | 'medium' | 'high';
+
+export interface CompositionAnalysis {
+  championCount: number;
+  /** Dominant comp style, null when no style stands out */
+  archetype: CompArchetype | null;
+  archetypeScores: Record<CompArchetype, number>;
+  damage: TeamDamageEstimate;
+  frontline: number;
+  ccDensity: CcDensity;
+}
+
+// A style needs this much weight before it labels the comp
+const ARCHETYPE_THRESHOLD = 3;
+
+function getCcDensity(averageCc: number): CcDensity {
+  if (averageCc >= 2) return 'high';
+  if (averageCc >= 1.2) return 'medium';
+  return 'low';
+}
+
+/**
+ * Classify a lineup (up to five champions) by comp style, damage mix,
+ * frontline and crowd control. Empty and timed-out slots are ignored.
+ * @param getTags - Data Dragon tags, used for champions without curated attributes
+ */
+export function analyzeComposition(
+  championIds: (string | null)[],
+  getTags: (championId: string) => string[] = () => []
+): CompositionAnalysis | null {
+  const ids = championIds.filter((id): id is string => !!id && id !== NONE_CHAMPION);
+  if (ids.length === 0) return null;
+
+  const archetypeScores = Object.fromEntries(COMP_ARCHETYPES.map((a) => [a.value, 0])) as Record<CompArchetype, number>;
+  let frontline = 0;
+  let cc = 0;
+
+  for (const id of ids) {
+    const attributes = getChampionAttributes(id, getTags(id));
+    // A champion's main style counts double
+    attributes.styles.forEach((style, i) => {
+      archetypeScores[style] += i === 0 ? 2 : 1;
+    });
+    if (attributes.frontline) frontline++;
+    cc += attributes.cc;
+  }
+
+  // Ties go to the earlier archetype in COMP_ARCHETYPES
+  const best = COMP_ARCHETYPES.reduce((top, a) =>
+    archetypeScores[a.value] > archetypeScores[top.value] ? a : top
+  );
+
+  return {
+    championCount: ids.length,
+    archetype: archetypeScores[best.value] >= ARCHETYPE_THRESHOLD ? best.value : null,
+    archetypeScores,
+    damage: estimateTeamDamage(ids, getTags)!,
+    frontline,
+    ccDensity: getCcDensity(cc / ids.length),
+  };
+}
@@ -0,0 +1,46 @@
+import { getChampionDamageProfile } from '../data/championDamage';
+import type { ChampionDamageProfile } from '../types';
+
+// Warn once physical or magic damage makes up this share of a lineup
+export const DAMAGE_WARNING_THRESHOLD = 80;
+
+// Fewer picks than this are too early to call a lineup one-sided
+const MIN_CHAMPIONS_FOR_WARNING = 3;
+
+export interface TeamDamageEstimate extends ChampionDamageProfile {
+  championCount: number;
+}
+
+/**
+ * Average damage profile of a set of champions, in percent. Empty slots are ignored.
+ * @param getTags - Data Dragon tags, used for champions without a curated profile
+ */
+export function estimateTeamDamage(
+  championIds: (string | null)[],
+  getTags: (championId: string) => string[] = () => []
+): TeamDamageEstimate | null {
+  const ids = championIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return null;
+
+  const total = { ad: 0, ap: 0, true: 0 };
+  for (const id of ids) {
+    const profile = getChampionDamageProfile(id, getTags(id));
+    total.ad += profile.ad;
+    total.ap += profile.ap;
+    total.true += profile.true;
+  }
+
+  const ad = Math.round(total.ad / ids.length);
+  const trueDamage = Math.round(total.true / ids.length);
+  return { ad, ap: 100 - ad - trueDamage, true: trueDamage, championCount: ids.length };
+}
+
+/**
+ * Warning text when a lineup leans too far towards one damage type
+ */
+export function getDamageWarning(estimate: TeamDamageEstimate | null): string | null {
+  if (!estimate || estimate.championCount < MIN_CHAMPIONS_FOR_WARNING) return null;
+  if (estimate.ad >= DAMAGE_WARNING_THRESHOLD) return `${estimate.ad}% physical damage — easy to itemize armor against`;
+  if (estimate.ap >= DAMAGE_WARNING_THRESHOLD) return `${estimate.ap}% magic damage — easy to itemize magic resist against`;
+  return null;
+}
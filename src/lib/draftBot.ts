@@ -0,0 +1,169 @@
+import { getChampionRoles } from '../data/championRoles';
+import { inferPickRoles } from './liveDraftRoles';
+import { NONE_CHAMPION, PICK_ROLES, type DraftActionType, type PickRole } from '../types/liveDraft';
+import type { ChampionTier, PlayerPool, Team } from '../types';
+import type { BanCandidate } from '../components/draft/hooks/useDraftAnalytics';
+
+// Deterministic local draft AI for bot-opponent live drafts.
+// Same inputs always produce the same choice, so every client that runs the
+// bot for a given game and step agrees on its action.
+
+const TIER_SCORE: Record<ChampionTier, number> = {
+  S: 100,
+  A: 75,
+  B: 50,
+  C: 25,
+};
+
+// Score for pool champions without tier data (between A and B, like ban scoring)
+const UNKNOWN_TIER_SCORE = 60;
+
+export interface DraftBotInput {
+  actionType: DraftActionType;
+  /** Seed for tie-breaking, e.g. `${gameId}:${actionIndex}` */
+  seed: string;
+  /** The bot's picks so far, in pick order */
+  botPicks: (string | null)[];
+  /** Champions the bot may not pick or ban right now (used, fearless, pre-locked) */
+  unavailable: Set<string>;
+  /** The bot's roster (the session's linked enemy team) */
+  botTeam: Team | null;
+  /** The human captain's roster, if linked */
+  opponentTeam: Team | null;
+  playerPools: PlayerPool[];
+  /** Ban candidates against the opponent, scored like the draft planner */
+  banCandidates: BanCandidate[];
+  /** Every champion ID, used when the bot has no pool data */
+  allChampionIds: string[];
+}
+
+// FNV-1a: small stable string hash for seeded tie-breaks
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function pickSeeded(ids: string[], seed: string): string {
+  const sorted = [...ids].sort();
+  return sorted[hash(seed) % sorted.length];
+}
+
+/**
+ * Champions a team's players have in their pools, with the best tier seen
+ * and the roles they are played in.
+ */
+function collectPool(
+  team: Team | null,
+  playerPools: PlayerPool[]
+): Map<string, { tier: ChampionTier | null; roles: Set<PickRole> }> {
+  const pool = new Map<string, { tier: ChampionTier | null; roles: Set<PickRole> }>();
+  if (!team) return pool;
+
+  for (const player of team.players) {
+    if (player.isSub || !player.summonerName || player.role === 'flex') continue;
+    const role = player.role;
+
+    const normalized = player.summonerName.toLowerCase().trim();
+    const stored = playerPools.find(
+      (p) => p.summonerName.toLowerCase().trim() === normalized && p.role === role
+    );
+    const tiers = new Map(player.championPool?.map((c) => [c.championId, c.tier]) ?? []);
+    const ids = new Set<string>([
+      ...(stored?.championGroups ?? player.championGroups ?? []).flatMap((g) => g.championIds),
+      ...(stored ? [] : tiers.keys()),
+    ]);
+
+    for (const id of ids) {
+      const entry = pool.get(id) ?? { tier: null, roles: new Set<PickRole>() };
+      const tier = tiers.get(id) ?? null;
+      if (tier && (!entry.tier || TIER_SCORE[tier] > TIER_SCORE[entry.tier])) {
+        entry.tier = tier;
+      }
+      entry.roles.add(role);
+      pool.set(id, entry);
+    }
+  }
+
+  return pool;
+}
+
+/** Roles not yet covered by the bot's locked-in picks. */
+export function getOpenRoles(botPicks: (string | null)[]): PickRole[] {
+  const roles = inferPickRoles(botPicks);
+  const taken = new Set(
+    botPicks.flatMap((id, i) => (id && id !== NONE_CHAMPION ? [roles[i]] : []))
+  );
+  return PICK_ROLES.filter((role) => !taken.has(role));
+}
+
+function chooseBan(input: DraftBotInput): string {
+  const botPool = collectPool(input.botTeam, input.playerPools);
+
+  // Highest-scoring threat the bot doesn't want to play itself
+  const candidate =
+    input.banCandidates.find((c) => !input.unavailable.has(c.championId) && !botPool.has(c.championId)) ??
+    input.banCandidates.find((c) => !input.unavailable.has(c.championId));
+  if (candidate) return candidate.championId;
+
+  // No scouting data: ban something outside the bot's own pool
+  const fallback = input.allChampionIds.filter(
+    (id) => !input.unavailable.has(id) && !botPool.has(id)
+  );
+  return fallback.length > 0 ? pickSeeded(fallback, input.seed) : NONE_CHAMPION;
+}
+
+function choosePick(input: DraftBotInput): string {
+  const openRoles = getOpenRoles(input.botPicks);
+  const botPool = collectPool(input.botTeam, input.playerPools);
+  const opponentPool = collectPool(input.opponentTeam, input.playerPools);
+
+  let best: { id: string; score: number } | null = null;
+
+  for (const [id, entry] of botPool) {
+    if (input.unavailable.has(id)) continue;
+    const poolRoles = [...entry.roles].filter((r) => openRoles.includes(r));
+    if (poolRoles.length === 0) continue;
+
+    const championRoles = getChampionRoles(id);
+    let score = entry.tier ? TIER_SCORE[entry.tier] : UNKNOWN_TIER_SCORE;
+    if (poolRoles.some((r) => championRoles[0] === r)) score += 15;
+    else if (poolRoles.some((r) => championRoles.includes(r))) score += 10;
+    if (poolRoles.length > 1) score += 10; // Flex picks hide the bot's lineup
+    if (opponentPool.has(id)) score += 15; // Deny a contested champion
+
+    if (!best || score > best.score || (score === best.score && id < best.id)) {
+      best = { id, score };
+    }
+  }
+
+  if (best) return best.id;
+
+  // Pools exhausted or not linked: a main-role champion for an open role
+  const fallback = input.allChampionIds.filter(
+    (id) => !input.unavailable.has(id) && openRoles.includes(getChampionRoles(id)[0] as PickRole)
+  );
+  if (fallback.length > 0) return pickSeeded(fallback, input.seed);
+
+  const anyAvailable = input.allChampionIds.filter((id) => !input.unavailable.has(id));
+  return anyAvailable.length > 0 ? pickSeeded(anyAvailable, input.seed) : NONE_CHAMPION;
+}
+
+/**
+ * Decide the bot's champion for the current draft step.
+ */
+export function chooseBotAction(input: DraftBotInput): string {
+  return input.actionType === 'ban' ? chooseBan(input) : choosePick(input);
+}
+
+/**
+ * How long the bot "thinks" before acting, in milliseconds. Varies per step
+ * but always leaves a margin before the turn timer runs out.
+ */
+export function getBotThinkTime(seed: string, timeLimitSeconds: number): number {
+  const wanted = 2000 + (hash(seed) % 4000);
+  return Math.max(500, Math.min(wanted, (timeLimitSeconds - 3) * 1000));
+}
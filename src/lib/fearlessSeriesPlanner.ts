@@ -0,0 +1,135 @@
+import { ROLES, type ChampionTier, type Role, type SeriesPlan } from '../types';
+import type { ChampionContext } from '../components/draft/hooks/useDraftAnalytics';
+
+// Fearless series planning: in fearless every champion a team plays is gone
+// for the rest of the series, so comfort picks have to be spread over the games.
+
+const TIER_ORDER: Record<ChampionTier, number> = { S: 0, A: 1, B: 2, C: 3 };
+
+export const SERIES_GAME_COUNTS = [2, 3, 4, 5];
+
+export interface PlayerComfortPool {
+  playerName: string;
+  role: Role;
+  /** Whole pool, best tier first */
+  champions: string[];
+  /** S/A-tier champions, or the whole pool when the player has no tier data */
+  comfort: string[];
+  hasTierData: boolean;
+}
+
+export interface SeriesComfortWarning {
+  gameNumber: number;
+  playerName: string;
+  role: Role;
+}
+
+export interface EnemyExhaustion {
+  playerName: string;
+  role: Role;
+  comfortCount: number;
+  /** First game the player has no comfort pick left, null if it lasts the series */
+  runsOutAtGame: number | null;
+  /** Comfort picks likely spent before the last game, best first */
+  likelyExhausted: string[];
+}
+
+export function createSeriesPlan(gameCount: number): SeriesPlan {
+  return { gameCount, games: Array.from({ length: gameCount }, () => []) };
+}
+
+/**
+ * Resize a plan, keeping the assignments of the games that remain
+ */
+export function resizeSeriesPlan(plan: SeriesPlan, gameCount: number): SeriesPlan {
+  return {
+    gameCount,
+    games: Array.from({ length: gameCount }, (_, i) => plan.games[i] ?? []),
+  };
+}
+
+/**
+ * Player pools of one side from the draft analytics, in role order
+ */
+export function getComfortPools(
+  allChampions: Map<string, ChampionContext[]>,
+  side: 'my' | 'enemy'
+): PlayerComfortPool[] {
+  const byPlayer = new Map<string, { playerName: string; role: Role; tiers: Map<string, ChampionTier | undefined> }>();
+
+  for (const [championId, contexts] of allChampions) {
+    for (const ctx of contexts) {
+      if (ctx.side !== side || ctx.sourceType !== 'player' || !ctx.role) continue;
+      const key = `${ctx.source.toLowerCase()}:${ctx.role}`;
+      const entry = byPlayer.get(key) ?? { playerName: ctx.source, role: ctx.role, tiers: new Map() };
+      entry.tiers.set(championId, ctx.tier);
+      byPlayer.set(key, entry);
+    }
+  }
+
+  const roleIndex = (role: Role) => {
+    const index = ROLES.findIndex((r) => r.value === role);
+    return index === -1 ? ROLES.length : index;
+  };
+
+  return [...byPlayer.values()]
+    .sort((a, b) => roleIndex(a.role) - roleIndex(b.role))
+    .map(({ playerName, role, tiers }) => {
+      const rank = (id: string) => {
+        const tier = tiers.get(id);
+        return tier ? TIER_ORDER[tier] : Object.keys(TIER_ORDER).length;
+      };
+      const champions = [...tiers.keys()].sort((a, b) => rank(a) - rank(b));
+      const hasTierData = [...tiers.values()].some((tier) => tier !== undefined);
+      const comfort = hasTierData
+        ? champions.filter((id) => tiers.get(id) === 'S' || tiers.get(id) === 'A')
+        : champions;
+      return { playerName, role, champions, comfort, hasTierData };
+    });
+}
+
+/**
+ * Champions assigned to any game other than the given one (0-based)
+ */
+export function getChampionsUsedElsewhere(plan: SeriesPlan, gameIndex: number): Set<string> {
+  const used = new Set<string>();
+  plan.games.forEach((picks, i) => {
+    if (i !== gameIndex) picks.forEach((p) => used.add(p.championId));
+  });
+  return used;
+}
+
+/**
+ * Games where one of our players has no comfort champion left, because the
+ * plan already spends all of them in earlier games
+ */
+export function getComfortWarnings(plan: SeriesPlan, pools: PlayerComfortPool[]): SeriesComfortWarning[] {
+  const warnings: SeriesComfortWarning[] = [];
+  const spent = new Set<string>();
+
+  plan.games.forEach((picks, i) => {
+    for (const pool of pools) {
+      if (pool.comfort.length > 0 && pool.comfort.every((id) => spent.has(id))) {
+        warnings.push({ gameNumber: i + 1, playerName: pool.playerName, role: pool.role });
+      }
+    }
+    picks.forEach((p) => spent.add(p.championId));
+  });
+
+  return warnings;
+}
+
+/**
+ * Assuming each enemy player spends one comfort pick per game, best first
+ */
+export function getEnemyExhaustion(gameCount: number, pools: PlayerComfortPool[]): EnemyExhaustion[] {
+  return pools
+    .filter((pool) => pool.comfort.length > 0)
+    .map((pool) => ({
+      playerName: pool.playerName,
+      role: pool.role,
+      comfortCount: pool.comfort.length,
+      runsOutAtGame: pool.comfort.length < gameCount ? pool.comfort.length + 1 : null,
+      likelyExhausted: pool.comfort.slice(0, gameCount - 1),
+    }));
+}
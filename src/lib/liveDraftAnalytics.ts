@@ -0,0 +1,165 @@
+import { NONE_CHAMPION } from '../types/liveDraft';
+import type {
+  DraftMode,
+  DraftSide,
+  LiveDraftAction,
+  LiveDraftGame,
+  LiveDraftSession,
+  TeamSide,
+} from '../types/liveDraft';
+
+export interface TeamDraftAnalyticsFilters {
+  /** Inclusive, YYYY-MM-DD (compared against when the game finished) */
+  from: string | null;
+  to: string | null;
+  draftMode: DraftMode | 'all';
+}
+
+/** Win/loss record; games without a recorded winner don't count */
+export interface WinRecord {
+  games: number;
+  wins: number;
+}
+
+export interface ChampionUsage extends WinRecord {
+  championId: string;
+  /** Times picked or banned, including games without a result */
+  count: number;
+}
+
+export interface OpponentRecord extends WinRecord {
+  name: string;
+  /** Games played, including games without a result */
+  count: number;
+}
+
+export interface TeamDraftAnalytics {
+  /** Completed games that passed the filters */
+  totalGames: number;
+  overall: WinRecord;
+  sides: Record<DraftSide, WinRecord>;
+  mostPicked: ChampionUsage[];
+  mostBanned: ChampionUsage[];
+  /** Champions banned against the team */
+  bannedAgainst: ChampionUsage[];
+  /** The team's first pick of every game */
+  firstPicks: ChampionUsage[];
+  opponents: OpponentRecord[];
+}
+
+export interface TeamDraftHistory {
+  sessions: LiveDraftSession[];
+  games: LiveDraftGame[];
+  actions: LiveDraftAction[];
+}
+
+function emptyRecord(): WinRecord {
+  return { games: 0, wins: 0 };
+}
+
+function addResult(record: WinRecord, won: boolean | null) {
+  if (won === null) return;
+  record.games += 1;
+  if (won) record.wins += 1;
+}
+
+/**
+ * Win rate in percent, or null when there are no decided games
+ */
+export function getWinRate(record: WinRecord): number | null {
+  return record.games > 0 ? Math.round((record.wins / record.games) * 100) : null;
+}
+
+function inDateRange(game: LiveDraftGame, filters: TeamDraftAnalyticsFilters): boolean {
+  const day = (game.completed_at ?? game.created_at).slice(0, 10);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  return true;
+}
+
+function tallyChampion(usage: Map<string, ChampionUsage>, championId: string | null, won: boolean | null) {
+  if (!championId || championId === NONE_CHAMPION) return;
+  const entry = usage.get(championId) ?? { championId, count: 0, games: 0, wins: 0 };
+  entry.count += 1;
+  addResult(entry, won);
+  usage.set(championId, entry);
+}
+
+function byCount<T extends { count: number; wins: number }>(entries: Iterable<T>): T[] {
+  return [...entries].sort((a, b) => b.count - a.count || b.wins - a.wins);
+}
+
+/**
+ * Aggregate a team's completed live draft games. The team is whichever
+ * side of each session was linked to teamId; sides can swap between games.
+ */
+export function computeTeamDraftAnalytics(
+  teamId: string,
+  history: TeamDraftHistory,
+  filters: TeamDraftAnalyticsFilters
+): TeamDraftAnalytics {
+  const sessionsById = new Map(history.sessions.map((s) => [s.id, s]));
+  const actionsByGame = new Map<string, LiveDraftAction[]>();
+  history.actions.forEach((action) => {
+    const list = actionsByGame.get(action.game_id) ?? [];
+    list.push(action);
+    actionsByGame.set(action.game_id, list);
+  });
+
+  const overall = emptyRecord();
+  const sides: Record<DraftSide, WinRecord> = { blue: emptyRecord(), red: emptyRecord() };
+  const picked = new Map<string, ChampionUsage>();
+  const banned = new Map<string, ChampionUsage>();
+  const bannedAgainst = new Map<string, ChampionUsage>();
+  const firstPicks = new Map<string, ChampionUsage>();
+  const opponents = new Map<string, OpponentRecord>();
+  let totalGames = 0;
+
+  for (const game of history.games) {
+    const session = sessionsById.get(game.session_id);
+    if (!session || game.status !== 'completed') continue;
+    if (filters.draftMode !== 'all' && session.draft_mode !== filters.draftMode) continue;
+    if (!inDateRange(game, filters)) continue;
+
+    const ourTeam: TeamSide = session.team1_linked_team_id === teamId ? 'team1' : 'team2';
+    const ourSide: DraftSide = game.blue_side_team === ourTeam ? 'blue' : 'red';
+    const won = game.winner ? game.winner === ourSide : null;
+
+    totalGames += 1;
+    addResult(overall, won);
+    addResult(sides[ourSide], won);
+
+    const actions = [...(actionsByGame.get(game.id) ?? [])].sort((a, b) => a.action_index - b.action_index);
+    let hadFirstPick = false;
+    for (const action of actions) {
+      const ours = action.team === ourSide;
+      if (action.action_type === 'pick' && ours) {
+        tallyChampion(picked, action.champion_id, won);
+        if (!hadFirstPick) {
+          tallyChampion(firstPicks, action.champion_id, won);
+          hadFirstPick = true;
+        }
+      } else if (action.action_type === 'ban') {
+        tallyChampion(ours ? banned : bannedAgainst, action.champion_id, won);
+      }
+    }
+
+    const opponentName = ourTeam === 'team1' ? session.team2_name : session.team1_name;
+    const key = opponentName.trim().toLowerCase();
+    const opponent = opponents.get(key) ?? { name: opponentName.trim(), count: 0, games: 0, wins: 0 };
+    opponent.count += 1;
+    addResult(opponent, won);
+    opponents.set(key, opponent);
+  }
+
+  return {
+    totalGames,
+    overall,
+    sides,
+    mostPicked: byCount(picked.values()),
+    mostBanned: byCount(banned.values()),
+    bannedAgainst: byCount(bannedAgainst.values()),
+    firstPicks: byCount(firstPicks.values()),
+    opponents: byCount(opponents.values()),
+  };
+}
@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import type { DbLiveDraftCoach, DbLiveDraftCoachProposal, TeamSide } from '../types/liveDraft';
+
+// Coach tables are not part of the generated Database types yet
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const coachesTable = () => (supabase!.from as any)('live_draft_coaches');
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const feedTable = () => (supabase!.from as any)('live_draft_coach_proposals');
+
+export const liveDraftCoachService = {
+  /**
+   * Captain only: the private coach invite link for the caller's team
+   */
+  async getCoachInviteUrl(sessionId: string): Promise<string> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('get_live_draft_coach_token', {
+      p_session_id: sessionId,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to create coach link');
+    }
+
+    return `${window.location.origin}/live-draft/coach/${data.token}`;
+  },
+
+  /**
+   * Join a team as coach through its invite token (signed-in users only)
+   */
+  async joinAsCoach(token: string, displayName?: string): Promise<{ sessionId: string; team: TeamSide }> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('join_live_draft_as_coach', {
+      p_token: token,
+      p_display_name: displayName ?? null,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to join as coach');
+    }
+
+    return { sessionId: data.session_id as string, team: data.team as TeamSide };
+  },
+
+  /**
+   * Coaches of a session (public)
+   */
+  async getCoaches(sessionId: string): Promise<DbLiveDraftCoach[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await coachesTable()
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DbLiveDraftCoach[];
+  },
+
+  /**
+   * Remove a coach (the coach themselves or their captain)
+   */
+  async removeCoach(sessionId: string, userId: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const { error } = await coachesTable().delete().eq('session_id', sessionId).eq('user_id', userId);
+    if (error) throw error;
+  },
+
+  /**
+   * The caller's team coaching feed. RLS only returns rows of the team the
+   * caller captains or coaches, so this is empty for everyone else.
+   */
+  async getFeed(sessionId: string): Promise<DbLiveDraftCoachProposal[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await feedTable()
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as DbLiveDraftCoachProposal[];
+  },
+
+  /**
+   * Coach: propose a champion for the current step of the team's turn
+   */
+  async proposeChampion(gameId: string, championId: string, note?: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('propose_live_draft_champion', {
+      p_game_id: gameId,
+      p_champion_id: championId,
+      p_kind: 'proposal',
+      p_note: note ?? null,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to propose champion');
+    }
+  },
+
+  /**
+   * Coach: share the champion currently being looked at with the captain
+   */
+  async setHover(gameId: string, championId: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('propose_live_draft_champion', {
+      p_game_id: gameId,
+      p_champion_id: championId,
+      p_kind: 'hover',
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to share hover');
+    }
+  },
+
+  /**
+   * Add a team-private note (captain or coach)
+   */
+  async addNote(sessionId: string, team: TeamSide, note: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const trimmed = note.trim();
+    if (!trimmed) throw new Error('Note cannot be empty');
+    if (trimmed.length > 200) throw new Error('Note must be 200 characters or less');
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user?.id;
+    if (!userId) throw new Error('Sign in to add notes');
+
+    const { error } = await feedTable().insert({
+      session_id: sessionId,
+      team,
+      kind: 'note',
+      note: trimmed,
+      created_by: userId,
+    });
+
+    if (error) throw error;
+  },
+
+  /**
+   * Dismiss a proposal or note from the team feed
+   */
+  async dismiss(entryId: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const { error } = await feedTable().delete().eq('id', entryId);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,203 @@
+import {
+  DRAFT_MODE_LABELS,
+  NONE_CHAMPION,
+  getSeriesScore,
+  getUnavailableEntryTeam,
+  type DbLiveDraftUnavailableChampion,
+  type DraftSide,
+  type LiveDraftGame,
+  type LiveDraftSession,
+  type TeamSide,
+} from '../types/liveDraft';
+import { getLineup } from './liveDraftRoles';
+
+export interface SeriesReportTeamGame {
+  side: DraftSide;
+  bans: string[];
+  /** Final lineup in role order (top → support), not pick order */
+  picks: string[];
+  firstPick: string | null;
+}
+
+export interface SeriesReportGame {
+  gameNumber: number;
+  winner: TeamSide | null;
+  team1: SeriesReportTeamGame;
+  team2: SeriesReportTeamGame;
+}
+
+export interface SeriesReportTeamSummary {
+  name: string;
+  wins: number;
+  /** Champions this team can no longer pick because of fearless/ironman */
+  fearlessPool: string[];
+  /** Champions banned by this team in more than one game, most frequent first */
+  repeatedBans: { championId: string; count: number }[];
+  /** Champion locked in with this team's first pick, per game */
+  firstPicks: { gameNumber: number; championId: string; side: DraftSide }[];
+}
+
+export interface SeriesReport {
+  sessionId: string;
+  sessionName: string;
+  draftMode: LiveDraftSession['draft_mode'];
+  completedAt: string | null;
+  team1: SeriesReportTeamSummary;
+  team2: SeriesReportTeamSummary;
+  games: SeriesReportGame[];
+}
+
+const filled = (ids: (string | null)[]) =>
+  ids.filter((id): id is string => !!id && id !== NONE_CHAMPION);
+
+function teamSideInGame(game: LiveDraftGame, team: TeamSide): DraftSide {
+  return game.blue_side_team === team ? 'blue' : 'red';
+}
+
+function teamGame(game: LiveDraftGame, team: TeamSide): SeriesReportTeamGame {
+  const side = teamSideInGame(game, team);
+  const picks = side === 'blue' ? game.blue_picks : game.red_picks;
+  const bans = side === 'blue' ? game.blue_bans : game.red_bans;
+  const firstPick = picks[0] && picks[0] !== NONE_CHAMPION ? picks[0] : null;
+
+  return { side, bans: filled(bans), picks: filled(getLineup(game, side)), firstPick };
+}
+
+function winnerTeam(game: LiveDraftGame): TeamSide | null {
+  if (!game.winner) return null;
+  return game.winner === 'blue'
+    ? game.blue_side_team
+    : game.blue_side_team === 'team1' ? 'team2' : 'team1';
+}
+
+/**
+ * Teams a fearless/ironman entry applies to. Ironman entries (team = null)
+ * apply to both teams.
+ */
+function unavailableTeams(
+  entry: DbLiveDraftUnavailableChampion,
+  games: LiveDraftGame[]
+): TeamSide[] {
+  if (!entry.team) return ['team1', 'team2'];
+  const team = getUnavailableEntryTeam(entry, games);
+  return team ? [team] : [];
+}
+
+/**
+ * Build a post-series report from the completed games of a live draft session.
+ */
+export function buildSeriesReport(
+  session: LiveDraftSession,
+  allGames: LiveDraftGame[],
+  unavailable: DbLiveDraftUnavailableChampion[]
+): SeriesReport {
+  const games = allGames
+    .filter((g) => g.status === 'completed')
+    .sort((a, b) => a.game_number - b.game_number);
+  const score = getSeriesScore(games);
+
+  const reportGames: SeriesReportGame[] = games.map((game) => ({
+    gameNumber: game.game_number,
+    winner: winnerTeam(game),
+    team1: teamGame(game, 'team1'),
+    team2: teamGame(game, 'team2'),
+  }));
+
+  const summarize = (team: TeamSide): SeriesReportTeamSummary => {
+    const banCounts = new Map<string, number>();
+    for (const g of reportGames) {
+      for (const id of g[team].bans) {
+        banCounts.set(id, (banCounts.get(id) ?? 0) + 1);
+      }
+    }
+
+    const fearlessPool = session.draft_mode === 'normal'
+      ? []
+      : [...new Set(
+          unavailable
+            .filter((uc) => session.draft_mode !== 'fearless' || uc.reason === 'picked')
+            .filter((uc) => unavailableTeams(uc, games).includes(team))
+            .map((uc) => uc.champion_id)
+        )];
+
+    return {
+      name: team === 'team1' ? session.team1_name : session.team2_name,
+      wins: score[team],
+      fearlessPool,
+      repeatedBans: [...banCounts.entries()]
+        .filter(([, count]) => count > 1)
+        .sort((a, b) => b[1] - a[1])
+        .map(([championId, count]) => ({ championId, count })),
+      firstPicks: reportGames
+        .filter((g) => g[team].firstPick)
+        .map((g) => ({ gameNumber: g.gameNumber, championId: g[team].firstPick!, side: g[team].side })),
+    };
+  };
+
+  return {
+    sessionId: session.id,
+    sessionName: session.name,
+    draftMode: session.draft_mode,
+    completedAt: session.completed_at,
+    team1: summarize('team1'),
+    team2: summarize('team2'),
+    games: reportGames,
+  };
+}
+
+/**
+ * Render a series report as Markdown.
+ * @param championName - maps champion IDs to display names
+ */
+export function seriesReportToMarkdown(
+  report: SeriesReport,
+  championName: (id: string) => string
+): string {
+  const names = (ids: string[]) => (ids.length ? ids.map(championName).join(', ') : '—');
+  const lines: string[] = [];
+
+  lines.push(`# ${report.sessionName}`);
+  lines.push('');
+  lines.push(`**${report.team1.name} ${report.team1.wins} – ${report.team2.wins} ${report.team2.name}** · ${DRAFT_MODE_LABELS[report.draftMode]} draft`);
+  lines.push('');
+
+  for (const game of report.games) {
+    const winner = game.winner ? report[game.winner].name : 'Not recorded';
+    lines.push(`## Game ${game.gameNumber}`);
+    lines.push('');
+    lines.push(`Winner: ${winner}`);
+    lines.push('');
+    lines.push('| Team | Side | Bans | Lineup |');
+    lines.push('| --- | --- | --- | --- |');
+    for (const team of ['team1', 'team2'] as const) {
+      const t = game[team];
+      lines.push(`| ${report[team].name} | ${t.side} | ${names(t.bans)} | ${names(t.picks)} |`);
+    }
+    lines.push('');
+  }
+
+  for (const team of ['team1', 'team2'] as const) {
+    const summary = report[team];
+    lines.push(`## ${summary.name}`);
+    lines.push('');
+    lines.push(`- First picks: ${summary.firstPicks.length
+      ? summary.firstPicks.map((fp) => `G${fp.gameNumber} ${championName(fp.championId)} (${fp.side})`).join(', ')
+      : '—'}`);
+    lines.push(`- Repeated bans: ${summary.repeatedBans.length
+      ? summary.repeatedBans.map((b) => `${championName(b.championId)} ×${b.count}`).join(', ')
+      : '—'}`);
+    if (report.draftMode !== 'normal') {
+      lines.push(`- ${DRAFT_MODE_LABELS[report.draftMode]} pool used: ${names(summary.fearlessPool)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a series report as pretty-printed JSON.
+ */
+export function seriesReportToJson(report: SeriesReport): string {
+  return JSON.stringify(report, null, 2);
+}
@@ -0,0 +1,72 @@
+import type { DraftSession, LiveDraftResult, PlannedBanOutcome } from '../types';
+import { NONE_CHAMPION, type LiveDraftGame, type LiveDraftSession, type TeamSide } from '../types/liveDraft';
+
+const filled = (ids: (string | null)[]) =>
+  ids.filter((id): id is string => !!id && id !== NONE_CHAMPION);
+
+/**
+ * Snapshot of a completed live draft game from one team's point of view,
+ * with every planned ban of the linked draft tagged by what happened to it.
+ * Pass the `previous` snapshot of the game to rebuild it after a post-game
+ * correction: its planned-ban list is kept, only the outcomes are re-tagged.
+ */
+export function buildLiveDraftResult(
+  session: LiveDraftSession,
+  game: LiveDraftGame,
+  team: TeamSide,
+  draft: DraftSession,
+  previous?: LiveDraftResult
+): LiveDraftResult {
+  const side = game.blue_side_team === team ? 'blue' : 'red';
+  const ourBans = filled(side === 'blue' ? game.blue_bans : game.red_bans);
+  const theirBans = filled(side === 'blue' ? game.red_bans : game.blue_bans);
+  const ourPicks = filled(side === 'blue' ? game.blue_picks : game.red_picks);
+  const theirPicks = filled(side === 'blue' ? game.red_picks : game.blue_picks);
+
+  const outcomeOf = (championId: string): PlannedBanOutcome => {
+    if (ourBans.includes(championId)) return 'banned';
+    if (theirBans.includes(championId)) return 'banned_by_enemy';
+    if (ourPicks.includes(championId)) return 'picked';
+    if (theirPicks.includes(championId)) return 'picked_by_enemy';
+    return 'open';
+  };
+
+  const planned = previous
+    ? previous.plannedBans.map((b) => b.championId)
+    : [...new Set((draft.banGroups || []).flatMap((g) => g.championIds))];
+
+  return {
+    liveGameId: game.id,
+    liveSessionId: session.id,
+    liveSessionName: session.name,
+    gameNumber: game.game_number,
+    opponentName: team === 'team1' ? session.team2_name : session.team1_name,
+    side,
+    won: game.winner ? game.winner === side : null,
+    ourBans,
+    theirBans,
+    ourPicks,
+    theirPicks,
+    plannedBans: planned.map((championId) => ({ championId, outcome: outcomeOf(championId) })),
+    completedAt: previous?.completedAt ?? (game.completed_at ? new Date(game.completed_at).getTime() : Date.now()),
+  };
+}
+
+/**
+ * Whether two snapshots of the same game record the same draft and result
+ */
+export function isSameLiveDraftResult(a: LiveDraftResult, b: LiveDraftResult): boolean {
+  const key = (r: LiveDraftResult) =>
+    JSON.stringify([r.won, r.ourBans, r.theirBans, r.ourPicks, r.theirPicks, r.plannedBans]);
+  return key(a) === key(b);
+}
+
+/**
+ * Share of planned bans that ended up banned by us, in percent (null without planned bans)
+ */
+export function getPrepAccuracy(results: LiveDraftResult[]): number | null {
+  const planned = results.flatMap((r) => r.plannedBans);
+  if (planned.length === 0) return null;
+  const banned = planned.filter((b) => b.outcome === 'banned').length;
+  return Math.round((banned / planned.length) * 100);
+}
@@ -0,0 +1,125 @@
+import { getChampionRoles } from '../data/championRoles';
+import {
+  NONE_CHAMPION,
+  PICK_ROLES,
+  type DraftSide,
+  type LiveDraftGame,
+  type PickRole,
+} from '../types/liveDraft';
+import type { Player, Team } from '../types';
+
+// How well a champion fits a role: main role > secondary role > off-role
+function roleFit(championId: string | null, role: PickRole): number {
+  if (!championId || championId === NONE_CHAMPION) return 0;
+  const index = getChampionRoles(championId).indexOf(role);
+  if (index === -1) return 0;
+  return index === 0 ? 3 : 2;
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+const ROLE_PERMUTATIONS = permutations(PICK_ROLES);
+
+/**
+ * Guess the role of each pick slot from champion role data.
+ * Tries every role permutation and keeps the best fit, so flex picks
+ * end up wherever the rest of the team leaves a gap.
+ */
+export function inferPickRoles(picks: (string | null)[]): PickRole[] {
+  let best = PICK_ROLES;
+  let bestScore = -1;
+
+  for (const candidate of ROLE_PERMUTATIONS) {
+    const score = candidate.reduce((sum, role, i) => sum + roleFit(picks[i] ?? null, role), 0);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function isCompleteAssignment(roles: (PickRole | null)[] | null): roles is PickRole[] {
+  return (
+    !!roles &&
+    roles.length === PICK_ROLES.length &&
+    PICK_ROLES.every((role) => roles.includes(role))
+  );
+}
+
+/**
+ * Role per pick slot for one side: the captain's assignment if saved,
+ * otherwise inferred from the picked champions.
+ */
+export function getPickRoles(game: LiveDraftGame, side: DraftSide): PickRole[] {
+  const stored = side === 'blue' ? game.blue_roles : game.red_roles;
+  if (isCompleteAssignment(stored)) return stored;
+  return inferPickRoles(side === 'blue' ? game.blue_picks : game.red_picks);
+}
+
+/**
+ * Whether a captain has saved a role assignment for this side.
+ */
+export function hasAssignedRoles(game: LiveDraftGame, side: DraftSide): boolean {
+  return isCompleteAssignment(side === 'blue' ? game.blue_roles : game.red_roles);
+}
+
+/**
+ * Final lineup for one side in role order (top → support): the stored lineup
+ * from the trade phase if there is one, otherwise picks arranged by role.
+ */
+export function getLineup(game: LiveDraftGame, side: DraftSide): (string | null)[] {
+  const stored = side === 'blue' ? game.blue_lineup : game.red_lineup;
+  if (stored && stored.length === PICK_ROLES.length) return stored;
+
+  const picks = side === 'blue' ? game.blue_picks : game.red_picks;
+  const roles = getPickRoles(game, side);
+  return PICK_ROLES.map((role) => picks[roles.indexOf(role)] ?? null);
+}
+
+/**
+ * Move a pick onto a role. The pick that held that role takes over the
+ * moved pick's previous role, like a champ-select swap.
+ */
+export function swapPickRole(roles: PickRole[], pickIndex: number, role: PickRole): PickRole[] {
+  const next = [...roles];
+  const otherIndex = next.indexOf(role);
+  if (otherIndex === -1 || otherIndex === pickIndex) return next;
+  next[otherIndex] = next[pickIndex];
+  next[pickIndex] = role;
+  return next;
+}
+
+export interface RoleAssignment {
+  role: PickRole;
+  pickIndex: number;
+  championId: string | null;
+  player: Player | null;
+}
+
+/**
+ * Pair each role with its pick and, when a team is linked, the main-roster
+ * player for that role.
+ */
+export function matchPlayersToPicks(
+  team: Team | null,
+  picks: (string | null)[],
+  roles: PickRole[]
+): RoleAssignment[] {
+  return PICK_ROLES.map((role) => {
+    const pickIndex = roles.indexOf(role);
+    const championId = picks[pickIndex] ?? null;
+    return {
+      role,
+      pickIndex,
+      championId: championId && championId !== NONE_CHAMPION ? championId : null,
+      player: team?.players.find((p) => !p.isSub && p.role === role) ?? null,
+    };
+  });
+}
@@ -1,22 +1,63 @@
 import { supabase } from './supabase';
 import { checkModerationAndRecord, getViolationWarning } from './moderation';
+import type { TeamDraftHistory } from './liveDraftAnalytics';
 import {
   DRAFT_ORDER,
+  DRAFT_ORDER_TEMPLATES,
+  getDraftStep,
+  resolveDraftOrder,
+  validateDraftOrder,
   type DbLiveDraftSession,
   type DbLiveDraftGame,
   type DbLiveDraftParticipant,
   type DbLiveDraftMessage,
+  type DbLiveDraftAction,
   type DbLiveDraftUnavailableChampion,
+  type DbLiveDraftUndoRequest,
   type LiveDraftSession,
   type LiveDraftGame,
   type LiveDraftParticipant,
   type LiveDraftMessage,
+  type LiveDraftAction,
   type CreateLiveDraftSessionConfig,
   type JoinSessionResult,
   type DraftSide,
   type DraftMode,
+  type DraftOrderStep,
+  type PickRole,
 } from '../types/liveDraft';
 
+// Sessions or games per id list when loading team analytics
+const ANALYTICS_ID_BATCH = 100;
+
+// PostgREST caps every response at this many rows
+const MAX_ROWS_PER_REQUEST = 1000;
+
+/**
+ * Fetch every row of a query, one range at a time until a short page comes back.
+ * The query should have a stable order so pages don't overlap.
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += MAX_ROWS_PER_REQUEST) {
+    const { data, error } = await fetchPage(from, from + MAX_ROWS_PER_REQUEST - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+  }
+}
+
+/** Run `fetchBatch` over `ids` in batches short enough for the request URL */
+async function fetchInBatches<T>(ids: string[], fetchBatch: (batch: string[]) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ANALYTICS_ID_BATCH) {
+    rows.push(...(await fetchBatch(ids.slice(i, i + ANALYTICS_ID_BATCH))));
+  }
+  return rows;
+}
+
 // ============================================
 // MAPPERS
 // ============================================
@@ -37,6 +78,10 @@ function mapMessage(row: DbLiveDraftMessage): LiveDraftMessage {
   return { ...row };
 }
 
+function mapAction(row: DbLiveDraftAction): LiveDraftAction {
+  return { ...row };
+}
+
 // ============================================
 // HELPERS
 // ============================================
@@ -62,6 +107,20 @@ async function enrichSessionAvatars(session: LiveDraftSession): Promise<void> {
   }
 }
 
+/** Fetch the draft order of the session a game belongs to. */
+async function getDraftOrderForGame(gameId: string): Promise<DraftOrderStep[]> {
+  if (!supabase) return DRAFT_ORDER;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase.from('live_draft_games') as any)
+    .select('session:live_draft_sessions(draft_order, draft_order_template)')
+    .eq('id', gameId)
+    .single();
+
+  if (error) throw error;
+  return data?.session ? resolveDraftOrder(data.session) : DRAFT_ORDER;
+}
+
 // ============================================
 // SERVICE
 // ============================================
@@ -93,20 +152,35 @@ export const liveDraftService = {
       if (modResult.flagged) throw new Error(getViolationWarning(modResult));
     }
 
+    const draftOrderTemplate = config.draftOrderTemplate ?? 'standard';
+    const draftOrder = draftOrderTemplate === 'custom'
+      ? config.customDraftOrder ?? []
+      : DRAFT_ORDER_TEMPLATES[draftOrderTemplate].steps;
+    const orderError = validateDraftOrder(draftOrder);
+    if (orderError) throw new Error(orderError);
+
     const { data: { session: authSession } } = await supabase.auth.getSession();
 
     const insertData: Partial<DbLiveDraftSession> = {
       name: config.name,
       created_by: authSession?.user?.id ?? null,
       draft_mode: config.draftMode,
+      fearless_carryover_games: config.fearlessCarryoverGames ?? null,
+      locked_champions: config.lockedChampions ?? [],
       planned_games: config.plannedGames,
       pick_time_seconds: config.pickTimeSeconds,
       ban_time_seconds: config.banTimeSeconds,
+      draft_order_template: draftOrderTemplate,
+      draft_order: draftOrder,
+      timeouts_per_team: config.timeoutsPerTeam ?? 1,
+      trade_phase_seconds: config.tradePhaseSeconds ?? 0,
+      bot_opponent: config.vsBot ?? false,
       team1_name: config.team1Name || 'Team 1',
       team2_name: config.team2Name || 'Team 2',
       team1_linked_draft_id: config.linkedDraftId ?? null,
       team1_linked_team_id: config.linkedTeamId ?? null,
       team1_linked_enemy_id: config.linkedEnemyId ?? null,
+      team2_linked_enemy_id: config.vsBot ? config.botEnemyTeamId ?? null : null,
       // Do NOT auto-assign captain - user picks their team in lobby
       team1_captain_id: null,
       team2_captain_id: null,
@@ -131,6 +205,40 @@ export const liveDraftService = {
     return session;
   },
 
+  /**
+   * Rebuild the creation config of an existing session (used for rematches)
+   */
+  getSessionConfig(session: LiveDraftSession): CreateLiveDraftSessionConfig {
+    return {
+      name: session.name,
+      draftMode: session.draft_mode,
+      fearlessCarryoverGames: session.fearless_carryover_games,
+      lockedChampions: session.locked_champions,
+      plannedGames: session.planned_games,
+      pickTimeSeconds: session.pick_time_seconds,
+      banTimeSeconds: session.ban_time_seconds,
+      draftOrderTemplate: session.draft_order_template,
+      customDraftOrder: session.draft_order_template === 'custom' ? session.draft_order : undefined,
+      timeoutsPerTeam: session.timeouts_per_team,
+      tradePhaseSeconds: session.trade_phase_seconds,
+      team1Name: session.team1_name,
+      team2Name: session.team2_name,
+      linkedDraftId: session.team1_linked_draft_id ?? undefined,
+      linkedTeamId: session.team1_linked_team_id ?? undefined,
+      linkedEnemyId: session.team1_linked_enemy_id ?? undefined,
+      vsBot: session.bot_opponent,
+      botEnemyTeamId: session.bot_opponent ? session.team2_linked_enemy_id ?? undefined : undefined,
+    };
+  },
+
+  /**
+   * Start a new session with the same settings as a finished one. The new
+   * session gets its own invite and spectator tokens.
+   */
+  async rematchSession(session: LiveDraftSession): Promise<LiveDraftSession> {
+    return this.createSession(this.getSessionConfig(session));
+  },
+
   /**
    * Get all sessions for the current user (excludes hidden sessions)
    */
@@ -270,6 +378,73 @@ export const liveDraftService = {
     return session;
   },
 
+  /**
+   * Get a session only if it changed after the given updated_at (for resync)
+   */
+  async getSessionIfChanged(sessionId: string, updatedAt: string): Promise<LiveDraftSession | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('live_draft_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .gt('updated_at', updatedAt)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const session = mapSession(data as DbLiveDraftSession);
+    await enrichSessionAvatars(session);
+    return session;
+  },
+
+  /**
+   * Everything team draft analytics needs: the sessions a team was linked to,
+   * their completed games and the actions of those games
+   */
+  async getTeamDraftHistory(teamId: string): Promise<TeamDraftHistory> {
+    if (!supabase) return { sessions: [], games: [], actions: [] };
+
+    const sessionRows = await fetchAllRows((from, to) =>
+      supabase!
+        .from('live_draft_sessions')
+        .select('*')
+        .or(`team1_linked_team_id.eq.${teamId},team2_linked_team_id.eq.${teamId}`)
+        .order('id')
+        .range(from, to)
+    );
+    const sessions = sessionRows.map((row) => mapSession(row as DbLiveDraftSession));
+    if (sessions.length === 0) return { sessions, games: [], actions: [] };
+
+    const gameRows = await fetchInBatches(sessions.map((s) => s.id), (sessionIds) =>
+      fetchAllRows((from, to) =>
+        supabase!
+          .from('live_draft_games')
+          .select('*')
+          .in('session_id', sessionIds)
+          .eq('status', 'completed')
+          .order('id')
+          .range(from, to)
+      )
+    );
+    const games = gameRows.map((row) => mapGame(row as DbLiveDraftGame));
+
+    const actionRows = await fetchInBatches(games.map((g) => g.id), (gameIds) =>
+      fetchAllRows((from, to) =>
+        supabase!
+          .from('live_draft_actions')
+          .select('*')
+          .in('game_id', gameIds)
+          .neq('action_type', 'undo')
+          .order('id')
+          .range(from, to)
+      )
+    );
+    const actions = actionRows.map((row) => mapAction(row as DbLiveDraftAction));
+
+    return { sessions, games, actions };
+  },
+
   /**
    * Get a session by invite token
    */
@@ -487,6 +662,23 @@ export const liveDraftService = {
     return (data || []).map((row) => mapGame(row as DbLiveDraftGame));
   },
 
+  /**
+   * Get the games of a session that changed after the given updated_at (for resync)
+   */
+  async getGamesChangedSince(sessionId: string, updatedAt: string): Promise<LiveDraftGame[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('live_draft_games')
+      .select('*')
+      .eq('session_id', sessionId)
+      .gt('updated_at', updatedAt)
+      .order('game_number', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row) => mapGame(row as DbLiveDraftGame));
+  },
+
   /**
    * Get a specific game
    */
@@ -507,6 +699,41 @@ export const liveDraftService = {
     return data ? mapGame(data as DbLiveDraftGame) : null;
   },
 
+  /**
+   * Get the recorded ban/pick actions of a game, in draft order
+   * (undo audit entries are left out)
+   */
+  async getActions(gameId: string): Promise<LiveDraftAction[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('live_draft_actions')
+      .select('*')
+      .eq('game_id', gameId)
+      .neq('action_type', 'undo')
+      .order('action_index', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row) => mapAction(row as DbLiveDraftAction));
+  },
+
+  /**
+   * Get the actions of a game from the given action index on (for resync)
+   */
+  async getActionsSince(gameId: string, actionIndex: number): Promise<LiveDraftAction[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('live_draft_actions')
+      .select('*')
+      .eq('game_id', gameId)
+      .gte('action_index', actionIndex)
+      .order('action_index', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row) => mapAction(row as DbLiveDraftAction));
+  },
+
   /**
    * Delete a game (e.g. pending games when ending a session)
    */
@@ -527,7 +754,8 @@ export const liveDraftService = {
   async startGame(gameId: string): Promise<void> {
     if (!supabase) return;
 
-    const firstStep = DRAFT_ORDER[0];
+    const draftOrder = await getDraftOrderForGame(gameId);
+    const firstStep = draftOrder[0];
 
     const { error } = await supabase
       .from('live_draft_games')
@@ -553,10 +781,12 @@ export const liveDraftService = {
     const game = await this.getGame(gameId);
     if (!game) return null;
 
+    const draftOrder = await getDraftOrderForGame(gameId);
     const nextIndex = game.current_action_index + 1;
+    const nextStep = getDraftStep(nextIndex, draftOrder);
 
     // Check if draft is complete
-    if (nextIndex >= DRAFT_ORDER.length) {
+    if (!nextStep) {
       const { data, error } = await supabase
         .from('live_draft_games')
         .update({
@@ -574,8 +804,6 @@ export const liveDraftService = {
     }
 
     // Advance to next step
-    const nextStep = DRAFT_ORDER[nextIndex];
-
     const { data, error } = await supabase
       .from('live_draft_games')
       .update({
@@ -598,7 +826,8 @@ export const liveDraftService = {
   async resetGame(gameId: string): Promise<void> {
     if (!supabase) return;
 
-    const firstStep = DRAFT_ORDER[0];
+    const draftOrder = await getDraftOrderForGame(gameId);
+    const firstStep = draftOrder[0];
 
     const { error } = await supabase
       .from('live_draft_games')
@@ -612,6 +841,12 @@ export const liveDraftService = {
         red_bans: [null, null, null, null, null],
         blue_picks: [null, null, null, null, null],
         red_picks: [null, null, null, null, null],
+        blue_roles: null,
+        red_roles: null,
+        blue_lineup: null,
+        red_lineup: null,
+        blue_lineup_confirmed: false,
+        red_lineup_confirmed: false,
         edited_picks: [],
         winner: null,
         completed_at: null,
@@ -927,6 +1162,45 @@ export const liveDraftService = {
     }
   },
 
+  /**
+   * Call a tactical timeout (pauses the session and freezes the turn clock)
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async pauseDraft(sessionId: string, team?: 'team1' | 'team2'): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rpcResult, error: rpcError } = await (supabase.rpc as any)('pause_live_draft', {
+      p_session_id: sessionId,
+      p_team: team ?? null,
+    });
+
+    if (rpcError) throw rpcError;
+    if (!rpcResult?.success) {
+      throw new Error(rpcResult?.message || 'Failed to call timeout');
+    }
+  },
+
+  /**
+   * Resume a paused draft. Only the captain who called the timeout can resume;
+   * the server keeps the remaining turn time intact.
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async resumeDraft(sessionId: string, team?: 'team1' | 'team2'): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rpcResult, error: rpcError } = await (supabase.rpc as any)('resume_live_draft', {
+      p_session_id: sessionId,
+      p_team: team ?? null,
+    });
+
+    if (rpcError) throw rpcError;
+    if (!rpcResult?.success) {
+      throw new Error(rpcResult?.message || 'Failed to resume draft');
+    }
+  },
+
   /**
    * Extend series by 1 game (max 5)
    * Uses RPC function for both logged-in and anonymous users
@@ -1209,6 +1483,61 @@ export const liveDraftService = {
   // DRAFT ACTIONS
   // ==========================================
 
+  /**
+   * Ask the opposing captain to undo your side's last ban or pick
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async requestUndo(gameId: string, team?: 'team1' | 'team2'): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('request_live_draft_undo', {
+      p_game_id: gameId,
+      p_team: team ?? null,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to request undo');
+    }
+  },
+
+  /**
+   * Accept or decline the opponent's undo request. Accepting reverts the
+   * action on the server and hands the step back to the opponent.
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async respondToUndo(gameId: string, accept: boolean, team?: 'team1' | 'team2'): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('respond_live_draft_undo', {
+      p_game_id: gameId,
+      p_accept: accept,
+      p_team: team ?? null,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to answer undo request');
+    }
+  },
+
+  /**
+   * Pending undo requests of a session
+   */
+  async getUndoRequests(sessionId: string): Promise<DbLiveDraftUndoRequest[]> {
+    if (!supabase) return [];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.from as any)('live_draft_undo_requests')
+      .select('*')
+      .eq('session_id', sessionId);
+
+    if (error) throw error;
+    return (data || []) as DbLiveDraftUndoRequest[];
+  },
+
   /**
    * Submit a ban or pick action.
    * The RPC handles recording the action AND advancing the game atomically.
@@ -1224,6 +1553,64 @@ export const liveDraftService = {
     if (error) throw error;
   },
 
+  /**
+   * Submit the bot's pick/ban in a bot-opponent session. Only the human
+   * captain's client may act for the bot, and only on the bot's turn.
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async submitBotAction(
+    gameId: string,
+    championId: string,
+    team?: 'team1' | 'team2'
+  ): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rpcResult, error: rpcError } = await (supabase.rpc as any)('submit_bot_draft_action', {
+      p_game_id: gameId,
+      p_champion_id: championId,
+      p_team: team ?? null,
+    });
+
+    if (rpcError) throw rpcError;
+    if (!rpcResult?.success) {
+      throw new Error(rpcResult?.message || 'Bot failed to act');
+    }
+  },
+
+  /**
+   * Record the champion the captain on turn is hovering.
+   * The server locks it in if the turn timer expires.
+   */
+  async setHover(gameId: string, championId: string | null): Promise<void> {
+    if (!supabase) return;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase.rpc as any)('set_draft_hover', {
+      p_game_id: gameId,
+      p_champion_id: championId,
+    });
+
+    if (error) throw error;
+  },
+
+  /**
+   * Ask the server to fill the current turn if its timer has run out.
+   * The server checks expiry itself (pg_cron also sweeps expired turns),
+   * so this is only a fast path and is safe to call from any client.
+   */
+  async expireTurn(gameId: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('expire_draft_turn', {
+      p_game_id: gameId,
+    });
+
+    if (error) throw error;
+    return data === true;
+  },
+
   /**
    * Fill a timed-out slot with a real champion.
    * Updates game arrays, action record, and fearless/ironman tracking.
@@ -1279,10 +1666,19 @@ export const liveDraftService = {
       },
     ];
 
+    // Keep the final lineup pointing at the edited champion
+    const lineupKey = `${side}_lineup` as 'blue_lineup' | 'red_lineup';
+    const lineup = type === 'pick' ? game[lineupKey] : null;
+    const lineupIndex = lineup ? lineup.indexOf(original) : -1;
+    const lineupUpdate = lineup && lineupIndex !== -1
+      ? { [lineupKey]: lineup.map((id, i) => (i === lineupIndex ? championId : id)) }
+      : {};
+
     const { error } = await supabase
       .from('live_draft_games')
       .update({
         [arrayKey]: currentArray,
+        ...lineupUpdate,
         edited_picks: editedPicks,
       })
       .eq('id', gameId);
@@ -1290,6 +1686,53 @@ export const liveDraftService = {
     if (error) throw error;
   },
 
+  /**
+   * Save the role played by each of the caller's picks during the trade
+   * phase or after the draft. The server resolves which side the captain is
+   * on and stores the resulting lineup.
+   * @param roles - One role per pick slot, in pick order
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async setPickRoles(
+    gameId: string,
+    roles: PickRole[],
+    team?: 'team1' | 'team2'
+  ): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rpcResult, error: rpcError } = await (supabase.rpc as any)('set_live_draft_pick_roles', {
+      p_game_id: gameId,
+      p_roles: roles,
+      p_team: team ?? null,
+    });
+
+    if (rpcError) throw rpcError;
+    if (!rpcResult?.success) {
+      throw new Error(rpcResult?.message || 'Failed to assign roles');
+    }
+  },
+
+  /**
+   * Confirm the caller's lineup during the trade phase. The game completes
+   * once both captains confirm or the trade timer runs out.
+   * @param team - Required for anonymous users, optional for logged-in users
+   */
+  async confirmLineup(gameId: string, team?: 'team1' | 'team2'): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rpcResult, error: rpcError } = await (supabase.rpc as any)('confirm_live_draft_lineup', {
+      p_game_id: gameId,
+      p_team: team ?? null,
+    });
+
+    if (rpcError) throw rpcError;
+    if (!rpcResult?.success) {
+      throw new Error(rpcResult?.message || 'Failed to confirm lineup');
+    }
+  },
+
   // ==========================================
   // UNAVAILABLE CHAMPIONS
   // ==========================================
@@ -1456,6 +1899,20 @@ export const liveDraftService = {
     return `${window.location.origin}/live-draft/join/${token}`;
   },
 
+  /**
+   * Generate public replay URL for a completed game (no login required)
+   */
+  getReplayUrl(gameId: string): string {
+    return `${window.location.origin}/live-draft/replay/${gameId}`;
+  },
+
+  /**
+   * Generate the caster overlay URL for a session (no UI chrome, for OBS browser sources)
+   */
+  getOverlayUrl(sessionId: string): string {
+    return `${window.location.origin}/live-draft/${sessionId}/overlay`;
+  },
+
   /**
    * Copy URL to clipboard
    */
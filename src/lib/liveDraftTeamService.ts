@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { generateId } from '../types';
+import type { TeamSide } from '../types/liveDraft';
+
+const teamLinkStorageKey = (sessionId: string) => `live_draft_team_link_${sessionId}`;
+
+export interface StoredTeamLink {
+  token: string;
+  team: TeamSide;
+  /** Presence key for this browser's votes */
+  voterId: string;
+}
+
+export const liveDraftTeamService = {
+  /**
+   * Signed-in captains only: the team link for the caller's team
+   */
+  async getTeamLink(sessionId: string): Promise<{ token: string; team: TeamSide }> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('get_live_draft_team_link', {
+      p_session_id: sessionId,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to create team link');
+    }
+
+    return { token: data.token as string, team: data.team as TeamSide };
+  },
+
+  /**
+   * Resolve a team link and remember it for the session, so the live draft
+   * page knows this browser belongs to a voting teammate
+   */
+  async joinTeam(token: string): Promise<{ sessionId: string; team: TeamSide }> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('resolve_live_draft_team_link', {
+      p_token: token,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to join team');
+    }
+
+    const sessionId = data.session_id as string;
+    const team = data.team as TeamSide;
+    const link: StoredTeamLink = { token, team, voterId: generateId() };
+    localStorage.setItem(teamLinkStorageKey(sessionId), JSON.stringify(link));
+    return { sessionId, team };
+  },
+
+  /**
+   * The team link this browser joined through, if any
+   */
+  getStoredTeamLink(sessionId: string): StoredTeamLink | null {
+    const stored = localStorage.getItem(teamLinkStorageKey(sessionId));
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored) as StoredTeamLink;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Stop voting for a team in this browser
+   */
+  leaveTeam(sessionId: string): void {
+    localStorage.removeItem(teamLinkStorageKey(sessionId));
+  },
+
+  getTeamUrl(token: string): string {
+    return `${window.location.origin}/live-draft/team/${token}`;
+  },
+};
@@ -658,3 +658,44 @@ export async function comparePatch(
 
   return results;
 }
+
+// ── Latest patch buffs ───────────────────────────────────────────────
+
+let latestPatchBuffs: Promise<Set<string>> | null = null;
+
+/**
+ * Champions whose stat and ability changes in the latest patch are mostly buffs.
+ * Uses the DDragon comparison only, so it is cheap enough for draft planning.
+ */
+export function getLatestPatchBuffs(): Promise<Set<string>> {
+  if (!latestPatchBuffs) {
+    latestPatchBuffs = (async () => {
+      const [current, previous] = await getPatchVersions(2);
+      if (!current || !previous) return new Set<string>();
+
+      const [newData, oldData] = await Promise.all([
+        fetchFullVersionData(current.version),
+        fetchFullVersionData(previous.version),
+      ]);
+
+      const buffed = new Set<string>();
+      for (const [champId, newChamp] of newData.champions) {
+        const oldChamp = oldData.champions.get(champId);
+        if (!oldChamp) continue;
+
+        const directions = [
+          ...diffStats(oldChamp.stats, newChamp.stats).map((c) => c.direction),
+          ...diffChampionAbilities(oldChamp, newChamp).flatMap((s) => s.changes.map((c) => c.direction)),
+        ];
+        const buffs = directions.filter((d) => d === 'buff').length;
+        const nerfs = directions.filter((d) => d === 'nerf').length;
+        if (buffs > nerfs) buffed.add(champId);
+      }
+      return buffed;
+    })().catch((err) => {
+      latestPatchBuffs = null;
+      throw err;
+    });
+  }
+  return latestPatchBuffs;
+}
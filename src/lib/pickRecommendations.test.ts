@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { PICK_SCORES, recommendPicks, type PickRecommendationInput } from './pickRecommendations';
+import { NONE_CHAMPION } from '../types/liveDraft';
+import type { ChampionMatchup, ChampionTier, Role } from '../types';
+import type { ChampionContext, ContestedChampion } from '../components/draft/hooks/useDraftAnalytics';
+
+function context(
+  championId: string,
+  source: string,
+  role: Role,
+  tier?: ChampionTier,
+  overrides: Partial<ChampionContext> = {}
+): ChampionContext {
+  return { championId, source, sourceType: 'player', side: 'my', role, tier, tierKnown: !!tier, ...overrides };
+}
+
+function recommend(contexts: ChampionContext[], overrides: Partial<PickRecommendationInput> = {}, limit?: number) {
+  const allChampions = new Map<string, ChampionContext[]>();
+  for (const ctx of contexts) {
+    allChampions.set(ctx.championId, [...(allChampions.get(ctx.championId) ?? []), ctx]);
+  }
+  return recommendPicks(
+    { allChampions, contested: [], ourPicks: [], enemyPicks: [], unavailable: new Set(), ...overrides },
+    limit
+  );
+}
+
+function matchup(championId: string, targetId: string, type: ChampionMatchup['type'], strength: 1 | 2 | 3): ChampionMatchup {
+  return { id: `${championId}-${targetId}`, championId, targetId, type, strength };
+}
+
+describe('recommendPicks', () => {
+  describe('pool and tier', () => {
+    it('scores a pool champion by its tier', () => {
+      const [ahri] = recommend([context('Ahri', 'Faker', 'mid', 'S')]);
+
+      expect(ahri.role).toBe('mid');
+      expect(ahri.reasons[0]).toEqual({ kind: 'pool', points: PICK_SCORES.tier.S, text: 'S tier for Faker' });
+      expect(ahri.score).toBe(PICK_SCORES.tier.S + PICK_SCORES.mainRole);
+    });
+
+    it('gives champions without tier data the unknown tier score', () => {
+      const [ahri] = recommend([context('Ahri', 'Faker', 'mid')]);
+
+      expect(ahri.reasons[0]).toEqual({ kind: 'pool', points: PICK_SCORES.unknownTier, text: "In Faker's pool" });
+    });
+
+    it('uses the best tier among the players who could pick it', () => {
+      const [gragas] = recommend([
+        context('Gragas', 'Zeus', 'top', 'C'),
+        context('Gragas', 'Oner', 'jungle', 'A'),
+      ]);
+
+      expect(gragas.role).toBe('jungle');
+      expect(gragas.reasons[0]).toMatchObject({ kind: 'pool', points: PICK_SCORES.tier.A, text: 'A tier for Oner' });
+    });
+  });
+
+  describe('role', () => {
+    it('adds the main role bonus when the open role is the champion main role', () => {
+      const [annie] = recommend([context('Annie', 'Faker', 'mid', 'B')]);
+
+      expect(annie.reasons).toContainEqual({ kind: 'role', points: PICK_SCORES.mainRole, text: 'Main mid champion' });
+    });
+
+    it('adds the smaller secondary role bonus for other listed roles', () => {
+      const [annie] = recommend([context('Annie', 'Keria', 'support', 'B')]);
+
+      expect(annie.reasons).toContainEqual({ kind: 'role', points: PICK_SCORES.secondaryRole, text: 'Can play support' });
+      expect(annie.score).toBe(PICK_SCORES.tier.B + PICK_SCORES.secondaryRole);
+    });
+
+    it('adds no role bonus for off-role picks', () => {
+      const [garen] = recommend([context('Garen', 'Faker', 'mid', 'B')]);
+
+      expect(garen.reasons.map((r) => r.kind)).toEqual(['pool']);
+    });
+  });
+
+  describe('flex', () => {
+    it('adds the flex bonus when players in several open roles can pick it', () => {
+      const [gragas] = recommend([
+        context('Gragas', 'Zeus', 'top', 'A'),
+        context('Gragas', 'Oner', 'jungle', 'A'),
+      ]);
+
+      expect(gragas.reasons).toContainEqual({ kind: 'flex', points: PICK_SCORES.flex, text: 'Flex: top, jungle' });
+    });
+
+    it('drops the flex bonus once one of the roles is taken', () => {
+      const [gragas] = recommend(
+        [context('Gragas', 'Zeus', 'top', 'A'), context('Gragas', 'Oner', 'jungle', 'A')],
+        { ourPicks: ['LeeSin'] }
+      );
+
+      expect(gragas.role).toBe('top');
+      expect(gragas.reasons.map((r) => r.kind)).not.toContain('flex');
+    });
+  });
+
+  describe('contested', () => {
+    const contested: ContestedChampion[] = [
+      {
+        championId: 'Ahri',
+        myContext: [context('Ahri', 'Faker', 'mid', 'A')],
+        enemyContext: [
+          context('Ahri', 'Chovy', 'mid', 'S', { side: 'enemy' }),
+          context('Ahri', 'Chovy', 'mid', 'S', { side: 'enemy', sourceType: 'custom' }),
+        ],
+      },
+    ];
+
+    it('adds the contested bonus naming each enemy once', () => {
+      const [ahri] = recommend([context('Ahri', 'Faker', 'mid', 'A')], { contested });
+
+      expect(ahri.reasons).toContainEqual({ kind: 'contested', points: PICK_SCORES.contested, text: 'Denies Chovy' });
+      expect(ahri.reasons.map((r) => r.kind)).not.toContain('fearless');
+    });
+
+    it('adds the fearless deny bonus in fearless drafts', () => {
+      const [ahri] = recommend([context('Ahri', 'Faker', 'mid', 'A')], { contested, isFearless: true });
+
+      expect(ahri.reasons).toContainEqual(expect.objectContaining({ kind: 'fearless', points: PICK_SCORES.fearlessDeny }));
+      expect(ahri.score).toBe(
+        PICK_SCORES.tier.A + PICK_SCORES.mainRole + PICK_SCORES.contested + PICK_SCORES.fearlessDeny
+      );
+    });
+  });
+
+  describe('matchup matrix', () => {
+    it('adds counter points per strength against enemy picks', () => {
+      const [syndra] = recommend([context('Syndra', 'Faker', 'mid', 'B')], {
+        enemyPicks: ['Ahri'],
+        matchups: [matchup('Syndra', 'Ahri', 'counter', 2)],
+        getChampionName: (id) => `${id}!`,
+      });
+
+      expect(syndra.reasons).toContainEqual({ kind: 'counter', points: 2 * PICK_SCORES.counter, text: 'Good into Ahri!' });
+    });
+
+    it('adds synergy points for entries on either side of the pair', () => {
+      const suggestions = recommend([], {
+        ourPicks: ['Orianna'],
+        matchups: [matchup('Orianna', 'Jinx', 'synergy', 3), matchup('Vi', 'Orianna', 'synergy', 1)],
+      });
+
+      expect(suggestions).toEqual([
+        {
+          championId: 'Jinx',
+          score: 3 * PICK_SCORES.synergy,
+          role: 'adc',
+          reasons: [{ kind: 'synergy', points: 3 * PICK_SCORES.synergy, text: 'Pairs with Orianna' }],
+        },
+        {
+          championId: 'Vi',
+          score: PICK_SCORES.synergy,
+          role: 'jungle',
+          reasons: [{ kind: 'synergy', points: PICK_SCORES.synergy, text: 'Pairs with Orianna' }],
+        },
+      ]);
+    });
+
+    it('suggests matrix-only champions without a role when their main role is taken', () => {
+      const [syndra] = recommend([], {
+        ourPicks: ['Orianna'],
+        enemyPicks: ['Ahri'],
+        matchups: [matchup('Syndra', 'Ahri', 'counter', 1)],
+      });
+
+      expect(syndra).toMatchObject({ championId: 'Syndra', role: null, score: PICK_SCORES.counter });
+    });
+  });
+
+  describe('filtering', () => {
+    it('skips unavailable, already picked and enemy picked champions', () => {
+      const suggestions = recommend(
+        [
+          context('Aatrox', 'Zeus', 'top', 'S'),
+          context('LeeSin', 'Oner', 'jungle', 'S'),
+          context('Jinx', 'Gumayusi', 'adc', 'S'),
+          context('Thresh', 'Keria', 'support', 'S'),
+          context('Caitlyn', 'Gumayusi', 'adc', 'C'),
+        ],
+        {
+          ourPicks: ['Ahri'],
+          enemyPicks: ['Jinx'],
+          unavailable: new Set(['Aatrox', 'LeeSin']),
+          matchups: [matchup('Ahri', 'Jinx', 'counter', 3), matchup('Thresh', 'Jinx', 'counter', 1)],
+        }
+      );
+
+      expect(suggestions.map((s) => s.championId)).toEqual(['Thresh', 'Caitlyn']);
+    });
+
+    it('ignores enemy, custom pool and team contexts', () => {
+      const suggestions = recommend([
+        context('Ahri', 'Chovy', 'mid', 'S', { side: 'enemy' }),
+        context('Syndra', 'Mid pool', 'mid', 'S', { sourceType: 'custom' }),
+        context('Orianna', 'T1', 'mid', 'S', { sourceType: 'team' }),
+      ]);
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it('ignores players whose role is already filled', () => {
+      const suggestions = recommend([context('Ahri', 'Faker', 'mid', 'S'), context('Aatrox', 'Zeus', 'top', 'C')], {
+        ourPicks: ['Orianna'],
+      });
+
+      expect(suggestions.map((s) => s.championId)).toEqual(['Aatrox']);
+    });
+
+    it('does not count timed-out picks as filling a role', () => {
+      const suggestions = recommend([context('Ahri', 'Faker', 'mid', 'S')], { ourPicks: [NONE_CHAMPION] });
+
+      expect(suggestions.map((s) => s.championId)).toEqual(['Ahri']);
+    });
+
+    it('returns nothing once every role is filled', () => {
+      const suggestions = recommend([context('Ahri', 'Faker', 'mid', 'S')], {
+        ourPicks: ['Aatrox', 'LeeSin', 'Orianna', 'Jinx', 'Thresh'],
+        enemyPicks: ['Garen'],
+        matchups: [matchup('Darius', 'Garen', 'counter', 3)],
+      });
+
+      expect(suggestions).toEqual([]);
+    });
+  });
+
+  describe('ordering', () => {
+    it('sorts by score, then champion id, and applies the limit', () => {
+      const suggestions = recommend(
+        [
+          context('Syndra', 'Faker', 'mid', 'A'),
+          context('Azir', 'Faker', 'mid', 'A'),
+          context('Ahri', 'Faker', 'mid', 'A'),
+          context('Jinx', 'Gumayusi', 'adc', 'S'),
+          context('Caitlyn', 'Gumayusi', 'adc', 'C'),
+        ],
+        {},
+        4
+      );
+
+      expect(suggestions.map((s) => s.championId)).toEqual(['Jinx', 'Ahri', 'Azir', 'Syndra']);
+    });
+  });
+});
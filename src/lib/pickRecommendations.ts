@@ -0,0 +1,154 @@
+import { getChampionRoles } from '../data/championRoles';
+import { getOpenRoles } from './draftBot';
+import { getMatchupRecommendations } from './championMatchups';
+import { NONE_CHAMPION, PICK_ROLES, type PickRole } from '../types/liveDraft';
+import type { ChampionMatchup, ChampionTier } from '../types';
+import type { ChampionContext, ContestedChampion } from '../components/draft/hooks/useDraftAnalytics';
+
+// Suggested picks for the side on turn. Every point a champion scores comes
+// with a reason, so the ranking can be read back and checked.
+
+export const PICK_SCORES = {
+  tier: { S: 100, A: 75, B: 50, C: 25 } as Record<ChampionTier, number>,
+  /** Pool champions without tier data, between A and B like ban scoring */
+  unknownTier: 60,
+  mainRole: 15,
+  secondaryRole: 10,
+  /** Playable by more than one player with an open role */
+  flex: 10,
+  contested: 15,
+  /** Extra for contested champions in fearless, where a pick denies them for the series */
+  fearlessDeny: 10,
+  /** Per strength point of a matrix entry */
+  counter: 10,
+  synergy: 5,
+};
+
+export type PickReasonKind = 'pool' | 'role' | 'flex' | 'contested' | 'fearless' | 'counter' | 'synergy';
+
+export interface PickReason {
+  kind: PickReasonKind;
+  points: number;
+  text: string;
+}
+
+export interface PickSuggestion {
+  championId: string;
+  score: number;
+  /** Open role the champion would fill, null when it only comes from the matrix */
+  role: PickRole | null;
+  reasons: PickReason[];
+}
+
+export interface PickRecommendationInput {
+  /** Champion contexts from `useDraftAnalytics`, "my" side is the side on turn */
+  allChampions: Map<string, ChampionContext[]>;
+  contested: ContestedChampion[];
+  /** Picks of the side on turn, in pick order */
+  ourPicks: (string | null)[];
+  enemyPicks: (string | null)[];
+  /** Champions that can't be picked: picked, banned or used earlier in a fearless series */
+  unavailable: Set<string>;
+  isFearless?: boolean;
+  /** Counter/synergy matrix of the team on turn */
+  matchups?: ChampionMatchup[];
+  getChampionName?: (championId: string) => string;
+}
+
+const filled = (ids: (string | null)[]) =>
+  ids.filter((id): id is string => !!id && id !== NONE_CHAMPION);
+
+const isPickRole = (role: string | undefined): role is PickRole =>
+  PICK_ROLES.includes(role as PickRole);
+
+/**
+ * Rank the champions the side on turn could pick next, best first.
+ * Pool champions only count for players whose role is still open.
+ */
+export function recommendPicks(input: PickRecommendationInput, limit = 5): PickSuggestion[] {
+  const openRoles = getOpenRoles(input.ourPicks);
+  if (openRoles.length === 0) return [];
+
+  const nameOf = input.getChampionName ?? ((id: string) => id);
+  const enemyPicks = filled(input.enemyPicks);
+  const ourPicks = filled(input.ourPicks);
+  const contested = new Map(input.contested.map((c) => [c.championId, c]));
+  const matchups = getMatchupRecommendations(input.matchups ?? [], enemyPicks, ourPicks);
+
+  const suggestions: PickSuggestion[] = [];
+
+  const candidates = new Set([...input.allChampions.keys(), ...matchups.keys()]);
+  for (const championId of candidates) {
+    if (input.unavailable.has(championId) || ourPicks.includes(championId) || enemyPicks.includes(championId)) {
+      continue;
+    }
+
+    const players = (input.allChampions.get(championId) ?? []).filter(
+      (ctx): ctx is ChampionContext & { role: PickRole } =>
+        ctx.side === 'my' && ctx.sourceType === 'player' && isPickRole(ctx.role) && openRoles.includes(ctx.role)
+    );
+    const recommendation = matchups.get(championId);
+    if (players.length === 0 && !recommendation) continue;
+
+    const reasons: PickReason[] = [];
+    let role: PickRole | null = null;
+
+    if (players.length > 0) {
+      // Best tier among the players who could still pick it
+      const best = players.reduce((a, b) => (tierPoints(b.tier) > tierPoints(a.tier) ? b : a));
+      role = best.role;
+      reasons.push({
+        kind: 'pool',
+        points: tierPoints(best.tier),
+        text: best.tier ? `${best.tier} tier for ${best.source}` : `In ${best.source}'s pool`,
+      });
+
+      const championRoles = getChampionRoles(championId);
+      if (championRoles[0] === role) {
+        reasons.push({ kind: 'role', points: PICK_SCORES.mainRole, text: `Main ${role} champion` });
+      } else if (championRoles.includes(role)) {
+        reasons.push({ kind: 'role', points: PICK_SCORES.secondaryRole, text: `Can play ${role}` });
+      }
+
+      const flexRoles = new Set(players.map((p) => p.role));
+      if (flexRoles.size > 1) {
+        reasons.push({ kind: 'flex', points: PICK_SCORES.flex, text: `Flex: ${[...flexRoles].join(', ')}` });
+      }
+    } else {
+      const mainRole = getChampionRoles(championId)[0];
+      role = isPickRole(mainRole) && openRoles.includes(mainRole) ? mainRole : null;
+    }
+
+    const contest = contested.get(championId);
+    if (contest) {
+      const enemies = [...new Set(contest.enemyContext.map((c) => c.source))];
+      reasons.push({ kind: 'contested', points: PICK_SCORES.contested, text: `Denies ${enemies.join(', ')}` });
+      if (input.isFearless) {
+        reasons.push({ kind: 'fearless', points: PICK_SCORES.fearlessDeny, text: 'Gone for the enemy for the rest of the series' });
+      }
+    }
+
+    for (const m of recommendation?.counters ?? []) {
+      reasons.push({ kind: 'counter', points: m.strength * PICK_SCORES.counter, text: `Good into ${nameOf(m.targetId)}` });
+    }
+    for (const m of recommendation?.synergies ?? []) {
+      const ally = m.championId === championId ? m.targetId : m.championId;
+      reasons.push({ kind: 'synergy', points: m.strength * PICK_SCORES.synergy, text: `Pairs with ${nameOf(ally)}` });
+    }
+
+    suggestions.push({
+      championId,
+      score: reasons.reduce((sum, r) => sum + r.points, 0),
+      role,
+      reasons,
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.championId.localeCompare(b.championId))
+    .slice(0, limit);
+}
+
+function tierPoints(tier: ChampionTier | undefined): number {
+  return tier ? PICK_SCORES.tier[tier] : PICK_SCORES.unknownTier;
+}
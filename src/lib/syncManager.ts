@@ -544,6 +544,8 @@ export const syncManager = {
           name: team.name,
           notes: team.notes,
           champion_pool: team.championPool || [],
+          champion_matchups: team.matchups || [],
+          ban_scoring: team.banScoring ?? null,
           sort_order: index,
         }),
       });
@@ -609,6 +611,8 @@ export const syncManager = {
           notepad: session.notepad || [],
           is_favorite: session.isFavorite || false,
           is_planned: session.isPlanned || false,
+          live_results: session.liveResults || [],
+          series_plan: session.seriesPlan ?? null,
           sort_order: index,
         }),
       });
@@ -662,6 +666,21 @@ export const syncManager = {
       });
     }
 
+    // Sync live draft presets
+    const { useLiveDraftPresetsStore } = await import('../stores/useLiveDraftPresetsStore');
+    const presets = useLiveDraftPresetsStore.getState().presets;
+    if (presets.length > 0) {
+      await this.syncArrayToCloudImmediate('live-draft-presets', 'live_draft_presets', presets, {
+        transformItem: (preset, userId, index) => ({
+          id: preset.id,
+          user_id: userId,
+          name: preset.name,
+          config: preset.config,
+          sort_order: index,
+        }),
+      });
+    }
+
     // Sync user settings
     const { useSettingsStore } = await import('../stores/useSettingsStore');
     const settings = useSettingsStore.getState();
@@ -889,6 +908,8 @@ export const syncManager = {
               name: team.name,
               notes: team.notes || '',
               championPool: team.champion_pool || [],
+              matchups: team.champion_matchups || [],
+              banScoring: team.ban_scoring ?? null,
               // eslint-disable-next-line @typescript-eslint/no-explicit-any
               players: (players || []).map((p: any) => ({
                 id: p.id,
@@ -975,6 +996,8 @@ export const syncManager = {
               name: team.name,
               notes: team.notes,
               champion_pool: team.championPool || [],
+              champion_matchups: team.matchups || [],
+              ban_scoring: team.banScoring ?? null,
               sort_order: index,
             }),
           });
@@ -1125,6 +1148,8 @@ export const syncManager = {
           notepad: s.notepad || [],
           isFavorite: s.is_favorite || false,
           isPlanned: s.is_planned || false,
+          liveResults: s.live_results || [],
+          seriesPlan: s.series_plan ?? null,
           createdAt: new Date(s.created_at).getTime(),
           updatedAt: new Date(s.updated_at).getTime(),
         }));
@@ -1171,6 +1196,8 @@ export const syncManager = {
               notepad: session.notepad || [],
               is_favorite: session.isFavorite || false,
               is_planned: session.isPlanned || false,
+              live_results: session.liveResults || [],
+              series_plan: session.seriesPlan ?? null,
               sort_order: index,
             }),
           });
@@ -1318,6 +1345,45 @@ export const syncManager = {
         // Custom templates table might not exist, that's OK
       }
 
+      // Load live draft presets
+      try {
+        const { useLiveDraftPresetsStore } = await import('../stores/useLiveDraftPresetsStore');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: presets } = await (supabase as any)
+          .from('live_draft_presets')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('sort_order');
+
+        if (presets && presets.length > 0) {
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const transformedPresets = presets.map((p: any) => ({
+            id: p.id,
+            name: p.name,
+            config: p.config || {},
+          }));
+
+          useLiveDraftPresetsStore.setState({ presets: transformedPresets });
+        } else {
+          // Cloud is empty - check if we have local data to preserve
+          const localPresets = useLiveDraftPresetsStore.getState().presets;
+          if (localPresets.length > 0) {
+            console.log('Cloud live draft presets empty but local has data, syncing local to cloud');
+            await this.syncArrayToCloudImmediate('live-draft-presets', 'live_draft_presets', localPresets, {
+              transformItem: (preset, userId, index) => ({
+                id: preset.id,
+                user_id: userId,
+                name: preset.name,
+                config: preset.config,
+                sort_order: index,
+              }),
+            });
+          }
+        }
+      } catch {
+        // Live draft presets table might not exist, that's OK
+      }
+
       // Load user settings
       try {
         const { useSettingsStore } = await import('../stores/useSettingsStore');
@@ -846,6 +846,8 @@ export const teamMembershipService = {
       name: team.name,
       notes: team.notes || '',
       championPool: team.champion_pool || [],
+      matchups: team.champion_matchups || [],
+      banScoring: team.ban_scoring ?? null,
       players,
       createdAt: new Date(team.created_at).getTime(),
       updatedAt: new Date(team.updated_at).getTime(),
@@ -0,0 +1,310 @@
+import type {
+  PlannedTournamentMatch,
+  Tournament,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentStanding,
+} from '../types/tournament';
+
+// Bracket generation for live draft tournaments.
+// Elimination brackets are laid out for the next power of two and then
+// collapsed: any match with a bye is removed and its winner feeds straight
+// into the next match, so every stored match is playable once both of its
+// teams are known.
+
+type Slot =
+  | { kind: 'team'; name: string }
+  | { kind: 'bye' }
+  | { kind: 'winner'; key: string }
+  | { kind: 'loser'; key: string };
+
+interface Node {
+  key: string;
+  bracket: TournamentBracket;
+  round: number;
+  slots: [Slot, Slot];
+}
+
+const BYE: Slot = { kind: 'bye' };
+const winnerOf = (key: string): Slot => ({ kind: 'winner', key });
+const loserOf = (key: string): Slot => ({ kind: 'loser', key });
+
+/** Standard seeding order, e.g. 8 → [1, 8, 4, 5, 2, 7, 3, 6] (1-based seeds) */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+function buildWinnersBracket(teams: string[], bracket: TournamentBracket): Node[][] {
+  let size = 2;
+  while (size < teams.length) size *= 2;
+
+  const order = seedOrder(size);
+  const seedSlot = (seed: number): Slot => (seed <= teams.length ? { kind: 'team', name: teams[seed - 1] } : BYE);
+
+  const rounds: Node[][] = [];
+  let previous: Node[] = [];
+  for (let round = 1; size >> round >= 1; round++) {
+    const count = size >> round;
+    const nodes: Node[] = [];
+    for (let i = 0; i < count; i++) {
+      nodes.push({
+        key: `${bracket}-${round}-${i}`,
+        bracket,
+        round,
+        slots:
+          round === 1
+            ? [seedSlot(order[2 * i]), seedSlot(order[2 * i + 1])]
+            : [winnerOf(previous[2 * i].key), winnerOf(previous[2 * i + 1].key)],
+      });
+    }
+    rounds.push(nodes);
+    previous = nodes;
+  }
+  return rounds;
+}
+
+function buildDoubleElimination(teams: string[]): Node[] {
+  const winners = buildWinnersBracket(teams, 'winners');
+  const wbFinal = winners[winners.length - 1][0];
+  const nodes = winners.flat();
+
+  // Two teams: the grand final is a rematch of the only winners bracket match
+  if (winners.length === 1) {
+    nodes.push({ key: 'grand_final', bracket: 'grand_final', round: 1, slots: [winnerOf(wbFinal.key), loserOf(wbFinal.key)] });
+    return nodes;
+  }
+
+  let lbRound = 0;
+  const addRound = (slots: [Slot, Slot][]): Node[] => {
+    lbRound++;
+    const round = slots.map((pair, i) => ({
+      key: `losers-${lbRound}-${i}`,
+      bracket: 'losers' as const,
+      round: lbRound,
+      slots: pair,
+    }));
+    nodes.push(...round);
+    return round;
+  };
+
+  // Losers of winners round 1 play each other
+  const wb1 = winners[0];
+  let current = addRound(
+    Array.from({ length: wb1.length / 2 }, (_, i) => [loserOf(wb1[2 * i].key), loserOf(wb1[2 * i + 1].key)] as [Slot, Slot])
+  );
+
+  for (let r = 1; r < winners.length; r++) {
+    // Survivors meet the teams dropping down from this winners round
+    // (in reverse order, to delay rematches)
+    const dropping = winners[r];
+    current = addRound(
+      current.map((node, i) => [winnerOf(node.key), loserOf(dropping[dropping.length - 1 - i].key)] as [Slot, Slot])
+    );
+
+    if (r < winners.length - 1) {
+      const survivors = current;
+      current = addRound(
+        Array.from(
+          { length: survivors.length / 2 },
+          (_, i) => [winnerOf(survivors[2 * i].key), winnerOf(survivors[2 * i + 1].key)] as [Slot, Slot]
+        )
+      );
+    }
+  }
+
+  // The losers bracket team is always team2 of the grand final. If it wins,
+  // the server adds the bracket reset as grand final round 2.
+  nodes.push({
+    key: 'grand_final',
+    bracket: 'grand_final',
+    round: 1,
+    slots: [winnerOf(wbFinal.key), winnerOf(current[0].key)],
+  });
+  return nodes;
+}
+
+function buildRoundRobin(teams: string[]): Node[] {
+  // Circle method: fix the first team and rotate the rest
+  const circle: (string | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+  const nodes: Node[] = [];
+
+  for (let round = 1; round < circle.length; round++) {
+    for (let i = 0; i < circle.length / 2; i++) {
+      const a = circle[i];
+      const b = circle[circle.length - 1 - i];
+      if (a === null || b === null) continue;
+      nodes.push({
+        key: `round_robin-${round}-${i}`,
+        bracket: 'round_robin',
+        round,
+        slots: [{ kind: 'team', name: a }, { kind: 'team', name: b }],
+      });
+    }
+    circle.splice(1, 0, circle.pop()!);
+  }
+  return nodes;
+}
+
+/** Remove matches that contain a bye, rewiring whatever they fed into. */
+function collapseByes(nodes: Node[]): Node[] {
+  let remaining = nodes;
+  for (;;) {
+    const byeNode = remaining.find((n) => n.slots.some((s) => s.kind === 'bye'));
+    if (!byeNode) return remaining;
+
+    const advancing = byeNode.slots.find((s) => s.kind !== 'bye') ?? BYE;
+    remaining = remaining
+      .filter((n) => n !== byeNode)
+      .map((n) => ({
+        ...n,
+        slots: n.slots.map((s) => {
+          if (s.kind === 'winner' && s.key === byeNode.key) return advancing;
+          if (s.kind === 'loser' && s.key === byeNode.key) return BYE;
+          return s;
+        }) as [Slot, Slot],
+      }));
+  }
+}
+
+/**
+ * Generate every match of a tournament, linked through next_match_id /
+ * loser_next_match_id. Rounds and positions are 1-based and contiguous
+ * within each bracket.
+ */
+export function generateTournamentMatches(format: TournamentFormat, teams: string[]): PlannedTournamentMatch[] {
+  const raw =
+    format === 'round_robin'
+      ? buildRoundRobin(teams)
+      : format === 'double_elimination'
+        ? buildDoubleElimination(teams)
+        : buildWinnersBracket(teams, 'winners').flat();
+  const nodes = collapseByes(raw);
+
+  const matches = new Map<string, PlannedTournamentMatch>();
+
+  // Renumber rounds (some may have collapsed entirely) and positions
+  const brackets: TournamentBracket[] = ['winners', 'losers', 'grand_final', 'round_robin'];
+  for (const bracket of brackets) {
+    const inBracket = nodes.filter((n) => n.bracket === bracket);
+    const rounds = [...new Set(inBracket.map((n) => n.round))].sort((a, b) => a - b);
+    rounds.forEach((round, roundIndex) => {
+      inBracket
+        .filter((n) => n.round === round)
+        .forEach((node, i) => {
+          const teamName = (slot: Slot) => (slot.kind === 'team' ? slot.name : null);
+          matches.set(node.key, {
+            id: crypto.randomUUID(),
+            bracket,
+            round: roundIndex + 1,
+            position: i + 1,
+            team1_name: teamName(node.slots[0]),
+            team2_name: teamName(node.slots[1]),
+            next_match_id: null,
+            next_match_slot: null,
+            loser_next_match_id: null,
+            loser_next_match_slot: null,
+          });
+        });
+    });
+  }
+
+  for (const node of nodes) {
+    const target = matches.get(node.key)!;
+    node.slots.forEach((slot, i) => {
+      const slotName = i === 0 ? 'team1' : 'team2';
+      if (slot.kind === 'winner') {
+        const source = matches.get(slot.key)!;
+        source.next_match_id = target.id;
+        source.next_match_slot = slotName;
+      } else if (slot.kind === 'loser') {
+        const source = matches.get(slot.key)!;
+        source.loser_next_match_id = target.id;
+        source.loser_next_match_slot = slotName;
+      }
+    });
+  }
+
+  return [...matches.values()];
+}
+
+/** Round-robin table: match wins first, then game difference, then seed. */
+export function getTournamentStandings(tournament: Tournament, matches: TournamentMatch[]): TournamentStanding[] {
+  const table = new Map<string, TournamentStanding>(
+    tournament.teams.map((team) => [team, { team, wins: 0, losses: 0, gameWins: 0, gameLosses: 0 }])
+  );
+
+  for (const match of matches) {
+    if (!match.team1_name || !match.team2_name) continue;
+    const team1 = table.get(match.team1_name);
+    const team2 = table.get(match.team2_name);
+    if (!team1 || !team2) continue;
+
+    team1.gameWins += match.team1_score;
+    team1.gameLosses += match.team2_score;
+    team2.gameWins += match.team2_score;
+    team2.gameLosses += match.team1_score;
+
+    if (match.winner === 'team1') {
+      team1.wins++;
+      team2.losses++;
+    } else if (match.winner === 'team2') {
+      team2.wins++;
+      team1.losses++;
+    }
+  }
+
+  return [...table.values()].sort(
+    (a, b) =>
+      b.wins - a.wins ||
+      b.gameWins - b.gameLosses - (a.gameWins - a.gameLosses) ||
+      tournament.teams.indexOf(a.team) - tournament.teams.indexOf(b.team)
+  );
+}
+
+/** The champion of a completed tournament, or null while it is running. */
+export function getTournamentWinner(tournament: Tournament, matches: TournamentMatch[]): string | null {
+  if (tournament.status !== 'completed') return null;
+  if (tournament.format === 'round_robin') {
+    return getTournamentStandings(tournament, matches)[0]?.team ?? null;
+  }
+
+  // A double elimination grand final reset is played after the first grand final
+  const final = matches
+    .filter((m) => m.bracket !== 'losers' && !m.next_match_id)
+    .reduce<TournamentMatch | null>((last, m) => (!last || m.round > last.round ? m : last), null);
+  if (!final?.winner) return null;
+  return final.winner === 'team1' ? final.team1_name : final.team2_name;
+}
+
+/** Display name for a round, e.g. "Semifinals" or "LB Round 2". */
+export function getRoundLabel(
+  format: TournamentFormat,
+  bracket: TournamentBracket,
+  round: number,
+  roundCount: number
+): string {
+  switch (bracket) {
+    case 'grand_final':
+      return round > 1 ? 'Grand Final Reset' : 'Grand Final';
+    case 'losers':
+      return round === roundCount ? 'LB Final' : `LB Round ${round}`;
+    case 'round_robin':
+      return `Round ${round}`;
+    default: {
+      if (format === 'double_elimination') {
+        return round === roundCount ? 'WB Final' : `WB Round ${round}`;
+      }
+      const fromEnd = roundCount - round;
+      if (fromEnd === 0) return 'Final';
+      if (fromEnd === 1) return 'Semifinals';
+      if (fromEnd === 2) return 'Quarterfinals';
+      return `Round ${round}`;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { supabase } from './supabase';
+import { checkModerationAndRecord, getViolationWarning } from './moderation';
+import { generateTournamentMatches } from './tournamentBracket';
+import {
+  MAX_TOURNAMENT_TEAMS,
+  MIN_TOURNAMENT_TEAMS,
+  type CreateTournamentConfig,
+  type DbTournament,
+  type DbTournamentMatch,
+  type Tournament,
+  type TournamentMatch,
+} from '../types/tournament';
+import type { TeamSide } from '../types/liveDraft';
+
+// Tournament tables are not part of the generated Database types yet
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const tournamentsTable = () => (supabase!.from as any)('live_draft_tournaments');
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const matchesTable = () => (supabase!.from as any)('live_draft_tournament_matches');
+
+export const tournamentService = {
+  /**
+   * Create a tournament. The bracket is generated here and stored together
+   * with a live draft session for every match that is ready to play.
+   */
+  async createTournament(config: CreateTournamentConfig): Promise<string> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const name = config.name.trim();
+    const teams = config.teams.map((t) => t.trim()).filter(Boolean);
+
+    if (!name) throw new Error('Tournament name is required');
+    if (name.length > 50) throw new Error('Tournament name must be 50 characters or less');
+    if (teams.length < MIN_TOURNAMENT_TEAMS || teams.length > MAX_TOURNAMENT_TEAMS) {
+      throw new Error(`A tournament needs between ${MIN_TOURNAMENT_TEAMS} and ${MAX_TOURNAMENT_TEAMS} teams`);
+    }
+    if (teams.some((t) => t.length > 30)) throw new Error('Team name must be 30 characters or less');
+    if (new Set(teams.map((t) => t.toLowerCase())).size !== teams.length) {
+      throw new Error('Team names must be unique');
+    }
+
+    const modResult = await checkModerationAndRecord([name, ...teams], 'live_draft_session');
+    if (modResult.flagged) throw new Error(getViolationWarning(modResult));
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('create_live_draft_tournament', {
+      p_name: name,
+      p_format: config.format,
+      p_teams: teams,
+      p_games_per_match: config.gamesPerMatch,
+      p_draft_mode: config.draftMode,
+      p_pick_time_seconds: config.pickTimeSeconds,
+      p_ban_time_seconds: config.banTimeSeconds,
+      p_matches: generateTournamentMatches(config.format, teams),
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to create tournament');
+    }
+
+    return data.tournament_id as string;
+  },
+
+  /**
+   * Get a tournament by ID (public)
+   */
+  async getTournament(tournamentId: string): Promise<Tournament | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await tournamentsTable().select('*').eq('id', tournamentId).maybeSingle();
+
+    if (error) throw error;
+    return data ? ({ ...data } as DbTournament) : null;
+  },
+
+  /**
+   * Get all matches of a tournament, in bracket order
+   */
+  async getMatches(tournamentId: string): Promise<TournamentMatch[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await matchesTable()
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('round', { ascending: true })
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as DbTournamentMatch[]).map((row) => ({ ...row }));
+  },
+
+  /**
+   * Get a single match (e.g. to find the bracket of a spawned session)
+   */
+  async getMatch(matchId: string): Promise<TournamentMatch | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await matchesTable().select('*').eq('id', matchId).maybeSingle();
+
+    if (error) throw error;
+    return data ? ({ ...data } as DbTournamentMatch) : null;
+  },
+
+  /**
+   * Get tournaments organized by the current user
+   */
+  async getUserTournaments(): Promise<Tournament[]> {
+    if (!supabase) return [];
+
+    const { data: sessionData } = await supabase.auth.getSession();
+    const userId = sessionData.session?.user?.id;
+    if (!userId) return [];
+
+    const { data, error } = await tournamentsTable()
+      .select('*')
+      .eq('created_by', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as DbTournament[]).map((row) => ({ ...row }));
+  },
+
+  /**
+   * Organizer override: decide a match without (or despite) its draft session
+   */
+  async setMatchWinner(matchId: string, winner: TeamSide): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase.rpc as any)('set_tournament_match_winner', {
+      p_match_id: matchId,
+      p_winner: winner,
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || 'Failed to set match winner');
+    }
+  },
+
+  /**
+   * Delete a tournament (organizer only). Spawned sessions are kept.
+   */
+  async deleteTournament(tournamentId: string): Promise<void> {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const { error } = await tournamentsTable().delete().eq('id', tournamentId);
+    if (error) throw error;
+  },
+
+  /**
+   * Generate the public bracket URL
+   */
+  getTournamentUrl(tournamentId: string): string {
+    return `${window.location.origin}/tournament/${tournamentId}`;
+  },
+};
@@ -5,7 +5,7 @@ import { useEnemyTeamStore } from '../stores/useEnemyTeamStore';
 import { useMyTeamStore } from '../stores/useMyTeamStore';
 import { useAuthStore } from '../stores/useAuthStore';
 import { Button, Card, ConfirmationModal, Input, Modal } from '../components/ui';
-import { DraftPlanningHub, TeamVsDisplay } from '../components/draft';
+import { DraftPlanningHub, FearlessSeriesPlanner, LiveDraftResults, TeamVsDisplay } from '../components/draft';
 import ShareModal from '../components/share/ShareModal';
 import LoginModal from '../components/auth/LoginModal';
 
@@ -344,6 +344,20 @@ export default function DraftDetailPage() {
         onMoveChampionBetweenPriorityGroups={moveChampionBetweenPriorityGroups}
       />
 
+      {/* Fearless series planner */}
+      <FearlessSeriesPlanner
+        myTeam={myTeam}
+        enemyTeam={currentEnemyTeam || null}
+        plan={currentSession.seriesPlan}
+        canEdit={canEdit}
+        onChange={(plan) => updateSession(currentSession.id, { seriesPlan: plan })}
+      />
+
+      {/* Results of live drafts this plan was linked to */}
+      {currentSession.liveResults && currentSession.liveResults.length > 0 && (
+        <LiveDraftResults results={currentSession.liveResults} />
+      )}
+
       {/* Session notes */}
       <Card variant="bordered" padding="lg">
         <h2 className="text-lg font-semibold text-white mb-4">Draft Notes</h2>
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { liveDraftCoachService } from '../lib/liveDraftCoachService';
+import { useAuthStore } from '../stores/useAuthStore';
+
+export default function JoinLiveDraftCoachPage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, profile, isInitialized } = useAuthStore();
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id;
+  const displayName = profile?.displayName ?? undefined;
+
+  useEffect(() => {
+    if (!isInitialized || !userId) return;
+
+    async function joinAsCoach() {
+      if (!token) {
+        setError('Invalid coach link');
+        return;
+      }
+
+      try {
+        const { sessionId } = await liveDraftCoachService.joinAsCoach(token, displayName);
+        navigate(`/live-draft/${sessionId}`, { replace: true });
+      } catch (err) {
+        console.error('Failed to join as coach:', err);
+        setError(err instanceof Error ? err.message : 'Failed to join as coach');
+      }
+    }
+
+    joinAsCoach();
+  }, [token, navigate, isInitialized, userId, displayName]);
+
+  // Coaching is protected by row-level security, which needs a signed-in user
+  const message = isInitialized && !userId ? 'Sign in to join as coach' : error;
+
+  if (message) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] gap-4">
+        <div className="text-red-400 text-lg">{message}</div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-lol-surface border border-lol-border rounded-lg text-white hover:bg-lol-card-hover transition-colors"
+        >
+          Go Home
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <div className="flex items-center gap-3 text-gray-400">
+        <svg className="animate-spin h-6 w-6" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+        </svg>
+        Joining as coach...
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { liveDraftTeamService } from '../lib/liveDraftTeamService';
+
+export default function JoinLiveDraftTeamPage() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function joinTeam() {
+      if (!token) {
+        setError('Invalid team link');
+        return;
+      }
+
+      try {
+        const { sessionId } = await liveDraftTeamService.joinTeam(token);
+        navigate(`/live-draft/${sessionId}`, { replace: true });
+      } catch (err) {
+        console.error('Failed to join team:', err);
+        setError(err instanceof Error ? err.message : 'Failed to join team');
+      }
+    }
+
+    joinTeam();
+  }, [token, navigate]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] gap-4">
+        <div className="text-red-400 text-lg">{error}</div>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 bg-lol-surface border border-lol-border rounded-lg text-white hover:bg-lol-card-hover transition-colors"
+        >
+          Go Home
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <div className="flex items-center gap-3 text-gray-400">
+        <svg className="animate-spin h-6 w-6" fill="none" viewBox="0 0 24 24">
+          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+        </svg>
+        Joining your team...
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, Input, Select } from '../components/ui';
+import { useChampionData } from '../hooks/useChampionData';
+import { liveDraftService } from '../lib/liveDraftService';
+import { computeTeamDraftAnalytics, getWinRate } from '../lib/liveDraftAnalytics';
+import type { ChampionUsage, TeamDraftHistory, WinRecord } from '../lib/liveDraftAnalytics';
+import { useMyTeamStore } from '../stores/useMyTeamStore';
+import { DRAFT_MODE_LABELS } from '../types/liveDraft';
+import type { DraftMode } from '../types/liveDraft';
+
+const TOP_CHAMPIONS = 10;
+
+function formatWinRate(record: WinRecord): string {
+  const rate = getWinRate(record);
+  return rate === null ? '–' : `${rate}%`;
+}
+
+function winRateColor(record: WinRecord): string {
+  const rate = getWinRate(record);
+  if (rate === null) return 'text-gray-500';
+  if (rate >= 55) return 'text-green-400';
+  if (rate <= 45) return 'text-red-400';
+  return 'text-gray-200';
+}
+
+export default function LiveDraftAnalyticsPage() {
+  const myTeams = useMyTeamStore((s) => s.teams);
+  const { getChampionById, getIconUrl } = useChampionData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const teamId = searchParams.get('team') ?? myTeams[0]?.id ?? '';
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [draftMode, setDraftMode] = useState<DraftMode | 'all'>('all');
+
+  // Keyed by team so switching teams shows the loading state until its history arrives
+  const [history, setHistory] = useState<{ teamId: string; data: TeamDraftHistory } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!teamId) return;
+    let cancelled = false;
+    liveDraftService
+      .getTeamDraftHistory(teamId)
+      .then((data) => {
+        if (!cancelled) {
+          setHistory({ teamId, data });
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load draft history:', err);
+        if (!cancelled) setError('Failed to load draft history. Please try again later.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  const isLoading = !!teamId && history?.teamId !== teamId && !error;
+
+  const analytics = useMemo(() => {
+    if (!history || history.teamId !== teamId) return null;
+    return computeTeamDraftAnalytics(teamId, history.data, {
+      from: from || null,
+      to: to || null,
+      draftMode,
+    });
+  }, [history, teamId, from, to, draftMode]);
+
+  const renderChampionTable = (title: string, rows: ChampionUsage[], countLabel: string) => (
+    <Card variant="bordered" padding="md">
+      <h2 className="text-sm font-semibold text-gray-300 mb-3">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No data yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 text-xs uppercase">
+              <th className="text-left font-medium py-1">Champion</th>
+              <th className="text-right font-medium py-1">{countLabel}</th>
+              <th className="text-right font-medium py-1">W–L</th>
+              <th className="text-right font-medium py-1">Win rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, TOP_CHAMPIONS).map((row) => (
+              <tr key={row.championId} className="border-t border-lol-border text-gray-200">
+                <td className="py-1.5">
+                  <div className="flex items-center gap-2">
+                    <img src={getIconUrl(row.championId)} alt="" className="w-6 h-6 rounded" />
+                    {getChampionById(row.championId)?.name ?? row.championId}
+                  </div>
+                </td>
+                <td className="py-1.5 text-right tabular-nums">{row.count}</td>
+                <td className="py-1.5 text-right tabular-nums text-gray-400">
+                  {row.wins}–{row.games - row.wins}
+                </td>
+                <td className={`py-1.5 text-right tabular-nums ${winRateColor(row)}`}>{formatWinRate(row)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Link to="/live-draft" className="text-sm text-gray-500 hover:text-gray-300 transition-colors">
+            ← Live Draft
+          </Link>
+          <h1 className="text-3xl font-bold text-white mt-1">Team Draft Analytics</h1>
+          <p className="text-gray-400 mt-1">Completed live draft games of sessions linked to your team</p>
+        </div>
+      </div>
+
+      {myTeams.length === 0 ? (
+        <Card variant="bordered" padding="lg" className="text-center">
+          <p className="text-gray-400">
+            Create a team on the <Link to="/my-teams" className="text-lol-gold hover:underline">My Teams</Link> page
+            and link it when creating live drafts to see analytics here.
+          </p>
+        </Card>
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="grid grid-cols-4 gap-4 p-4 rounded-xl bg-lol-card border border-lol-border">
+            <Select
+              label="Team"
+              options={myTeams.map((t) => ({ value: t.id, label: t.name }))}
+              value={teamId}
+              onChange={(e) => setSearchParams({ team: e.target.value }, { replace: true })}
+              size="sm"
+            />
+            <Select
+              label="Draft Mode"
+              options={[
+                { value: 'all', label: 'All modes' },
+                ...(Object.keys(DRAFT_MODE_LABELS) as DraftMode[]).map((mode) => ({
+                  value: mode,
+                  label: DRAFT_MODE_LABELS[mode],
+                })),
+              ]}
+              value={draftMode}
+              onChange={(e) => setDraftMode(e.target.value as DraftMode | 'all')}
+              size="sm"
+            />
+            <Input label="From" type="date" size="sm" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            <Input label="To" type="date" size="sm" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">{error}</div>
+          )}
+
+          {isLoading && <p className="text-gray-400">Loading draft history...</p>}
+
+          {analytics && analytics.totalGames === 0 && (
+            <Card variant="bordered" padding="lg" className="text-center">
+              <p className="text-gray-400">No completed games match these filters.</p>
+            </Card>
+          )}
+
+          {analytics && analytics.totalGames > 0 && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-4 gap-4">
+                {[
+                  { label: 'Games', value: String(analytics.totalGames), sub: `${analytics.overall.wins}–${analytics.overall.games - analytics.overall.wins}`, color: 'text-white' },
+                  { label: 'Win rate', value: formatWinRate(analytics.overall), sub: `${analytics.overall.games} with a result`, color: winRateColor(analytics.overall) },
+                  { label: 'Blue side', value: formatWinRate(analytics.sides.blue), sub: `${analytics.sides.blue.wins}–${analytics.sides.blue.games - analytics.sides.blue.wins}`, color: 'text-blue-400' },
+                  { label: 'Red side', value: formatWinRate(analytics.sides.red), sub: `${analytics.sides.red.wins}–${analytics.sides.red.games - analytics.sides.red.wins}`, color: 'text-red-400' },
+                ].map((stat) => (
+                  <Card key={stat.label} variant="bordered" padding="md">
+                    <div className="text-xs uppercase tracking-wider text-gray-500">{stat.label}</div>
+                    <div className={`text-2xl font-bold tabular-nums mt-1 ${stat.color}`}>{stat.value}</div>
+                    <div className="text-xs text-gray-500 tabular-nums mt-0.5">{stat.sub}</div>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {renderChampionTable('Most Picked', analytics.mostPicked, 'Picks')}
+                {renderChampionTable('First Pick Choices', analytics.firstPicks, 'Picks')}
+                {renderChampionTable('Most Banned', analytics.mostBanned, 'Bans')}
+                {renderChampionTable('Banned Against You', analytics.bannedAgainst, 'Bans')}
+              </div>
+
+              {/* Opponents */}
+              <Card variant="bordered" padding="md">
+                <h2 className="text-sm font-semibold text-gray-300 mb-3">Win Rate by Opponent</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-500 text-xs uppercase">
+                      <th className="text-left font-medium py-1">Opponent</th>
+                      <th className="text-right font-medium py-1">Games</th>
+                      <th className="text-right font-medium py-1">W–L</th>
+                      <th className="text-right font-medium py-1">Win rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.opponents.map((row) => (
+                      <tr key={row.name.toLowerCase()} className="border-t border-lol-border text-gray-200">
+                        <td className="py-1.5">{row.name}</td>
+                        <td className="py-1.5 text-right tabular-nums">{row.count}</td>
+                        <td className="py-1.5 text-right tabular-nums text-gray-400">
+                          {row.wins}–{row.games - row.wins}
+                        </td>
+                        <td className={`py-1.5 text-right tabular-nums ${winRateColor(row)}`}>{formatWinRate(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,13 +3,20 @@ import { useNavigate } from "react-router-dom";
 import { Button, Card } from "../components/ui";
 import Modal from "../components/ui/Modal";
 import CreateSessionModal from "../components/live-draft/CreateSessionModal";
+import CreateTournamentModal from "../components/tournament/CreateTournamentModal";
 import { liveDraftService } from "../lib/liveDraftService";
+import { tournamentService } from "../lib/tournamentService";
 import { useAuthStore } from "../stores/useAuthStore";
+import { DRAFT_MODE_LABELS } from "../types/liveDraft";
 import type { DraftMode, LiveDraftSession } from "../types/liveDraft";
+import { TOURNAMENT_FORMAT_LABELS } from "../types/tournament";
+import type { Tournament } from "../types/tournament";
 
 export default function LiveDraftListPage() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isTournamentModalOpen, setIsTournamentModalOpen] = useState(false);
   const [sessions, setSessions] = useState<LiveDraftSession[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { user } = useAuthStore();
   const navigate = useNavigate();
@@ -21,8 +28,12 @@ export default function LiveDraftListPage() {
         return;
       }
       try {
-        const userSessions = await liveDraftService.getUserSessions();
+        const [userSessions, userTournaments] = await Promise.all([
+          liveDraftService.getUserSessions(),
+          tournamentService.getUserTournaments(),
+        ]);
         setSessions(userSessions);
+        setTournaments(userTournaments);
       } catch (err) {
         console.error("Failed to load sessions:", err);
       } finally {
@@ -264,8 +275,20 @@ export default function LiveDraftListPage() {
           <Button onClick={() => setIsCreateModalOpen(true)}>
             + New Live Draft
           </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setIsTournamentModalOpen(true)}
+          >
+            + New Tournament
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/live-draft/analytics")}
+          >
+            Team Analytics
+          </Button>
           <p className="text-gray-400 text-sm">
-            Start a new real-time draft session
+            Start a new real-time draft session or a bracket of them
           </p>
         </div>
       )}
@@ -319,6 +342,51 @@ export default function LiveDraftListPage() {
             <p className="text-gray-600 text-sm">
               Set up teams, pick a draft mode, invite your opponent, and go live.
             </p>
+
+            {user && (
+              <button
+                onClick={() => setIsTournamentModalOpen(true)}
+                className="text-sm text-lol-gold/80 hover:text-lol-gold transition-colors"
+              >
+                Running an in-house tournament? Create a bracket →
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Tournaments Section */}
+      {user && tournaments.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold text-white">Tournaments</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {tournaments.map((tournament) => (
+              <button
+                key={tournament.id}
+                onClick={() => navigate(`/tournament/${tournament.id}`)}
+                className="text-left p-4 rounded-xl bg-lol-card border border-lol-border hover:border-lol-gold/40 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-white truncate">
+                    {tournament.name}
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded ${
+                      tournament.status === "completed"
+                        ? "bg-gray-500/10 text-gray-400"
+                        : "bg-green-500/10 text-green-400"
+                    }`}
+                  >
+                    {tournament.status === "completed" ? "Finished" : "Live"}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {TOURNAMENT_FORMAT_LABELS[tournament.format]} ·{" "}
+                  {tournament.teams.length} teams · Bo
+                  {tournament.games_per_match}
+                </p>
+              </button>
+            ))}
           </div>
         </div>
       )}
@@ -379,6 +447,11 @@ export default function LiveDraftListPage() {
                     label: "Fearless",
                     color: "text-yellow-400",
                   },
+                  {
+                    value: "hard_fearless",
+                    label: "Hard Fearless",
+                    color: "text-orange-400",
+                  },
                   { value: "ironman", label: "Ironman", color: "text-red-400" },
                 ] as const
               ).map((mode) => (
@@ -432,6 +505,11 @@ export default function LiveDraftListPage() {
         onClose={() => setIsCreateModalOpen(false)}
       />
 
+      <CreateTournamentModal
+        isOpen={isTournamentModalOpen}
+        onClose={() => setIsTournamentModalOpen(false)}
+      />
+
       {/* Hide Session Confirmation Modal */}
       <Modal
         isOpen={!!sessionToHide}
@@ -514,6 +592,7 @@ function SessionCard({
   const modeColors: Record<string, string> = {
     normal: "text-blue-400",
     fearless: "text-yellow-400",
+    hard_fearless: "text-orange-400",
     ironman: "text-red-400",
   };
 
@@ -620,8 +699,7 @@ function SessionCard({
         <div className="flex items-center justify-between text-gray-400">
           <span>Mode</span>
           <span className={modeColors[session.draft_mode]}>
-            {session.draft_mode.charAt(0).toUpperCase() +
-              session.draft_mode.slice(1)}
+            {DRAFT_MODE_LABELS[session.draft_mode]}
           </span>
         </div>
 
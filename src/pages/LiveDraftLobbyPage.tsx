@@ -5,25 +5,13 @@ import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/useAuthStore';
 import { Button, Card } from '../components/ui';
 import JoinTeamModal from '../components/live-draft/JoinTeamModal';
+import { DRAFT_MODE_LABELS, DRAFT_MODE_DESCRIPTIONS } from '../types/liveDraft';
 import type {
   LiveDraftSession,
   LiveDraftParticipant,
-  DraftMode,
   DraftSide,
 } from '../types/liveDraft';
 
-const DRAFT_MODE_LABELS: Record<DraftMode, string> = {
-  normal: 'Normal',
-  fearless: 'Fearless',
-  ironman: 'Ironman',
-};
-
-const DRAFT_MODE_DESCRIPTIONS: Record<DraftMode, string> = {
-  normal: 'Standard draft rules',
-  fearless: "Champions can't be picked by the same team twice",
-  ironman: 'Picked/banned champions are unavailable for the series',
-};
-
 export default function LiveDraftLobbyPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
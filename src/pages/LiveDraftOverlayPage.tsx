@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { liveDraftService } from '../lib/liveDraftService';
+import { supabase } from '../lib/supabase';
+import { useChampionData } from '../hooks/useChampionData';
+import { getCenteredSplashUrl, loadSplashMap } from '../lib/datadragon';
+import { NONE_CHAMPION, getDraftStep, getSeriesScore, resolveDraftOrder } from '../types/liveDraft';
+import type { DraftSide, LiveDraftGame, LiveDraftSession } from '../types/liveDraft';
+
+/**
+ * Caster overlay for OBS browser sources (1920×1080, transparent background).
+ * Read-only and chrome-free.
+ */
+export default function LiveDraftOverlayPage() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const { getIconUrl, champions } = useChampionData();
+
+  const [session, setSession] = useState<LiveDraftSession | null>(null);
+  const [games, setGames] = useState<LiveDraftGame[]>([]);
+  const [splashMapReady, setSplashMapReady] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const load = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const [sessionData, gamesData] = await Promise.all([
+        liveDraftService.getSession(sessionId),
+        liveDraftService.getGames(sessionId),
+      ]);
+      setSession(sessionData);
+      setGames(gamesData);
+    } catch (err) {
+      console.error('Failed to load overlay data:', err);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!sessionId || !supabase) return;
+
+    const channel = supabase
+      .channel(`live_draft_overlay_${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_sessions', filter: `id=eq.${sessionId}` },
+        () => load()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_games', filter: `session_id=eq.${sessionId}` },
+        () => load()
+      )
+      .subscribe((status) => {
+        // (Re)load once subscribed so no update between fetch and subscribe is missed
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      if (supabase) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [sessionId, load]);
+
+  // OBS composites the page over the stream, so nothing behind the overlay may paint
+  useEffect(() => {
+    const html = document.documentElement;
+    const { body } = document;
+    const previous = [html.style.background, body.style.background];
+    html.style.background = 'transparent';
+    body.style.background = 'transparent';
+    return () => {
+      [html.style.background, body.style.background] = previous;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (champions.length === 0) return;
+    loadSplashMap().then(() => setSplashMapReady(true));
+  }, [champions.length]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const game = useMemo(
+    () => games.find((g) => g.status === 'drafting' || g.status === 'trading') ?? games[games.length - 1] ?? null,
+    [games]
+  );
+  const score = useMemo(() => getSeriesScore(games), [games]);
+
+  const timer = useMemo(() => {
+    if (!session || !game || game.status !== 'drafting' || !game.turn_started_at) return null;
+    const step = getDraftStep(game.current_action_index, resolveDraftOrder(session));
+    const limit = step?.actionType === 'ban' ? session.ban_time_seconds : session.pick_time_seconds;
+    const turnStart = new Date(game.turn_started_at).getTime();
+    const until = session.status === 'paused' && session.paused_at ? new Date(session.paused_at).getTime() : now;
+    return Math.max(0, limit - Math.floor((until - turnStart) / 1000));
+  }, [session, game, now]);
+
+  if (!session) return null;
+
+  const blueTeam = game?.blue_side_team ?? 'team1';
+  const teamForSide = (side: DraftSide) =>
+    side === 'blue' ? blueTeam : blueTeam === 'team1' ? 'team2' : 'team1';
+  const nameForSide = (side: DraftSide) =>
+    teamForSide(side) === 'team1' ? session.team1_name : session.team2_name;
+  const scoreForSide = (side: DraftSide) => score[teamForSide(side)];
+  const isActiveSlot = (side: DraftSide, type: 'ban' | 'pick', index: number) => {
+    if (!game || game.status !== 'drafting' || game.current_turn !== side) return false;
+    const step = resolveDraftOrder(session)[game.current_action_index];
+    return step?.actionType === type && step.index === index;
+  };
+
+  const renderBan = (side: DraftSide, championId: string | null, index: number) => (
+    <div
+      key={index}
+      className={`w-14 h-14 rounded overflow-hidden border-2 bg-black/60 ${
+        isActiveSlot(side, 'ban', index) ? 'border-lol-gold animate-pulse' : 'border-white/10'
+      }`}
+    >
+      {championId && championId !== NONE_CHAMPION && (
+        <img src={getIconUrl(championId)} alt={championId} className="w-full h-full object-cover grayscale" />
+      )}
+    </div>
+  );
+
+  const renderPick = (side: DraftSide, championId: string | null, index: number) => (
+    <div
+      key={index}
+      className={`relative w-[150px] h-[260px] overflow-hidden border-2 bg-black/60 ${
+        isActiveSlot(side, 'pick', index)
+          ? 'border-lol-gold'
+          : side === 'blue' ? 'border-blue-500/40' : 'border-red-500/40'
+      }`}
+    >
+      {championId && championId !== NONE_CHAMPION && (
+        <>
+          <img
+            key={splashMapReady ? 'ready' : 'fallback'}
+            src={getCenteredSplashUrl(championId)}
+            alt={championId}
+            className="w-full h-full object-cover"
+          />
+          <div className="absolute inset-x-0 bottom-0 px-2 py-1 bg-gradient-to-t from-black/90 to-transparent text-white text-sm font-semibold text-center">
+            {champions.find((c) => c.id === championId)?.name ?? championId}
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  const renderSide = (side: DraftSide) => {
+    const bans = (side === 'blue' ? game?.blue_bans : game?.red_bans) ?? [];
+    const picks = (side === 'blue' ? game?.blue_picks : game?.red_picks) ?? [];
+    const reverse = side === 'red' ? 'flex-row-reverse' : '';
+
+    return (
+      <div className={`flex flex-col gap-3 ${side === 'red' ? 'items-end' : 'items-start'}`}>
+        <div className={`flex gap-2 ${reverse}`}>{bans.map((id, i) => renderBan(side, id, i))}</div>
+        <div className={`flex gap-1 ${reverse}`}>{picks.map((id, i) => renderPick(side, id, i))}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-[1920px] h-[1080px] relative overflow-hidden font-sans">
+      <div className="absolute inset-x-0 bottom-0 px-10 pb-8 flex items-end justify-between">
+        {renderSide('blue')}
+
+        <div className="flex flex-col items-center gap-2 pb-4 min-w-[220px]">
+          <div className="flex items-center gap-4 text-white text-2xl font-bold">
+            <span className="text-blue-400 truncate max-w-[160px]">{nameForSide('blue')}</span>
+            <span className="tabular-nums">{scoreForSide('blue')} – {scoreForSide('red')}</span>
+            <span className="text-red-400 truncate max-w-[160px]">{nameForSide('red')}</span>
+          </div>
+          {game && (
+            <div className="text-sm uppercase tracking-widest text-gray-300">
+              Game {game.game_number} of {session.planned_games}
+            </div>
+          )}
+          <div
+            className={`text-6xl font-bold tabular-nums ${
+              game?.current_turn === 'blue' ? 'text-blue-400' : game?.current_turn === 'red' ? 'text-red-400' : 'text-white'
+            }`}
+          >
+            {session.status === 'paused' ? 'PAUSED' : timer !== null ? timer : ''}
+          </div>
+        </div>
+
+        {renderSide('red')}
+      </div>
+    </div>
+  );
+}
@@ -11,13 +11,32 @@ import { useEnemyTeamStore } from '../stores/useEnemyTeamStore';
 import { usePlayerPoolStore } from '../stores/usePlayerPoolStore';
 import { useCustomPoolStore } from '../stores/useCustomPoolStore';
 import { useDraftAnalytics } from '../components/draft/hooks/useDraftAnalytics';
+import { useDraftBot } from '../hooks/useDraftBot';
+import { useLiveDraftResync } from '../hooks/useLiveDraftResync';
+import { useUndoRequests } from '../hooks/useUndoRequests';
 import { Button } from '../components/ui';
 import LiveDraftLobbyModal from '../components/live-draft/LiveDraftLobbyModal';
 import LiveDraftChat from '../components/live-draft/LiveDraftChat';
 import LiveDraftBoard from '../components/live-draft/LiveDraftBoard';
 import type { FillingSlot } from '../components/live-draft/LiveDraftBoard';
 import SpectatorCount from '../components/live-draft/SpectatorCount';
-import { DRAFT_ORDER, NONE_CHAMPION } from '../types/liveDraft';
+import TimeoutBanner from '../components/live-draft/TimeoutBanner';
+import UndoRequestBanner from '../components/live-draft/UndoRequestBanner';
+import SyncStatusBanner from '../components/live-draft/SyncStatusBanner';
+import SeriesReportModal from '../components/live-draft/SeriesReportModal';
+import PickRolesModal from '../components/live-draft/PickRolesModal';
+import TradePhaseBanner from '../components/live-draft/TradePhaseBanner';
+import GameResultPicker from '../components/live-draft/GameResultPicker';
+import CoachPanel from '../components/live-draft/CoachPanel';
+import { useCoachFeed } from '../hooks/useCoachFeed';
+import { liveDraftCoachService } from '../lib/liveDraftCoachService';
+import { useTeamVotes, countTeamVotes } from '../hooks/useTeamVotes';
+import { liveDraftTeamService } from '../lib/liveDraftTeamService';
+import { tournamentService } from '../lib/tournamentService';
+import { buildLiveDraftResult, isSameLiveDraftResult } from '../lib/liveDraftResults';
+import { getMatchupRecommendations } from '../lib/championMatchups';
+import { recommendPicks } from '../lib/pickRecommendations';
+import { DRAFT_MODE_LABELS, DRAFT_ORDER_TEMPLATE_LABELS, NONE_CHAMPION, getDraftStep, getUnavailableChampions, isFearlessMode, resolveDraftOrder } from '../types/liveDraft';
 import type {
   LiveDraftSession,
   LiveDraftParticipant,
@@ -25,6 +44,7 @@ import type {
   LiveDraftMessage,
   DbLiveDraftUnavailableChampion,
   DraftSide,
+  PickRole,
 } from '../types/liveDraft';
 
 // Empty game placeholder used before the draft starts
@@ -42,6 +62,12 @@ const EMPTY_GAME: LiveDraftGame = {
   red_bans: [null, null, null, null, null],
   blue_picks: [null, null, null, null, null],
   red_picks: [null, null, null, null, null],
+  blue_roles: null,
+  red_roles: null,
+  blue_lineup: null,
+  red_lineup: null,
+  blue_lineup_confirmed: false,
+  red_lineup_confirmed: false,
   edited_picks: [],
   winner: null,
   started_at: null,
@@ -57,7 +83,7 @@ export default function LiveDraftPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
   const { user: authUser, profile: authProfile } = useAuthStore();
-  const { champions } = useChampionData();
+  const { champions, getChampionById } = useChampionData();
 
   // Preload all champion splash art into browser cache when entering the draft
   useEffect(() => {
@@ -76,6 +102,15 @@ export default function LiveDraftPage() {
 
   // Lobby modal state
   const [showLobbyModal, setShowLobbyModal] = useState(true);
+  const [showReport, setShowReport] = useState(false);
+  const [showRoles, setShowRoles] = useState(false);
+  const [overlayCopied, setOverlayCopied] = useState(false);
+  const [rematchLoading, setRematchLoading] = useState(false);
+  const [coachLinkCopied, setCoachLinkCopied] = useState(false);
+  const [isProposing, setIsProposing] = useState(false);
+  const [captainTeamToken, setCaptainTeamToken] = useState<string | null>(null);
+  const [teamLinkCopied, setTeamLinkCopied] = useState(false);
+  const [isVoting, setIsVoting] = useState(false);
 
   // Ready state
   const [bothTeamsWereReady, setBothTeamsWereReady] = useState(false);
@@ -111,7 +146,7 @@ export default function LiveDraftPage() {
   const lockingRef = useRef(false); // synchronous flag visible to both timer and click handler
   const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const autoStartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const autoSubmittedIndexRef = useRef<number>(-999); // tracks which action_index we already auto-submitted for
+  const expiryRequestedIndexRef = useRef<number>(-999); // tracks which action_index we already asked the server to expire
 
   // Fill timed-out slot state
   const [fillingSlot, setFillingSlot] = useState<FillingSlot | null>(null);
@@ -151,6 +186,20 @@ export default function LiveDraftPage() {
     return enemyTeams.find((t) => t.id === linkedDraftSession.enemyTeamId) ?? null;
   }, [linkedDraftSession, enemyTeams]);
 
+  // Teams linked to the live draft session, used to match players to picks
+  const sessionTeam1 = useMemo(() => {
+    if (!session?.team1_linked_team_id) return null;
+    return myTeams.find((t) => t.id === session.team1_linked_team_id) ?? null;
+  }, [session?.team1_linked_team_id, myTeams]);
+
+  const sessionTeam2 = useMemo(() => {
+    if (session?.team2_linked_team_id) {
+      return myTeams.find((t) => t.id === session.team2_linked_team_id) ?? null;
+    }
+    if (!session?.team1_linked_enemy_id) return null;
+    return enemyTeams.find((t) => t.id === session.team1_linked_enemy_id) ?? null;
+  }, [session?.team2_linked_team_id, session?.team1_linked_enemy_id, myTeams, enemyTeams]);
+
   // Compute analytics for contested champions
   const draftAnalytics = useDraftAnalytics({
     myTeam: linkedMyTeam,
@@ -183,7 +232,7 @@ export default function LiveDraftPage() {
 
   // Derived game state
   const activeGame = useMemo(() => {
-    return allGames.find(g => g.status === 'drafting') ?? null;
+    return allGames.find(g => g.status === 'drafting' || g.status === 'trading') ?? null;
   }, [allGames]);
 
   const viewedGame = useMemo(() => {
@@ -195,8 +244,9 @@ export default function LiveDraftPage() {
 
   const isViewingActiveGame = viewedGame?.id === activeGame?.id && activeGame !== null;
 
-  const loadSession = useCallback(async () => {
-    if (!sessionId) return;
+  // Resolves to false when the reload failed
+  const loadSession = useCallback(async (): Promise<boolean> => {
+    if (!sessionId) return false;
 
     try {
       const [sessionData, participantsData, messagesData] = await Promise.all([
@@ -207,15 +257,15 @@ export default function LiveDraftPage() {
 
       if (!sessionData) {
         navigate('/live-draft');
-        return;
+        return false;
       }
 
       setSession(sessionData);
       setParticipants(participantsData);
       setMessages(messagesData);
 
-      // Load all games if session has started (in progress or completed)
-      if (sessionData.status === 'in_progress' || sessionData.status === 'completed') {
+      // Load all games if session has started (in progress, paused or completed)
+      if (sessionData.status === 'in_progress' || sessionData.status === 'paused' || sessionData.status === 'completed') {
         const games = await liveDraftService.getGames(sessionId);
         setAllGames(games);
 
@@ -225,12 +275,28 @@ export default function LiveDraftPage() {
           setFearlessChampions(uc);
         }
       }
+      return true;
     } catch (err) {
       console.error('Failed to load session:', err);
       setError(err instanceof Error ? err.message : 'Failed to load session');
+      return false;
     }
   }, [sessionId]);
 
+  // Connection tracking and incremental catch-up after the channel drops
+  const { connectionStatus, syncStatus, handleChannelStatus, recover } = useLiveDraftResync({
+    sessionId,
+    session,
+    allGames,
+    setSession,
+    setAllGames,
+    setParticipants,
+    setMessages,
+    setFearlessChampions,
+    reloadAll: loadSession,
+  });
+  const isOutOfSync = syncStatus === 'out_of_sync';
+
   // Sync auth store user into local state (no network calls)
   useEffect(() => {
     setCurrentUserId(authUser?.id ?? null);
@@ -398,6 +464,7 @@ export default function LiveDraftPage() {
         if (err) {
           console.error('[LiveDraft] Realtime subscription error:', status, err);
         }
+        handleChannelStatus(status);
       });
 
     channelRef.current = channel;
@@ -408,7 +475,7 @@ export default function LiveDraftPage() {
         supabase.removeChannel(channel);
       }
     };
-  }, [sessionId, loadSession]);
+  }, [sessionId, loadSession, handleChannelStatus]);
 
   // Broadcast a session update to all subscribers via Supabase Broadcast
   const broadcastSessionUpdate = useCallback(() => {
@@ -528,6 +595,27 @@ export default function LiveDraftPage() {
   const mySideRef = useRef(mySide);
   mySideRef.current = mySide;
 
+  // Completed games are written back into the captain's linked draft plan
+  const recordLiveDraftResult = useDraftStore((s) => s.recordLiveDraftResult);
+  const resultDraftId = myTeam
+    ? (myTeam === 'team1' ? session?.team1_linked_draft_id : session?.team2_linked_draft_id) ?? linkedDraftSessionId
+    : null;
+
+  useEffect(() => {
+    if (!session || !myTeam || !resultDraftId) return;
+    const draft = draftSessions.find((s) => s.id === resultDraftId);
+    if (!draft) return;
+    for (const game of allGames) {
+      if (game.status !== 'completed') continue;
+      const existing = draft.liveResults?.find((r) => r.liveGameId === game.id);
+      // Rebuild on a later result or post-game pick edit, keeping the planned-ban snapshot
+      const result = buildLiveDraftResult(session, game, myTeam, draft, existing);
+      if (!existing || !isSameLiveDraftResult(existing, result)) {
+        recordLiveDraftResult(draft.id, result);
+      }
+    }
+  }, [session, myTeam, resultDraftId, draftSessions, allGames, recordLiveDraftResult]);
+
   // Determine if the user is a spectator (for gating lobby modal close)
   const myParticipant = currentUserId
     ? participants.find((p) => p.user_id === currentUserId)
@@ -541,9 +629,45 @@ export default function LiveDraftPage() {
         }
       })();
   const isSpectator = myParticipant?.participant_type === 'spectator';
+  const isCoach = myParticipant?.participant_type === 'coach';
+
+  // Coaches and the team-private coaching feed (signed-in users only)
+  const { coaches, feed: coachFeed } = useCoachFeed(sessionId, currentUserId);
+  const myCoachTeam = !isCaptain && currentUserId
+    ? coaches.find((c) => c.user_id === currentUserId)?.team ?? null
+    : null;
+
+  // Teammates who opened their team's voting link in this browser
+  const storedTeamLink = useMemo(
+    () => (sessionId ? liveDraftTeamService.getStoredTeamLink(sessionId) : null),
+    [sessionId]
+  );
+  const myVoteTeam = !isCaptain && !myCoachTeam ? storedTeamLink?.team ?? null : null;
+
+  // Signed-in captains listen to their team's votes on the channel named after the team link
+  useEffect(() => {
+    if (!sessionId || !myTeam || !currentUserId) return;
+    let cancelled = false;
+    liveDraftTeamService
+      .getTeamLink(sessionId)
+      .then(({ token }) => {
+        if (!cancelled) setCaptainTeamToken(token);
+      })
+      .catch((err) => {
+        console.error('Failed to load team link:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, myTeam, currentUserId]);
+
+  const { votes: teamVotes, castVote } = useTeamVotes(
+    myTeam ? captainTeamToken : myVoteTeam ? storedTeamLink!.token : null,
+    myVoteTeam ? storedTeamLink!.voterId : null
+  );
 
   // User must pick a role (captain or spectator) before closing the lobby modal
-  const hasRole = isCaptain || isSpectator;
+  const hasRole = isCaptain || isSpectator || isCoach || !!myVoteTeam;
 
   // On initial load, if both teams are already ready and user has a role, skip the lobby modal
   const initialLoadDoneRef = useRef(false);
@@ -616,8 +740,53 @@ export default function LiveDraftPage() {
   // Check if it's my turn in the draft (only when viewing the active game)
   const isMyTurn = useMemo(() => {
     if (!isViewingActiveGame || !activeGame || !mySide || activeGame.status !== 'drafting') return false;
+    if (session?.status === 'paused') return false;
     return activeGame.current_turn === mySide;
-  }, [isViewingActiveGame, activeGame, mySide]);
+  }, [isViewingActiveGame, activeGame, mySide, session?.status]);
+
+  // Coaches draft along with their team's side in the active game
+  const coachSide: DraftSide | null = myCoachTeam && activeGame
+    ? (activeGame.blue_side_team === myCoachTeam ? 'blue' : 'red')
+    : null;
+  const isCoachTurn = !!coachSide && isViewingActiveGame && activeGame?.status === 'drafting'
+    && session?.status !== 'paused' && activeGame.current_turn === coachSide;
+
+  // Teammates vote during their side's turn
+  const voteSide: DraftSide | null = myVoteTeam && activeGame
+    ? (activeGame.blue_side_team === myVoteTeam ? 'blue' : 'red')
+    : null;
+  const isVoteTurn = !!voteSide && isViewingActiveGame && activeGame?.status === 'drafting'
+    && session?.status !== 'paused' && activeGame.current_turn === voteSide;
+
+  // Vote totals for the step the captain is making right now
+  const voteCounts = useMemo(() => {
+    if (!isMyTurn || !activeGame) return undefined;
+    return countTeamVotes(teamVotes, activeGame.id, activeGame.current_action_index);
+  }, [isMyTurn, activeGame, teamVotes]);
+
+  // Our team's counter/synergy matrix against the picks made so far
+  const draftTeam = myTeam ?? myCoachTeam ?? myVoteTeam;
+  const ourDraftTeam = (draftTeam === 'team1'
+    ? sessionTeam1
+    : draftTeam === 'team2' && session?.team2_linked_team_id
+      ? sessionTeam2
+      : null) ?? linkedMyTeam;
+  const opponentDraftTeam = (draftTeam === 'team1'
+    ? sessionTeam2
+    : draftTeam === 'team2'
+      ? sessionTeam1
+      : null) ?? linkedEnemyTeam;
+  const matchups = ourDraftTeam?.matchups;
+  const matchupRecommendations = useMemo(() => {
+    if (!draftTeam || !activeGame || !matchups?.length) return undefined;
+    const isBlue = activeGame.blue_side_team === draftTeam;
+    const filled = (ids: (string | null)[]) => ids.filter((id): id is string => !!id && id !== NONE_CHAMPION);
+    return getMatchupRecommendations(
+      matchups,
+      filled(isBlue ? activeGame.red_picks : activeGame.blue_picks),
+      filled(isBlue ? activeGame.blue_picks : activeGame.red_picks)
+    );
+  }, [draftTeam, activeGame, matchups]);
 
   // Broadcast hovered champion to opponent via realtime channel
   useEffect(() => {
@@ -629,6 +798,23 @@ export default function LiveDraftPage() {
     });
   }, [selectedChampion, mySide]);
 
+  // Persist the hover on the server so it gets locked in if the turn expires
+  const activeGameId = activeGame?.id;
+  useEffect(() => {
+    if (!isMyTurn || !activeGameId) return;
+    liveDraftService.setHover(activeGameId, selectedChampion).catch((err) => {
+      console.error('Failed to save hovered champion:', err);
+    });
+  }, [selectedChampion, isMyTurn, activeGameId]);
+
+  // Share the coach's hover with their captain only (never on the public channel)
+  useEffect(() => {
+    if (!isCoachTurn || !activeGameId || !selectedChampion) return;
+    liveDraftCoachService.setHover(activeGameId, selectedChampion).catch((err) => {
+      console.error('Failed to share coach hover:', err);
+    });
+  }, [selectedChampion, isCoachTurn, activeGameId]);
+
   // Unread message count — excludes own messages, persists across refresh
   const unreadMessageCount = useMemo(() => {
     const myName = effectiveDisplayName || defaultDisplayName || null;
@@ -646,58 +832,74 @@ export default function LiveDraftPage() {
     ).length;
   }, [messages, lastSeenMessageId, effectiveDisplayName, defaultDisplayName]);
 
-  // Compute unavailable champions based on viewed game + fearless/ironman restrictions
+  // Compute unavailable champions based on viewed game + pre-locked list + fearless/ironman restrictions
   const unavailableChampions = useMemo(() => {
-    const unavailable = new Set<string>();
-    if (!viewedGame) return unavailable;
-
-    // Add all picked and banned champions from viewed game (skip nulls and NONE_CHAMPION)
-    [...viewedGame.blue_bans, ...viewedGame.red_bans, ...viewedGame.blue_picks, ...viewedGame.red_picks]
-      .filter((id): id is string => id !== null && id !== NONE_CHAMPION)
-      .forEach(id => unavailable.add(id));
-
-    // Add fearless/ironman champions from previous games
-    for (const uc of fearlessChampions) {
-      if (session?.draft_mode === 'fearless' && myTeam) {
-        // Fearless: only PICKS carry over (bans don't), and only for YOUR team.
-        if (uc.reason !== 'picked') continue;
-        // The DB stores the side (blue/red) that made the action, but teams
-        // can swap sides between games. Resolve side → team using blue_side_team.
-        const game = allGames.find(g => g.game_number === uc.from_game);
-        if (game) {
-          const ucTeam = uc.team === 'blue' ? game.blue_side_team
-            : uc.team === 'red' ? (game.blue_side_team === 'team1' ? 'team2' : 'team1')
-            : null;
-          if (ucTeam === myTeam) {
-            unavailable.add(uc.champion_id);
-          }
-        }
-      } else {
-        // Ironman: block all previously used champions (picks and bans)
-        unavailable.add(uc.champion_id);
-      }
-    }
-
-    return unavailable;
-  }, [viewedGame, fearlessChampions, session?.draft_mode, myTeam, allGames]);
-
-  // Keep a ref to selectedChampion so the timer closure always sees the latest value
-  const selectedChampionRef = useRef(selectedChampion);
-  selectedChampionRef.current = selectedChampion;
+    if (!viewedGame || !session) return new Set<string>();
+    return getUnavailableChampions(session, viewedGame, fearlessChampions, allGames, myTeam ?? myCoachTeam ?? myVoteTeam);
+  }, [viewedGame, session, fearlessChampions, myTeam, myCoachTeam, myVoteTeam, allGames]);
+
+  // Suggested picks while our side is on a pick turn
+  const pickAnalytics = useDraftAnalytics({
+    myTeam: ourDraftTeam,
+    enemyTeam: opponentDraftTeam,
+    customPools,
+    selectedCustomPoolIds: [],
+    tierFilter: ['S', 'A', 'B', 'C'],
+    playerPools,
+  });
+  const isOurPickTurn = (isMyTurn || isCoachTurn || isVoteTurn) && !!activeGame && !!session
+    && getDraftStep(activeGame.current_action_index, resolveDraftOrder(session))?.actionType === 'pick';
+  const pickSuggestions = useMemo(() => {
+    if (!isOurPickTurn || !activeGame || !session || !draftTeam) return undefined;
+    const isBlue = activeGame.blue_side_team === draftTeam;
+    return recommendPicks({
+      allChampions: pickAnalytics.allChampions,
+      contested: pickAnalytics.contested,
+      ourPicks: isBlue ? activeGame.blue_picks : activeGame.red_picks,
+      enemyPicks: isBlue ? activeGame.red_picks : activeGame.blue_picks,
+      unavailable: unavailableChampions,
+      isFearless: isFearlessMode(session.draft_mode),
+      matchups,
+      getChampionName: (id) => champions.find((c) => c.id === id)?.name ?? id,
+    });
+  }, [isOurPickTurn, activeGame, session, draftTeam, pickAnalytics, unavailableChampions, matchups, champions]);
+
+  // Bot opponent — runs in the human captain's client only
+  useDraftBot({
+    session,
+    activeGame,
+    allGames,
+    unavailableEntries: fearlessChampions,
+    enabled: isTeam1Captain,
+    team: currentUserId ? undefined : 'team1',
+    onActed: () => {
+      broadcastSessionUpdate();
+      loadSession();
+    },
+  });
 
   // Timer countdown effect — always based on activeGame
-  // Shows 0 on screen, then after a 2-second grace period auto-submits
+  // Shows 0 on screen. The server fills expired turns (hovered champion or
+  // NONE_CHAMPION); after the grace period we nudge it so nobody waits on the cron sweep.
   useEffect(() => {
     if (!activeGame || activeGame.status !== 'drafting' || !activeGame.turn_started_at || !session) {
       setTimerRemaining(null);
       return;
     }
 
-    const currentStep = DRAFT_ORDER[activeGame.current_action_index];
+    const currentStep = getDraftStep(activeGame.current_action_index, resolveDraftOrder(session));
     const timeLimit = currentStep?.actionType === 'ban' ? session.ban_time_seconds : session.pick_time_seconds;
     const turnStart = new Date(activeGame.turn_started_at).getTime();
     const actionIndex = activeGame.current_action_index;
-    const GRACE_SECONDS = 2;
+    const gameId = activeGame.id;
+    const GRACE_SECONDS = 2; // keep in sync with live_draft_turn_grace_seconds()
+
+    // Tactical timeout: freeze the clock at the time left when the pause began
+    if (session.status === 'paused' && session.paused_at) {
+      const elapsedAtPause = Math.floor((new Date(session.paused_at).getTime() - turnStart) / 1000);
+      setTimerRemaining(Math.max(0, timeLimit - elapsedAtPause));
+      return;
+    }
 
     const updateTimer = () => {
       const elapsed = Math.floor((Date.now() - turnStart) / 1000);
@@ -705,29 +907,12 @@ export default function LiveDraftPage() {
       // Display never goes below 0
       setTimerRemaining(Math.max(0, remaining));
 
-      // After grace period: auto-submit (only once per action index)
-      if (remaining <= -GRACE_SECONDS && autoSubmittedIndexRef.current !== actionIndex) {
-        autoSubmittedIndexRef.current = actionIndex;
-
-        // Only the captain whose turn it is should submit
-        const isMyTurnNow = activeGame.current_turn === mySide;
-        if (isMyTurnNow && !lockingRef.current) {
-          const champion = selectedChampionRef.current;
-          const hasValidChampion = champion && !unavailableChampions.has(champion);
-          // If a valid champ is hovered, lock it in. Otherwise submit NONE_CHAMPION (blank ban/pick).
-          const championToSubmit = hasValidChampion ? champion : NONE_CHAMPION;
-
-          lockingRef.current = true;
-          setIsLocking(true);
-          liveDraftService.submitAction(activeGame.id, championToSubmit)
-            .catch((err) => {
-              // 23505 = duplicate key — the other code path already submitted this action
-              if (err?.code === '23505') return;
-              console.error('Auto-submit on timeout failed:', err);
-              setError(err instanceof Error ? err.message : 'Auto-submit failed');
-            })
-            .finally(() => { lockingRef.current = false; setIsLocking(false); });
-        }
+      // After grace period: ask the server to expire the turn (only once per action index)
+      if (remaining <= -GRACE_SECONDS && expiryRequestedIndexRef.current !== actionIndex) {
+        expiryRequestedIndexRef.current = actionIndex;
+        liveDraftService.expireTurn(gameId).catch((err) => {
+          console.error('Failed to expire turn:', err);
+        });
       }
     };
 
@@ -740,14 +925,14 @@ export default function LiveDraftPage() {
         timerIntervalRef.current = null;
       }
     };
-  }, [activeGame, session, mySide, unavailableChampions]);
+  }, [activeGame, session]);
 
   // Handle game selection from header squares
   const handleGameSelect = useCallback(async (gameNumber: number) => {
     const existingGame = allGames.find(g => g.game_number === gameNumber);
 
     if (existingGame) {
-      if (existingGame.status === 'drafting') {
+      if (existingGame.status === 'drafting' || existingGame.status === 'trading') {
         setViewedGameNumber(null); // Follow active game
       } else {
         setViewedGameNumber(gameNumber);
@@ -788,6 +973,236 @@ export default function LiveDraftPage() {
     return myTeam === 'team1' ? !!session.team1_ready : !!session.team2_ready;
   }, [session, myTeam]);
 
+  // Tactical timeouts
+  const [timeoutLoading, setTimeoutLoading] = useState(false);
+
+  const myTimeoutsLeft = useMemo(() => {
+    if (!session || !myTeam) return 0;
+    const used = myTeam === 'team1' ? session.team1_timeouts_used : session.team2_timeouts_used;
+    return Math.max(0, (session.timeouts_per_team ?? 0) - (used ?? 0));
+  }, [session, myTeam]);
+
+  // Undo last action (opponent has to accept)
+  const undoRequests = useUndoRequests(sessionId);
+  const [undoLoading, setUndoLoading] = useState(false);
+  const [expiredUndoAt, setExpiredUndoAt] = useState<string | null>(null);
+
+  // Only a request for the latest action of the active game is still relevant
+  const undoRequest = activeGame
+    ? undoRequests.find(
+        (r) => r.game_id === activeGame.id && r.action_index === activeGame.current_action_index - 1
+      ) ?? null
+    : null;
+  const pendingUndo = undoRequest && undoRequest.created_at !== expiredUndoAt ? undoRequest : null;
+
+  useEffect(() => {
+    if (!undoRequest) return;
+    const timeout = setTimeout(
+      () => setExpiredUndoAt(undoRequest.created_at),
+      Math.max(0, new Date(undoRequest.expires_at).getTime() - Date.now())
+    );
+    return () => clearTimeout(timeout);
+  }, [undoRequest]);
+
+  const draftOrder = useMemo(() => (session ? resolveDraftOrder(session) : undefined), [session]);
+  const lastStep = activeGame && activeGame.current_action_index > 0
+    ? getDraftStep(activeGame.current_action_index - 1, draftOrder)
+    : null;
+  const activeGameSide: DraftSide | null = activeGame && myTeam
+    ? (activeGame.blue_side_team === myTeam ? 'blue' : 'red')
+    : null;
+  const canRequestUndo = !!lastStep && lastStep.turn === activeGameSide
+    && activeGame?.status === 'drafting' && session?.status === 'in_progress' && !pendingUndo;
+
+  const undoStep = pendingUndo ? getDraftStep(pendingUndo.action_index, draftOrder) : null;
+  const undoChampionId = undoStep && activeGame
+    ? (undoStep.actionType === 'ban'
+        ? (undoStep.turn === 'blue' ? activeGame.blue_bans : activeGame.red_bans)
+        : (undoStep.turn === 'blue' ? activeGame.blue_picks : activeGame.red_picks))[undoStep.index]
+    : null;
+  const undoChampionName = undoChampionId && undoChampionId !== NONE_CHAMPION
+    ? getChampionById(undoChampionId)?.name ?? null
+    : null;
+
+  const handleRequestUndo = async () => {
+    if (!activeGame || !myTeam || undoLoading) return;
+
+    setUndoLoading(true);
+    setError(null);
+    try {
+      await liveDraftService.requestUndo(activeGame.id, currentUserId ? undefined : myTeam);
+    } catch (err) {
+      console.error('Failed to request undo:', err);
+      setError(err instanceof Error ? err.message : 'Failed to request undo');
+    } finally {
+      setUndoLoading(false);
+    }
+  };
+
+  const handleRespondUndo = async (accept: boolean) => {
+    if (!activeGame || !myTeam || undoLoading) return;
+
+    setUndoLoading(true);
+    setError(null);
+    try {
+      await liveDraftService.respondToUndo(activeGame.id, accept, currentUserId ? undefined : myTeam);
+      if (accept) {
+        broadcastSessionUpdate();
+        await loadSession();
+      }
+    } catch (err) {
+      console.error('Failed to answer undo request:', err);
+      setError(err instanceof Error ? err.message : 'Failed to answer undo request');
+    } finally {
+      setUndoLoading(false);
+    }
+  };
+
+  const handleTimeout = async (action: 'pause' | 'resume') => {
+    if (!session || !myTeam || timeoutLoading) return;
+
+    setTimeoutLoading(true);
+    setError(null);
+
+    const teamParam = currentUserId ? undefined : myTeam;
+
+    try {
+      if (action === 'pause') {
+        await liveDraftService.pauseDraft(session.id, teamParam);
+      } else {
+        await liveDraftService.resumeDraft(session.id, teamParam);
+      }
+      broadcastSessionUpdate();
+      await loadSession();
+    } catch (err) {
+      console.error(`Failed to ${action} draft:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} draft`);
+    } finally {
+      setTimeoutLoading(false);
+    }
+  };
+
+  // Captain's side in the viewed game (sides can swap between games)
+  const viewedGameSide: DraftSide | null = viewedGame && myTeam
+    ? (viewedGame.blue_side_team === myTeam ? 'blue' : 'red')
+    : null;
+  const viewedGameLineupConfirmed = viewedGameSide === 'blue'
+    ? !!viewedGame?.blue_lineup_confirmed
+    : !!viewedGame?.red_lineup_confirmed;
+
+  const [confirmingLineup, setConfirmingLineup] = useState(false);
+
+  const handleConfirmLineup = async () => {
+    if (!activeGame || !myTeam || confirmingLineup) return;
+
+    setConfirmingLineup(true);
+    setError(null);
+
+    const teamParam = currentUserId ? undefined : myTeam;
+
+    try {
+      await liveDraftService.confirmLineup(activeGame.id, teamParam);
+      setShowRoles(false);
+      broadcastSessionUpdate();
+      await loadSession();
+    } catch (err) {
+      console.error('Failed to confirm lineup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to confirm lineup');
+    } finally {
+      setConfirmingLineup(false);
+    }
+  };
+
+  const handleRecordResult = async (winner: DraftSide) => {
+    if (!viewedGame) return;
+    setError(null);
+    try {
+      await liveDraftService.recordGameResult(viewedGame.id, winner);
+      broadcastSessionUpdate();
+      await loadSession();
+    } catch (err) {
+      console.error('Failed to record result:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record result');
+    }
+  };
+
+  const handleCoachPropose = async () => {
+    if (!activeGame || !selectedChampion || !isCoachTurn) return;
+    setIsProposing(true);
+    try {
+      await liveDraftCoachService.proposeChampion(activeGame.id, selectedChampion);
+    } catch (err) {
+      console.error('Failed to propose champion:', err);
+      setError(err instanceof Error ? err.message : 'Failed to propose champion');
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const handleVote = async () => {
+    if (!activeGame || !selectedChampion || !isVoteTurn) return;
+    setIsVoting(true);
+    try {
+      await castVote({
+        displayName: effectiveDisplayName || defaultDisplayName || 'Teammate',
+        gameId: activeGame.id,
+        actionIndex: activeGame.current_action_index,
+        championId: selectedChampion,
+      });
+    } catch (err) {
+      console.error('Failed to vote:', err);
+      setError(err instanceof Error ? err.message : 'Failed to vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleCopyTeamLink = async () => {
+    if (!captainTeamToken) return;
+    if (await liveDraftService.copyToClipboard(liveDraftTeamService.getTeamUrl(captainTeamToken))) {
+      setTeamLinkCopied(true);
+      setTimeout(() => setTeamLinkCopied(false), 2000);
+    }
+  };
+
+  const handleCopyCoachLink = async () => {
+    if (!session) return;
+    setError(null);
+    try {
+      const url = await liveDraftCoachService.getCoachInviteUrl(session.id);
+      if (await liveDraftService.copyToClipboard(url)) {
+        setCoachLinkCopied(true);
+        setTimeout(() => setCoachLinkCopied(false), 2000);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create coach link');
+    }
+  };
+
+  const handleRematch = async () => {
+    if (!session) return;
+    setError(null);
+    setRematchLoading(true);
+    try {
+      const rematch = await liveDraftService.rematchSession(session);
+      navigate(`/live-draft/${rematch.id}`);
+    } catch (err) {
+      console.error('Failed to create rematch:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create rematch');
+    } finally {
+      setRematchLoading(false);
+    }
+  };
+
+  const handleSavePickRoles = async (roles: PickRole[]) => {
+    if (!viewedGame || !myTeam) return;
+
+    const teamParam = currentUserId ? undefined : myTeam;
+    await liveDraftService.setPickRoles(viewedGame.id, roles, teamParam);
+    broadcastSessionUpdate();
+    await loadSession();
+  };
+
   const handleReady = async () => {
     if (!session || !myTeam || readyLoading) return;
 
@@ -854,10 +1269,7 @@ export default function LiveDraftPage() {
 
   // Handle lock in
   const handleLockIn = async () => {
-    if (!activeGame || !selectedChampion || !isMyTurn || lockingRef.current) return;
-
-    // Prevent the auto-submit timer from racing with this manual lock-in
-    autoSubmittedIndexRef.current = activeGame.current_action_index;
+    if (!activeGame || !selectedChampion || !isMyTurn || isOutOfSync || lockingRef.current) return;
 
     lockingRef.current = true;
     setIsLocking(true);
@@ -866,7 +1278,7 @@ export default function LiveDraftPage() {
     try {
       await liveDraftService.submitAction(activeGame.id, selectedChampion);
     } catch (err) {
-      // 23505 = duplicate key — the timer already auto-submitted this action
+      // 23505 = duplicate key — the server timer already filled this action
       if ((err as { code?: string })?.code === '23505') return;
       console.error('Failed to lock in:', err);
       setError(err instanceof Error ? err.message : 'Failed to lock in champion');
@@ -954,7 +1366,10 @@ export default function LiveDraftPage() {
         <div className="flex items-center gap-3">
           <h1 className="text-lg font-bold text-white">{session.name}</h1>
           <span className="text-gray-500 text-xs">
-            {session.draft_mode === 'normal' ? 'Normal' : session.draft_mode === 'fearless' ? 'Fearless' : 'Ironman'}
+            {DRAFT_MODE_LABELS[session.draft_mode]}
+            {session.draft_order_template && session.draft_order_template !== 'standard' && (
+              <> · {DRAFT_ORDER_TEMPLATE_LABELS[session.draft_order_template]} order</>
+            )}
           </span>
 
           {/* Game navigation squares */}
@@ -969,7 +1384,7 @@ export default function LiveDraftPage() {
               return gameNumbers.map(gNum => {
                 const game = allGames.find(g => g.game_number === gNum);
                 const isCompleted = game?.status === 'completed';
-                const isDrafting = game?.status === 'drafting';
+                const isDrafting = game?.status === 'drafting' || game?.status === 'trading';
                 const isPending = game?.status === 'pending';
                 const isViewed = gNum === (viewedGame?.game_number ?? 1);
 
@@ -1036,6 +1451,159 @@ export default function LiveDraftPage() {
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Series report — available once a game has been completed */}
+          {allGames.some(g => g.status === 'completed') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowReport(true)}
+              title="Series report"
+              className={session.status === 'completed' ? 'text-lol-gold' : undefined}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+            </Button>
+          )}
+          {/* Role assignment for completed games */}
+          {(viewedGame?.status === 'completed' || viewedGame?.status === 'trading') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowRoles(true)}
+              title={isCaptain ? 'Assign roles to picks' : 'View pick roles'}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+            </Button>
+          )}
+          {/* Result for completed games (advances tournament brackets) */}
+          {viewedGame?.status === 'completed' && (
+            <GameResultPicker
+              session={session}
+              game={viewedGame}
+              canRecord={(isCaptain && (!!currentUserId || !session.created_by)) || (!!currentUserId && session.created_by === currentUserId)}
+              onRecord={handleRecordResult}
+            />
+          )}
+          {/* Tournament bracket this series belongs to */}
+          {session.tournament_match_id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={async () => {
+                const match = await tournamentService.getMatch(session.tournament_match_id!);
+                if (match) navigate(`/tournament/${match.tournament_id}`);
+              }}
+              title="View tournament bracket"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v4H4zM4 14h4v4H4zM8 8h4v8H8M12 12h8" />
+              </svg>
+            </Button>
+          )}
+          {/* Replay link for completed games */}
+          {viewedGame?.status === 'completed' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate(`/live-draft/replay/${viewedGame.id}`)}
+              title="Replay this draft step by step"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </Button>
+          )}
+          {/* Rematch — same settings, fresh invite links */}
+          {session.status === 'completed' && (isCaptain || (!!currentUserId && session.created_by === currentUserId)) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRematch}
+              disabled={rematchLoading}
+              title="Start a new series with the same settings"
+            >
+              {rematchLoading ? 'Creating...' : 'Rematch'}
+            </Button>
+          )}
+          {/* Private coach invite link — signed-in captains only */}
+          {isCaptain && !!currentUserId && session.status !== 'completed' && session.status !== 'cancelled' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopyCoachLink}
+              title={coachLinkCopied ? 'Coach link copied!' : 'Copy private coach invite link for your team'}
+              className={coachLinkCopied ? 'text-green-400' : undefined}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+              </svg>
+            </Button>
+          )}
+          {/* Team voting link for the captain's other four players — signed-in captains only */}
+          {isCaptain && !!currentUserId && captainTeamToken && session.status !== 'completed' && session.status !== 'cancelled' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopyTeamLink}
+              title={teamLinkCopied ? 'Team link copied!' : 'Copy team voting link for your teammates'}
+              className={teamLinkCopied ? 'text-green-400' : undefined}
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5" />
+              </svg>
+            </Button>
+          )}
+          {/* Caster overlay link for OBS browser sources */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={async () => {
+              if (await liveDraftService.copyToClipboard(liveDraftService.getOverlayUrl(session.id))) {
+                setOverlayCopied(true);
+                setTimeout(() => setOverlayCopied(false), 2000);
+              }
+            }}
+            title={overlayCopied ? 'Overlay link copied!' : 'Copy caster overlay link (1920×1080, for OBS)'}
+            className={overlayCopied ? 'text-green-400' : undefined}
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          </Button>
+          {/* Tactical timeout button — captains only, during a live draft */}
+          {isCaptain && activeGame?.status === 'drafting' && session.status === 'in_progress' && session.timeouts_per_team > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleTimeout('pause')}
+              disabled={myTimeoutsLeft === 0 || timeoutLoading}
+              title={myTimeoutsLeft > 0 ? 'Call a tactical timeout' : 'No timeouts left'}
+              className="text-orange-400/80 hover:text-orange-300"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="ml-1 text-xs tabular-nums">{myTimeoutsLeft}</span>
+            </Button>
+          )}
+          {/* Undo last action — the opposing captain has to accept */}
+          {isCaptain && canRequestUndo && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRequestUndo}
+              disabled={undoLoading}
+              title="Ask the opposing captain to undo your last ban or pick"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </Button>
+          )}
           {/* Restart game button (testing) */}
           {isCaptain && activeGame && (
             <Button
@@ -1114,22 +1682,77 @@ export default function LiveDraftPage() {
         </div>
       )}
 
+      {/* Reconnect / out-of-sync recovery */}
+      <SyncStatusBanner connectionStatus={connectionStatus} syncStatus={syncStatus} onResync={recover} />
+
+      {/* Tactical timeout banner — visible to captains and spectators */}
+      <TimeoutBanner
+        session={session}
+        canResume={!!myTeam && session.paused_by === myTeam}
+        isResuming={timeoutLoading}
+        onResume={() => handleTimeout('resume')}
+      />
+
+      {/* Pending undo request */}
+      {pendingUndo && (
+        <UndoRequestBanner
+          session={session}
+          request={pendingUndo}
+          myTeam={myTeam}
+          actionType={undoStep?.actionType ?? null}
+          championName={undoChampionName}
+          isResponding={undoLoading}
+          onRespond={handleRespondUndo}
+        />
+      )}
+
+      {/* Team-private coaching feed */}
+      {((myTeam && currentUserId) || myCoachTeam) && (
+        <CoachPanel
+          session={session}
+          team={(myTeam ?? myCoachTeam)!}
+          role={myTeam ? 'captain' : 'coach'}
+          game={activeGame}
+          coaches={coaches}
+          feed={coachFeed}
+          currentUserId={currentUserId}
+          canUseChampion={isMyTurn}
+          onUseChampion={setSelectedChampion}
+        />
+      )}
+
+      {/* Trade phase banner — captains rearrange and lock their lineups */}
+      {activeGame?.status === 'trading' && (
+        <TradePhaseBanner
+          session={session}
+          game={activeGame}
+          mySide={myTeam ? (activeGame.blue_side_team === myTeam ? 'blue' : 'red') : null}
+          isConfirming={confirmingLineup}
+          onRearrange={() => {
+            setViewedGameNumber(null);
+            setShowRoles(true);
+          }}
+          onConfirm={handleConfirmLineup}
+        />
+      )}
+
       {/* Board + Chat sidebar */}
       <div className={`flex flex-1 min-h-0 ${chatOpen ? '' : 'pr-8'}`}>
         <div className="flex-1 min-w-0 h-full">
           <LiveDraftBoard
             session={session}
             game={viewedGame ?? EMPTY_GAME}
-            isMyTurn={isMyTurn}
-            mySide={mySide ?? null}
+            isMyTurn={(isMyTurn || isCoachTurn || isVoteTurn) && !isOutOfSync}
+            mySide={mySide ?? coachSide ?? voteSide}
             selectedChampion={isViewingActiveGame ? selectedChampion : null}
             opponentHoveredChampion={isViewingActiveGame ? opponentHoveredChampion : null}
             onSelectChampion={setSelectedChampion}
-            onLockIn={handleLockIn}
+            onLockIn={myCoachTeam ? handleCoachPropose : myVoteTeam ? handleVote : handleLockIn}
             onReady={handleReady}
             timerRemaining={isViewingActiveGame ? timerRemaining : null}
             unavailableChampions={unavailableChampions}
-            isLocking={isLocking}
+            isLocking={isLocking || isProposing || isVoting}
+            proposeMode={myCoachTeam ? 'coach' : myVoteTeam ? 'vote' : undefined}
             isReadyLoading={readyLoading}
             iAmReady={iAmReady}
             isCaptain={isCaptain}
@@ -1141,6 +1764,9 @@ export default function LiveDraftPage() {
             linkedDraftSession={linkedDraftSession}
             linkedDraftSessionId={linkedDraftSessionId}
             onLinkDraftSession={handleLinkDraftSession}
+            voteCounts={voteCounts}
+            matchupRecommendations={matchupRecommendations}
+            pickSuggestions={pickSuggestions}
             contestedChampionIds={contestedChampionIds}
             onSelectSide={handleSelectSideFromBoard}
             onClearSide={handleClearSide}
@@ -1177,6 +1803,27 @@ export default function LiveDraftPage() {
         </div>
       </div>
 
+      <SeriesReportModal
+        isOpen={showReport}
+        onClose={() => setShowReport(false)}
+        session={session}
+        games={allGames}
+        unavailableChampions={fearlessChampions}
+      />
+
+      {(viewedGame?.status === 'completed' || viewedGame?.status === 'trading') && (
+        <PickRolesModal
+          isOpen={showRoles}
+          onClose={() => setShowRoles(false)}
+          session={session}
+          game={viewedGame}
+          mySide={viewedGameSide && !(viewedGame.status === 'trading' && viewedGameLineupConfirmed) ? viewedGameSide : null}
+          team1={sessionTeam1}
+          team2={sessionTeam2}
+          onSaveRoles={handleSavePickRoles}
+        />
+      )}
+
       {/* Lobby Modal — hidden when session is done */}
       {session.status !== 'completed' && session.status !== 'cancelled' && (
         <LiveDraftLobbyModal
@@ -0,0 +1,346 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { liveDraftService } from '../lib/liveDraftService';
+import { useChampionData } from '../hooks/useChampionData';
+import { Button, Card } from '../components/ui';
+import { NONE_CHAMPION, resolveDraftOrder } from '../types/liveDraft';
+import type { LiveDraftAction, LiveDraftGame, LiveDraftSession, DraftSide } from '../types/liveDraft';
+
+const PLAYBACK_STEP_MS = 1200;
+
+interface ReplayStep {
+  action: LiveDraftAction;
+  slotIndex: number;
+  secondsSpent: number | null;
+}
+
+function formatSeconds(seconds: number | null) {
+  if (seconds === null) return '–';
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function LiveDraftReplayPage() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const { getIconUrl, getChampionById } = useChampionData();
+
+  const [session, setSession] = useState<LiveDraftSession | null>(null);
+  const [game, setGame] = useState<LiveDraftGame | null>(null);
+  const [actions, setActions] = useState<LiveDraftAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stepCount, setStepCount] = useState(0); // number of actions revealed
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const gameData = await liveDraftService.getGame(gameId);
+        if (!gameData || gameData.status !== 'completed') {
+          setError('This replay is unavailable. Only completed games can be replayed.');
+          return;
+        }
+        const [sessionData, actionsData] = await Promise.all([
+          liveDraftService.getSession(gameData.session_id),
+          liveDraftService.getActions(gameId),
+        ]);
+        setGame(gameData);
+        setSession(sessionData);
+        setActions(actionsData);
+        setStepCount(0);
+      } catch (err) {
+        console.error('Failed to load replay:', err);
+        setError('Failed to load replay. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [gameId]);
+
+  // Map each action to its board slot and the time the captain took
+  const steps: ReplayStep[] = useMemo(() => {
+    if (!game || !session) return [];
+    const order = resolveDraftOrder(session);
+
+    return actions.map((action, i) => {
+      // A turn starts when the previous action landed (or when the game started)
+      const turnStart = i === 0 ? game.started_at : actions[i - 1].created_at;
+      const secondsSpent = turnStart
+        ? Math.max(0, Math.round((new Date(action.created_at).getTime() - new Date(turnStart).getTime()) / 1000))
+        : null;
+
+      return {
+        action,
+        slotIndex: order[action.action_index]?.index ?? 0,
+        secondsSpent,
+      };
+    });
+  }, [actions, game, session]);
+
+  // Playback
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (stepCount >= steps.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setStepCount((c) => c + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, stepCount, steps.length]);
+
+  const goTo = useCallback((count: number) => {
+    setIsPlaying(false);
+    setStepCount(Math.max(0, Math.min(steps.length, count)));
+  }, [steps.length]);
+
+  // Keyboard scrubbing
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') goTo(stepCount - 1);
+      else if (e.key === 'ArrowRight') goTo(stepCount + 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [goTo, stepCount]);
+
+  // Board state after the revealed actions
+  const board = useMemo(() => {
+    const empty = () => Array<string | null>(5).fill(null);
+    const state = { blue_bans: empty(), red_bans: empty(), blue_picks: empty(), red_picks: empty() };
+    for (const { action, slotIndex } of steps.slice(0, stepCount)) {
+      const key = `${action.team}_${action.action_type}s` as keyof typeof state;
+      state[key][slotIndex] = action.champion_id;
+    }
+    return state;
+  }, [steps, stepCount]);
+
+  const currentStep = stepCount > 0 ? steps[stepCount - 1] : null;
+
+  const handleCopyLink = async () => {
+    if (!gameId) return;
+    const ok = await liveDraftService.copyToClipboard(liveDraftService.getReplayUrl(gameId));
+    if (ok) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const teamNameForSide = (side: DraftSide) => {
+    if (!session || !game) return side === 'blue' ? 'Blue' : 'Red';
+    const blueIsTeam1 = game.blue_side_team === 'team1';
+    return (side === 'blue') === blueIsTeam1 ? session.team1_name : session.team2_name;
+  };
+
+  const championName = (championId: string | null) => {
+    if (!championId || championId === NONE_CHAMPION) return 'None';
+    return getChampionById(championId)?.name ?? championId;
+  };
+
+  const renderSlot = (championId: string | null, type: 'ban' | 'pick', side: DraftSide, index: number) => {
+    const isCurrent = currentStep?.action.team === side
+      && currentStep.action.action_type === type
+      && currentStep.slotIndex === index;
+    const size = type === 'ban' ? 'w-9 h-9' : 'w-14 h-14';
+
+    return (
+      <div
+        key={`${side}-${type}-${index}`}
+        className={`
+          ${size} rounded overflow-hidden border transition-all
+          ${isCurrent ? 'border-lol-gold ring-1 ring-lol-gold' : 'border-lol-border'}
+          ${championId ? '' : 'bg-lol-dark'}
+        `}
+        title={championId ? championName(championId) : undefined}
+      >
+        {championId && championId !== NONE_CHAMPION && (
+          <img
+            src={getIconUrl(championId)}
+            alt={championName(championId)}
+            className={`w-full h-full object-cover ${type === 'ban' ? 'grayscale' : ''}`}
+          />
+        )}
+        {championId === NONE_CHAMPION && (
+          <div className="w-full h-full flex items-center justify-center text-gray-600 text-xs">—</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSide = (side: DraftSide) => {
+    const bans = side === 'blue' ? board.blue_bans : board.red_bans;
+    const picks = side === 'blue' ? board.blue_picks : board.red_picks;
+    const isWinner = game?.winner === side;
+
+    return (
+      <Card variant="bordered" padding="md" className="flex-1">
+        <div className={`flex items-center gap-2 mb-3 ${side === 'red' ? 'flex-row-reverse' : ''}`}>
+          <h2 className={`text-lg font-semibold ${side === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
+            {teamNameForSide(side)}
+          </h2>
+          {isWinner && stepCount === steps.length && (
+            <span className="text-xs px-2 py-0.5 rounded bg-lol-gold/20 text-lol-gold">Winner</span>
+          )}
+        </div>
+        <div className={`flex gap-1.5 mb-4 ${side === 'red' ? 'justify-end' : ''}`}>
+          {bans.map((id, i) => renderSlot(id, 'ban', side, i))}
+        </div>
+        <div className={`flex flex-col gap-2 ${side === 'red' ? 'items-end' : ''}`}>
+          {picks.map((id, i) => (
+            <div key={i} className={`flex items-center gap-3 ${side === 'red' ? 'flex-row-reverse' : ''}`}>
+              {renderSlot(id, 'pick', side, i)}
+              <span className="text-sm text-gray-300">{id ? championName(id) : ''}</span>
+            </div>
+          ))}
+        </div>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-lol-gray flex items-center justify-center">
+        <p className="text-gray-400">Loading replay...</p>
+      </div>
+    );
+  }
+
+  if (error || !game || !session) {
+    return (
+      <div className="min-h-screen bg-lol-gray flex items-center justify-center p-4">
+        <Card variant="bordered" padding="lg" className="max-w-md w-full text-center">
+          <h1 className="text-xl font-bold text-white mb-2">Replay Not Found</h1>
+          <p className="text-gray-400 mb-6">{error ?? 'This replay could not be found.'}</p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-lol-gold/10 hover:bg-lol-gold/20 text-lol-gold rounded-lg transition-colors"
+          >
+            Go to teamcomp.lol
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-lol-gray">
+      {/* Header */}
+      <header className="bg-lol-dark border-b border-lol-border">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-lol-gold font-bold">
+            <img src="/images/logo.png" alt="Teamcomp logo" className="size-6" />
+            <p>
+              teamcomp.<span className="text-lol-gold">lol</span>
+            </p>
+          </Link>
+          <Button variant="secondary" size="sm" onClick={handleCopyLink}>
+            {copied ? 'Link copied!' : 'Copy replay link'}
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <Card variant="bordered" padding="md">
+          <h1 className="text-2xl font-bold text-white">{session.name}</h1>
+          <p className="text-gray-500 text-sm mt-1">
+            Game {game.game_number} replay · {session.team1_name} vs {session.team2_name}
+          </p>
+        </Card>
+
+        {/* Board */}
+        <div className="flex flex-col md:flex-row gap-4">
+          {renderSide('blue')}
+          {renderSide('red')}
+        </div>
+
+        {/* Controls */}
+        <Card variant="bordered" padding="md" className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => goTo(0)} disabled={stepCount === 0}>
+              ⏮
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => goTo(stepCount - 1)} disabled={stepCount === 0}>
+              ◀
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                if (stepCount >= steps.length) setStepCount(0);
+                setIsPlaying(!isPlaying);
+              }}
+              disabled={steps.length === 0}
+            >
+              {isPlaying ? 'Pause' : 'Play'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => goTo(stepCount + 1)} disabled={stepCount >= steps.length}>
+              ▶
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => goTo(steps.length)} disabled={stepCount >= steps.length}>
+              ⏭
+            </Button>
+            <input
+              type="range"
+              min={0}
+              max={steps.length}
+              value={stepCount}
+              onChange={(e) => goTo(parseInt(e.target.value, 10))}
+              className="flex-1 accent-lol-gold"
+            />
+            <span className="text-sm text-gray-400 tabular-nums w-16 text-right">
+              {stepCount} / {steps.length}
+            </span>
+          </div>
+          <div className="text-sm text-gray-400 min-h-5">
+            {currentStep ? (
+              <>
+                <span className={currentStep.action.team === 'blue' ? 'text-blue-400' : 'text-red-400'}>
+                  {teamNameForSide(currentStep.action.team)}
+                </span>
+                {' '}{currentStep.action.action_type === 'ban' ? 'banned' : 'picked'}{' '}
+                <span className="text-white">{championName(currentStep.action.champion_id)}</span>
+                {' '}after {formatSeconds(currentStep.secondsSpent)}
+              </>
+            ) : (
+              'Draft start — use the controls or arrow keys to step through'
+            )}
+          </div>
+        </Card>
+
+        {/* Timeline */}
+        <Card variant="bordered" padding="md">
+          <h2 className="text-sm font-semibold text-gray-300 mb-3">Timeline</h2>
+          <div className="space-y-1">
+            {steps.map((step, i) => (
+              <button
+                key={step.action.id}
+                onClick={() => goTo(i + 1)}
+                className={`
+                  w-full flex items-center gap-3 px-2 py-1.5 rounded text-sm text-left transition-colors
+                  ${i < stepCount ? 'text-gray-200' : 'text-gray-600'}
+                  ${i === stepCount - 1 ? 'bg-lol-surface' : 'hover:bg-lol-card-hover'}
+                `}
+              >
+                <span className="w-6 text-gray-500 tabular-nums">{i + 1}</span>
+                <span className={`w-12 ${step.action.team === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
+                  {step.action.team === 'blue' ? 'Blue' : 'Red'}
+                </span>
+                <span className="w-10 uppercase text-xs text-gray-500">{step.action.action_type}</span>
+                <span className="flex-1 truncate">{championName(step.action.champion_id)}</span>
+                <span className="tabular-nums text-gray-500">{formatSeconds(step.secondsSpent)}</span>
+              </button>
+            ))}
+            {steps.length === 0 && (
+              <p className="text-sm text-gray-500">No actions were recorded for this game.</p>
+            )}
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -17,7 +17,7 @@ import { useMasteryStore } from '../stores/useMasteryStore';
 import { useAuthStore, useTierLimits } from '../stores/useAuthStore';
 import { parseOpggMultiSearchUrl, Player, Role, ROLES, createEmptyPlayer } from '../types';
 import { Card, ConfirmationModal, Input, Button, Modal } from '../components/ui';
-import { RoleSlot, SubSlot, TeamMembersPanel } from '../components/team';
+import { RoleSlot, SubSlot, TeamMembersPanel, MatchupMatrix } from '../components/team';
 import TeamSettingsModal from '../components/team/TeamSettingsModal';
 import { useOpgg } from '../hooks/useOpgg';
 import { useDroppable } from '@dnd-kit/core';
@@ -69,6 +69,9 @@ export default function MyTeamPage() {
     addNote,
     updateNote,
     deleteNote,
+    addMatchup,
+    updateMatchup,
+    removeMatchup,
     loadMemberships,
     getMyPermissions,
     isTeamNameAvailable,
@@ -1272,6 +1275,21 @@ export default function MyTeamPage() {
         </Card>
         )}
 
+        {/* Counter/synergy matrix - highlighted in the live draft champion grid.
+            Owned teams only: the matrix actions write to the user's own selected team */}
+        {!isMembershipTeam && (
+          <Card variant="bordered" padding="lg">
+            <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wide mb-1">Counters &amp; Synergies</h2>
+            <p className="text-gray-500 text-xs mb-4">Recommended counters are highlighted in live drafts against the enemy's picks.</p>
+            <MatchupMatrix
+              matchups={team.matchups || []}
+              onAdd={addMatchup}
+              onUpdate={updateMatchup}
+              onRemove={removeMatchup}
+            />
+          </Card>
+        )}
+
         {/* Team Settings - only show for owners of teams with a plan */}
         {isOwner && currentTeamHasPlan && (
           <Card variant="bordered" padding="lg">
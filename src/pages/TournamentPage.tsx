@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { tournamentService } from '../lib/tournamentService';
+import { liveDraftService } from '../lib/liveDraftService';
+import { supabase } from '../lib/supabase';
+import { getRoundLabel, getTournamentStandings, getTournamentWinner } from '../lib/tournamentBracket';
+import { useAuthStore } from '../stores/useAuthStore';
+import { Button, Card, ConfirmationModal } from '../components/ui';
+import { DRAFT_MODE_LABELS } from '../types/liveDraft';
+import type { TeamSide } from '../types/liveDraft';
+import { TOURNAMENT_FORMAT_LABELS } from '../types/tournament';
+import type { Tournament, TournamentBracket, TournamentMatch } from '../types/tournament';
+
+const BRACKET_TITLES: Record<TournamentBracket, string> = {
+  winners: 'Winners Bracket',
+  losers: 'Losers Bracket',
+  grand_final: 'Grand Final',
+  round_robin: 'Matches',
+};
+
+export default function TournamentPage() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [settingWinner, setSettingWinner] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!tournamentId) return;
+    try {
+      const [tournamentData, matchesData] = await Promise.all([
+        tournamentService.getTournament(tournamentId),
+        tournamentService.getMatches(tournamentId),
+      ]);
+      if (!tournamentData) {
+        setError('This tournament could not be found.');
+        return;
+      }
+      setTournament(tournamentData);
+      setMatches(matchesData);
+    } catch (err) {
+      console.error('Failed to load tournament:', err);
+      setError('Failed to load tournament. Please try again later.');
+    } finally {
+      setLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (!tournamentId || !supabase) return;
+
+    const channel = supabase
+      .channel(`tournament_${tournamentId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_draft_tournament_matches', filter: `tournament_id=eq.${tournamentId}` },
+        () => load()
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      if (supabase) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [tournamentId, load]);
+
+  const isOrganizer = !!user && tournament?.created_by === user.id;
+  const winner = tournament ? getTournamentWinner(tournament, matches) : null;
+
+  const brackets = useMemo(() => {
+    const order: TournamentBracket[] = ['winners', 'losers', 'grand_final', 'round_robin'];
+    return order
+      .map((bracket) => {
+        const inBracket = matches.filter((m) => m.bracket === bracket);
+        const roundCount = Math.max(0, ...inBracket.map((m) => m.round));
+        const rounds = Array.from({ length: roundCount }, (_, i) =>
+          inBracket.filter((m) => m.round === i + 1).sort((a, b) => a.position - b.position)
+        );
+        return { bracket, rounds };
+      })
+      .filter((b) => b.rounds.length > 0);
+  }, [matches]);
+
+  const handleCopyLink = async () => {
+    if (!tournament) return;
+    const success = await liveDraftService.copyToClipboard(tournamentService.getTournamentUrl(tournament.id));
+    if (success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const handleSetWinner = async (match: TournamentMatch, side: TeamSide) => {
+    setSettingWinner(match.id);
+    setActionError(null);
+    try {
+      await tournamentService.setMatchWinner(match.id, side);
+      await load();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to set match winner');
+    } finally {
+      setSettingWinner(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!tournament) return;
+    try {
+      await tournamentService.deleteTournament(tournament.id);
+      navigate('/live-draft');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete tournament');
+    } finally {
+      setConfirmDelete(false);
+    }
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const isReady = !!match.team1_name && !!match.team2_name;
+    const renderTeam = (side: TeamSide) => {
+      const name = side === 'team1' ? match.team1_name : match.team2_name;
+      const score = side === 'team1' ? match.team1_score : match.team2_score;
+      const isWinner = match.winner === side;
+      const isLoser = match.winner !== null && !isWinner;
+
+      return (
+        <div
+          className={`flex items-center justify-between gap-2 px-3 py-1.5 ${
+            isWinner ? 'text-lol-gold font-semibold' : isLoser ? 'text-gray-500' : 'text-gray-200'
+          }`}
+        >
+          <span className={`truncate ${name ? '' : 'italic text-gray-600'}`}>{name ?? 'TBD'}</span>
+          <div className="flex items-center gap-1.5 shrink-0">
+            {isOrganizer && isReady && match.status !== 'completed' && (
+              <button
+                onClick={() => handleSetWinner(match, side)}
+                disabled={settingWinner === match.id}
+                className="text-[10px] px-1.5 py-0.5 rounded border border-lol-border text-gray-400 hover:text-lol-gold hover:border-lol-gold/50 transition-colors disabled:opacity-50"
+                title={`Advance ${name} without finishing the series`}
+              >
+                Advance
+              </button>
+            )}
+            <span className="tabular-nums w-4 text-right">{match.status === 'pending' ? '' : score}</span>
+          </div>
+        </div>
+      );
+    };
+
+    return (
+      <div
+        key={match.id}
+        className={`w-60 rounded-lg border bg-lol-card divide-y divide-lol-border text-sm ${
+          match.status === 'in_progress' ? 'border-lol-gold/40' : 'border-lol-border'
+        }`}
+      >
+        {renderTeam('team1')}
+        {renderTeam('team2')}
+        {match.session_id && (
+          <Link
+            to={`/live-draft/${match.session_id}`}
+            className="block px-3 py-1 text-xs text-gray-500 hover:text-lol-gold transition-colors"
+          >
+            {match.status === 'completed' ? 'View draft' : 'Open live draft →'}
+          </Link>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-lol-gray flex items-center justify-center">
+        <p className="text-gray-400">Loading tournament...</p>
+      </div>
+    );
+  }
+
+  if (error || !tournament) {
+    return (
+      <div className="min-h-screen bg-lol-gray flex items-center justify-center p-4">
+        <Card variant="bordered" padding="lg" className="max-w-md w-full text-center">
+          <h1 className="text-xl font-bold text-white mb-2">Tournament Not Found</h1>
+          <p className="text-gray-400 mb-6">{error ?? 'This tournament could not be found.'}</p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-lol-gold/10 hover:bg-lol-gold/20 text-lol-gold rounded-lg transition-colors"
+          >
+            Go to teamcomp.lol
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const standings = tournament.format === 'round_robin' ? getTournamentStandings(tournament, matches) : [];
+
+  return (
+    <div className="min-h-screen bg-lol-gray">
+      {/* Header */}
+      <header className="bg-lol-dark border-b border-lol-border">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2 text-lol-gold font-bold">
+            <img src="/images/logo.png" alt="Teamcomp logo" className="size-6" />
+            <p>
+              teamcomp.<span className="text-lol-gold">lol</span>
+            </p>
+          </Link>
+          <div className="flex items-center gap-2">
+            {isOrganizer && (
+              <Button variant="ghost" size="sm" onClick={() => setConfirmDelete(true)} className="text-red-400/80 hover:text-red-300">
+                Delete
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleCopyLink}>
+              {copied ? 'Link copied!' : 'Copy bracket link'}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <Card variant="bordered" padding="md">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-white">{tournament.name}</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.teams.length} teams · Bo
+                {tournament.games_per_match} · {DRAFT_MODE_LABELS[tournament.draft_mode]}
+              </p>
+            </div>
+            {winner ? (
+              <div className="text-right">
+                <div className="text-xs uppercase tracking-wider text-gray-500">Champion</div>
+                <div className="text-lg font-bold text-lol-gold">{winner}</div>
+              </div>
+            ) : (
+              <span className="text-xs px-2 py-1 rounded bg-green-500/10 text-green-400">
+                {matches.filter((m) => m.status === 'completed').length} / {matches.length} matches played
+              </span>
+            )}
+          </div>
+          {actionError && (
+            <div className="mt-3 p-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+              {actionError}
+            </div>
+          )}
+        </Card>
+
+        {/* Round-robin standings */}
+        {standings.length > 0 && (
+          <Card variant="bordered" padding="md">
+            <h2 className="text-sm font-semibold text-gray-300 mb-3">Standings</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 text-xs uppercase">
+                  <th className="text-left font-medium py-1 w-8">#</th>
+                  <th className="text-left font-medium py-1">Team</th>
+                  <th className="text-right font-medium py-1">W</th>
+                  <th className="text-right font-medium py-1">L</th>
+                  <th className="text-right font-medium py-1">Games</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map((row, i) => (
+                  <tr key={row.team} className="border-t border-lol-border text-gray-200">
+                    <td className="py-1.5 text-gray-500">{i + 1}</td>
+                    <td className="py-1.5">{row.team}</td>
+                    <td className="py-1.5 text-right tabular-nums">{row.wins}</td>
+                    <td className="py-1.5 text-right tabular-nums">{row.losses}</td>
+                    <td className="py-1.5 text-right tabular-nums text-gray-400">
+                      {row.gameWins}–{row.gameLosses}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Card>
+        )}
+
+        {/* Brackets */}
+        {brackets.map(({ bracket, rounds }) => (
+          <Card key={bracket} variant="bordered" padding="md">
+            {brackets.length > 1 && <h2 className="text-sm font-semibold text-gray-300 mb-3">{BRACKET_TITLES[bracket]}</h2>}
+            <div className="flex gap-6 overflow-x-auto pb-2">
+              {rounds.map((roundMatches, i) => (
+                <div key={i} className="flex flex-col shrink-0">
+                  <div className="text-xs uppercase tracking-wider text-gray-500 mb-2">
+                    {getRoundLabel(tournament.format, bracket, i + 1, rounds.length)}
+                  </div>
+                  <div className="flex flex-col justify-around flex-1 gap-3">{roundMatches.map(renderMatch)}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        ))}
+      </main>
+
+      <ConfirmationModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete Tournament"
+        message="Delete this tournament and its bracket? The live draft sessions of its matches are kept."
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
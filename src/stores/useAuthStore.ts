@@ -356,6 +356,7 @@ export const useAuthStore = create<AuthState>()((set, get) => ({
           'teamcomp-lol-custom-pools',
           'teamcomp-lol-draft-theory',
           'teamcomp-lol-custom-templates',
+          'teamcomp-lol-live-draft-presets',
           'teamcomp-lol-settings',
         ];
         storeKeys.forEach((key) => localStorage.removeItem(key));
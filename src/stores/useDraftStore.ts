@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ChampionGroup, DraftSession, generateId, Note } from '../types';
+import { ChampionGroup, DraftSession, generateId, LiveDraftResult, Note } from '../types';
 import { cloudSync } from './middleware/cloudSync';
 
 // Helper to validate UUID format for database FK references
@@ -66,6 +66,7 @@ interface DraftState {
   toggleFavorite: (id: string) => void;
   togglePlanned: (id: string) => void;
   duplicateSession: (id: string, targetTeamId: string | null) => DraftSession | null;
+  recordLiveDraftResult: (id: string, result: LiveDraftResult) => void;
 
   // Ban group actions
   addBanGroup: (name: string) => void;
@@ -182,6 +183,7 @@ export const useDraftStore = create<DraftState>()(
             name: `${source.name} (Copy)`,
             isFavorite: false,
             isPlanned: false,
+            liveResults: [],
             createdAt: Date.now(),
             updatedAt: Date.now(),
             banGroups: (source.banGroups || []).map((g) => ({ ...g, id: generateId(), championIds: [...g.championIds] })),
@@ -192,6 +194,21 @@ export const useDraftStore = create<DraftState>()(
           return copy;
         },
 
+        // Upserts by live game so re-recording a game's winner replaces its entry
+        recordLiveDraftResult: (id: string, result: LiveDraftResult) => {
+          set((state) => ({
+            sessions: state.sessions.map((session) => {
+              if (session.id !== id) return session;
+              const others = (session.liveResults || []).filter((r) => r.liveGameId !== result.liveGameId);
+              return {
+                ...session,
+                liveResults: [...others, result].sort((a, b) => a.completedAt - b.completedAt),
+                updatedAt: Date.now(),
+              };
+            }),
+          }));
+        },
+
         // Ban group actions
         addBanGroup: (name: string) => {
           const { currentSessionId, sessions } = get();
@@ -688,6 +705,8 @@ export const useDraftStore = create<DraftState>()(
             notepad: session.notepad || [],
             is_favorite: session.isFavorite || false,
             is_planned: session.isPlanned || false,
+            live_results: session.liveResults || [],
+            series_plan: session.seriesPlan ?? null,
             sort_order: index,
           };
         },
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { cloudSync } from './middleware/cloudSync';
+import { DRAFT_ORDER } from '../types/liveDraft';
 
 type DraftSide = 'blue' | 'red';
 type SlotType = 'ban' | 'pick';
@@ -19,6 +20,12 @@ interface DraftTheoryState {
   blueTeamName: string;
   redTeamName: string;
 
+  // Draft order simulation (local only): champions in DRAFT_ORDER order,
+  // simulationStep of them applied so undone steps can be redone
+  isSimulating: boolean;
+  simulationHistory: string[];
+  simulationStep: number;
+
   setSlot: (side: DraftSide, type: SlotType, index: number, championId: string | null) => void;
   swapSlots: (from: SlotLocation, to: SlotLocation) => void;
   clearSlot: (side: DraftSide, type: SlotType, index: number) => void;
@@ -27,6 +34,10 @@ interface DraftTheoryState {
   getAllUsedChampionIds: () => string[];
   isChampionUsed: (championId: string) => boolean;
   setTeamName: (side: DraftSide, name: string) => void;
+  setSimulating: (isSimulating: boolean) => void;
+  simulateStep: (championId: string) => void;
+  undoStep: () => void;
+  redoStep: () => void;
 }
 
 const createEmptySlots = (): (string | null)[] => [null, null, null, null, null];
@@ -38,6 +49,16 @@ const initialState = {
   redPicks: createEmptySlots(),
   blueTeamName: 'Blue Side',
   redTeamName: 'Red Side',
+  isSimulating: false,
+  simulationHistory: [] as string[],
+  simulationStep: 0,
+};
+
+const emptyBoard = {
+  blueBans: createEmptySlots(),
+  bluePicks: createEmptySlots(),
+  redBans: createEmptySlots(),
+  redPicks: createEmptySlots(),
 };
 
 type SlotKey = 'blueBans' | 'bluePicks' | 'redBans' | 'redPicks';
@@ -46,6 +67,19 @@ const getSlotKey = (side: DraftSide, type: SlotType): SlotKey => {
   return `${side}${type.charAt(0).toUpperCase() + type.slice(1)}s` as SlotKey;
 };
 
+/**
+ * Board slot filled by a step of the standard draft order (null once the draft is complete)
+ */
+export const getSimulationSlot = (step: number): SlotLocation | null => {
+  const orderStep = DRAFT_ORDER[step];
+  if (!orderStep) return null;
+  return {
+    side: orderStep.turn,
+    type: orderStep.actionType === 'pick' ? 'pick' : 'ban',
+    index: orderStep.index,
+  };
+};
+
 export const useDraftTheoryStore = create<DraftTheoryState>()(
   persist(
     cloudSync(
@@ -98,7 +132,8 @@ export const useDraftTheoryStore = create<DraftTheoryState>()(
         });
       },
 
-      clearAll: () => set(initialState),
+      // Keeps simulation mode on, restarting it from the first step
+      clearAll: () => set((state) => ({ ...initialState, isSimulating: state.isSimulating })),
 
       getAllUsedChampionIds: () => {
         const state = get();
@@ -117,6 +152,43 @@ export const useDraftTheoryStore = create<DraftTheoryState>()(
       setTeamName: (side, name) => {
         set({ [`${side}TeamName`]: name });
       },
+
+      // Starting a simulation clears the board so it can be filled step by step
+      setSimulating: (isSimulating) => {
+        set({
+          isSimulating,
+          simulationHistory: [],
+          simulationStep: 0,
+          ...(isSimulating ? emptyBoard : {}),
+        });
+      },
+
+      simulateStep: (championId) => {
+        const { isSimulating, simulationHistory, simulationStep, setSlot, isChampionUsed } = get();
+        const slot = getSimulationSlot(simulationStep);
+        if (!isSimulating || !slot || isChampionUsed(championId)) return;
+        setSlot(slot.side, slot.type, slot.index, championId);
+        set({
+          simulationHistory: [...simulationHistory.slice(0, simulationStep), championId],
+          simulationStep: simulationStep + 1,
+        });
+      },
+
+      undoStep: () => {
+        const { isSimulating, simulationStep, setSlot } = get();
+        if (!isSimulating || simulationStep === 0) return;
+        const slot = getSimulationSlot(simulationStep - 1)!;
+        setSlot(slot.side, slot.type, slot.index, null);
+        set({ simulationStep: simulationStep - 1 });
+      },
+
+      redoStep: () => {
+        const { isSimulating, simulationHistory, simulationStep, setSlot } = get();
+        if (!isSimulating || simulationStep >= simulationHistory.length) return;
+        const slot = getSimulationSlot(simulationStep)!;
+        setSlot(slot.side, slot.type, slot.index, simulationHistory[simulationStep]);
+        set({ simulationStep: simulationStep + 1 });
+      },
     }),
       {
         storeKey: 'draft-theory',
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { cloudSync } from './middleware/cloudSync';
+import { generateId } from '../types';
+import type { CreateLiveDraftSessionConfig } from '../types/liveDraft';
+
+export interface LiveDraftPreset {
+  id: string;
+  name: string;
+  config: CreateLiveDraftSessionConfig;
+}
+
+interface LiveDraftPresetsState {
+  presets: LiveDraftPreset[];
+  addPreset: (name: string, config: CreateLiveDraftSessionConfig) => void;
+  removePreset: (id: string) => void;
+}
+
+export const useLiveDraftPresetsStore = create<LiveDraftPresetsState>()(
+  persist(
+    cloudSync(
+      (set) => ({
+        presets: [],
+
+        addPreset: (name: string, config: CreateLiveDraftSessionConfig) => {
+          set((state) => ({
+            presets: [...state.presets, { id: generateId(), name, config }],
+          }));
+        },
+
+        removePreset: (id: string) => {
+          set((state) => ({
+            presets: state.presets.filter((p) => p.id !== id),
+          }));
+        },
+      }),
+      {
+        storeKey: 'live-draft-presets',
+        tableName: 'live_draft_presets',
+        isArraySync: true,
+        selectSyncData: (state) => state.presets,
+        transformItem: (preset: LiveDraftPreset, userId: string, index: number) => ({
+          id: preset.id,
+          user_id: userId,
+          name: preset.name,
+          config: preset.config,
+          sort_order: index,
+        }),
+      }
+    ),
+    {
+      name: 'teamcomp-lol-live-draft-presets',
+    }
+  )
+);
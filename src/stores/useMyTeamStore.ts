@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Team, Player, createEmptyTeam, createSubPlayer, generateId, Region, Role, ROLES, ChampionTier, TieredChampion, Note } from '../types';
+import { Team, Player, createEmptyTeam, createSubPlayer, generateId, Region, Role, ROLES, ChampionTier, TieredChampion, Note, ChampionMatchup, BanScoringWeights } from '../types';
 import { useSettingsStore } from './useSettingsStore';
 import { useAuthStore } from './useAuthStore';
 import { cloudSync } from './middleware/cloudSync';
@@ -126,6 +126,12 @@ interface MyTeamState {
   addNote: () => void;
   updateNote: (noteId: string, content: string) => void;
   deleteNote: (noteId: string) => void;
+  // Counter/synergy matrix
+  addMatchup: (matchup: Omit<ChampionMatchup, 'id'>) => void;
+  updateMatchup: (matchupId: string, updates: Partial<Omit<ChampionMatchup, 'id'>>) => void;
+  removeMatchup: (matchupId: string) => void;
+  // Ban scoring profile (null resets to the default weights)
+  setBanScoring: (teamId: string, weights: BanScoringWeights | null) => void;
   // Membership team editing (for admins)
   updateMembershipTeamData: (updater: (team: Team) => Team) => void;
   syncMembershipPlayersToCloud: (teamId: string, players: Player[]) => void;
@@ -824,6 +830,46 @@ export const useMyTeamStore = create<MyTeamState>()(
         );
       },
 
+      addMatchup: (matchup) => {
+        set((state) =>
+          updateSelectedTeam(state, (team) => ({
+            ...team,
+            matchups: [...(team.matchups || []), { ...matchup, id: generateId() }],
+            updatedAt: Date.now(),
+          }))
+        );
+      },
+
+      updateMatchup: (matchupId, updates) => {
+        set((state) =>
+          updateSelectedTeam(state, (team) => ({
+            ...team,
+            matchups: (team.matchups || []).map((m) =>
+              m.id === matchupId ? { ...m, ...updates } : m
+            ),
+            updatedAt: Date.now(),
+          }))
+        );
+      },
+
+      removeMatchup: (matchupId) => {
+        set((state) =>
+          updateSelectedTeam(state, (team) => ({
+            ...team,
+            matchups: (team.matchups || []).filter((m) => m.id !== matchupId),
+            updatedAt: Date.now(),
+          }))
+        );
+      },
+
+      setBanScoring: (teamId, weights) => {
+        set((state) => ({
+          teams: state.teams.map((t) =>
+            t.id === teamId ? { ...t, banScoring: weights, updatedAt: Date.now() } : t
+          ),
+        }));
+      },
+
       // Membership team editing — update membershipTeamData locally
       updateMembershipTeamData: (updater: (team: Team) => Team) => {
         const state = get();
@@ -847,6 +893,8 @@ export const useMyTeamStore = create<MyTeamState>()(
           name: team.name,
           notes: team.notes,
           champion_pool: team.championPool || [],
+          champion_matchups: team.matchups || [],
+          ban_scoring: team.banScoring ?? null,
           sort_order: index,
         }),
         // Sync players to the players table after team sync
@@ -149,6 +149,8 @@ export interface Database {
           name: string;
           notes: string;
           champion_pool: unknown;
+          champion_matchups: unknown;
+          ban_scoring: unknown;
           created_at: string;
           updated_at: string;
           sort_order: number;
@@ -170,6 +172,8 @@ export interface Database {
           name: string;
           notes?: string;
           champion_pool?: unknown;
+          champion_matchups?: unknown;
+          ban_scoring?: unknown;
           created_at?: string;
           updated_at?: string;
           sort_order?: number;
@@ -189,6 +193,8 @@ export interface Database {
           name?: string;
           notes?: string;
           champion_pool?: unknown;
+          champion_matchups?: unknown;
+          ban_scoring?: unknown;
           updated_at?: string;
           sort_order?: number;
           has_team_plan?: boolean;
@@ -444,6 +450,29 @@ export interface Database {
           sort_order?: number;
         };
       };
+      live_draft_presets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          config: unknown;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          user_id: string;
+          name: string;
+          config?: unknown;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          config?: unknown;
+          sort_order?: number;
+        };
+      };
       draft_theory: {
         Row: {
           user_id: string;
@@ -672,10 +701,22 @@ export interface Database {
           team2_linked_team_id: string | null;
           team1_linked_enemy_id: string | null;
           team2_linked_enemy_id: string | null;
-          draft_mode: 'normal' | 'fearless' | 'ironman';
+          draft_mode: 'normal' | 'fearless' | 'hard_fearless' | 'ironman';
           planned_games: number;
           pick_time_seconds: number;
           ban_time_seconds: number;
+          draft_order_template: 'standard' | 'clash' | 'ten_ban' | 'custom';
+          draft_order: unknown;
+          timeouts_per_team: number;
+          trade_phase_seconds: number;
+          bot_opponent: boolean;
+          tournament_match_id: string | null;
+          fearless_carryover_games: number | null;
+          locked_champions: string[];
+          team1_timeouts_used: number;
+          team2_timeouts_used: number;
+          paused_at: string | null;
+          paused_by: 'team1' | 'team2' | null;
           status: 'lobby' | 'in_progress' | 'paused' | 'completed' | 'cancelled';
           current_game_number: number;
           invite_token: string;
@@ -705,6 +746,14 @@ export interface Database {
           planned_games?: number;
           pick_time_seconds?: number;
           ban_time_seconds?: number;
+          draft_order_template?: 'standard' | 'clash' | 'ten_ban' | 'custom';
+          draft_order?: unknown;
+          timeouts_per_team?: number;
+          trade_phase_seconds?: number;
+          bot_opponent?: boolean;
+          tournament_match_id?: string | null;
+          fearless_carryover_games?: number | null;
+          locked_champions?: string[];
           status?: 'lobby' | 'in_progress' | 'paused' | 'completed' | 'cancelled';
           current_game_number?: number;
           invite_token?: string;
@@ -739,7 +788,7 @@ export interface Database {
           session_id: string;
           game_number: number;
           blue_side_team: 'team1' | 'team2';
-          status: 'pending' | 'drafting' | 'completed' | 'editing';
+          status: 'pending' | 'drafting' | 'trading' | 'completed' | 'editing';
           current_phase: 'ban1' | 'pick1' | 'ban2' | 'pick2' | null;
           current_turn: 'blue' | 'red' | null;
           current_action_index: number;
@@ -748,6 +797,12 @@ export interface Database {
           red_bans: (string | null)[];
           blue_picks: (string | null)[];
           red_picks: (string | null)[];
+          blue_roles: (string | null)[] | null;
+          red_roles: (string | null)[] | null;
+          blue_lineup: (string | null)[] | null;
+          red_lineup: (string | null)[] | null;
+          blue_lineup_confirmed: boolean;
+          red_lineup_confirmed: boolean;
           edited_picks: unknown;
           winner: 'blue' | 'red' | null;
           started_at: string | null;
@@ -760,7 +815,7 @@ export interface Database {
           session_id: string;
           game_number: number;
           blue_side_team?: 'team1' | 'team2';
-          status?: 'pending' | 'drafting' | 'completed' | 'editing';
+          status?: 'pending' | 'drafting' | 'trading' | 'completed' | 'editing';
           current_phase?: 'ban1' | 'pick1' | 'ban2' | 'pick2' | null;
           current_turn?: 'blue' | 'red' | null;
           current_action_index?: number;
@@ -769,6 +824,12 @@ export interface Database {
           red_bans?: (string | null)[];
           blue_picks?: (string | null)[];
           red_picks?: (string | null)[];
+          blue_roles?: (string | null)[] | null;
+          red_roles?: (string | null)[] | null;
+          blue_lineup?: (string | null)[] | null;
+          red_lineup?: (string | null)[] | null;
+          blue_lineup_confirmed?: boolean;
+          red_lineup_confirmed?: boolean;
           edited_picks?: unknown;
           winner?: 'blue' | 'red' | null;
           started_at?: string | null;
@@ -779,7 +840,7 @@ export interface Database {
         Update: {
           game_number?: number;
           blue_side_team?: 'team1' | 'team2';
-          status?: 'pending' | 'drafting' | 'completed' | 'editing';
+          status?: 'pending' | 'drafting' | 'trading' | 'completed' | 'editing';
           current_phase?: 'ban1' | 'pick1' | 'ban2' | 'pick2' | null;
           current_turn?: 'blue' | 'red' | null;
           current_action_index?: number;
@@ -788,6 +849,12 @@ export interface Database {
           red_bans?: (string | null)[];
           blue_picks?: (string | null)[];
           red_picks?: (string | null)[];
+          blue_roles?: (string | null)[] | null;
+          red_roles?: (string | null)[] | null;
+          blue_lineup?: (string | null)[] | null;
+          red_lineup?: (string | null)[] | null;
+          blue_lineup_confirmed?: boolean;
+          red_lineup_confirmed?: boolean;
           edited_picks?: unknown;
           winner?: 'blue' | 'red' | null;
           started_at?: string | null;
@@ -800,7 +867,7 @@ export interface Database {
           id: string;
           session_id: string;
           user_id: string | null;
-          participant_type: 'controller' | 'spectator';
+          participant_type: 'controller' | 'spectator' | 'coach';
           team: 'blue' | 'red' | null;
           display_name: string | null;
           is_connected: boolean;
@@ -812,7 +879,7 @@ export interface Database {
           id?: string;
           session_id: string;
           user_id?: string | null;
-          participant_type: 'controller' | 'spectator';
+          participant_type: 'controller' | 'spectator' | 'coach';
           team?: 'blue' | 'red' | null;
           display_name?: string | null;
           is_connected?: boolean;
@@ -821,7 +888,7 @@ export interface Database {
           joined_at?: string;
         };
         Update: {
-          participant_type?: 'controller' | 'spectator';
+          participant_type?: 'controller' | 'spectator' | 'coach';
           team?: 'blue' | 'red' | null;
           display_name?: string | null;
           is_connected?: boolean;
@@ -1087,6 +1154,7 @@ export type DbDraftSession = Database['public']['Tables']['draft_sessions']['Row
 export type DbPlayerPool = Database['public']['Tables']['player_pools']['Row'];
 export type DbCustomPool = Database['public']['Tables']['custom_pools']['Row'];
 export type DbCustomTemplate = Database['public']['Tables']['custom_templates']['Row'];
+export type DbLiveDraftPreset = Database['public']['Tables']['live_draft_presets']['Row'];
 export type DbDraftTheory = Database['public']['Tables']['draft_theory']['Row'];
 export type DbTeamMember = Database['public']['Tables']['team_members']['Row'];
 export type DbTeamInvite = Database['public']['Tables']['team_invites']['Row'];
@@ -75,6 +75,8 @@ export interface Team {
   createdAt: number;
   updatedAt: number;
   championPool?: TeamChampionPriority[];
+  matchups?: ChampionMatchup[];
+  banScoring?: BanScoringWeights | null;
   isFavorite?: boolean;
   bannedAt?: string | null;
   banReason?: string | null;
@@ -88,6 +90,30 @@ export interface Champion {
   tags: string[]; // Champion classes from Data Dragon (Fighter, Mage, Tank, etc.)
 }
 
+// Team composition archetypes a champion can enable
+export type CompArchetype = 'engage' | 'poke' | 'protect' | 'splitpush' | 'pick';
+
+export const COMP_ARCHETYPES: { value: CompArchetype; label: string }[] = [
+  { value: 'engage', label: 'Engage' },
+  { value: 'poke', label: 'Poke' },
+  { value: 'protect', label: 'Protect the Carry' },
+  { value: 'splitpush', label: 'Split-push' },
+  { value: 'pick', label: 'Pick' },
+];
+
+export interface ChampionAttributes {
+  frontline: boolean;
+  cc: 0 | 1 | 2 | 3; // Crowd control strength
+  styles: CompArchetype[]; // Strongest first
+}
+
+// Share of a champion's damage by type, in percent (sums to 100)
+export interface ChampionDamageProfile {
+  ad: number;
+  ap: number;
+  true: number;
+}
+
 export interface ChampionStats {
   hp: number; hpperlevel: number;
   mp: number; mpperlevel: number;
@@ -184,6 +210,40 @@ export interface TeamChampionPriority {
   notes?: string;
 }
 
+// Counter/synergy matrix, edited per team
+export type MatchupType = 'counter' | 'synergy';
+export type MatchupStrength = 1 | 2 | 3;
+
+export interface ChampionMatchup {
+  id: string;
+  /** Our champion */
+  championId: string;
+  /** Enemy champion for counters, ally champion for synergies */
+  targetId: string;
+  type: MatchupType;
+  strength: MatchupStrength;
+  notes?: string;
+}
+
+// Weights for ranking enemy ban candidates, tunable per team
+export interface BanScoringWeights {
+  /** Multiplier on the enemy's best tier score */
+  tier: number;
+  perPlayer: number;
+  flex: number;
+  contested: number;
+  /** Points for a high-mastery champion, scaled down for lower mastery */
+  mastery: number;
+  /** Points for a champion buffed in the latest patch */
+  patchBuff: number;
+}
+
+export const MATCHUP_STRENGTHS: { value: MatchupStrength; label: string }[] = [
+  { value: 1, label: 'Slight' },
+  { value: 2, label: 'Good' },
+  { value: 3, label: 'Strong' },
+];
+
 export const TIERS: { value: ChampionTier; label: string; color: string }[] = [
   { value: 'S', label: 'S Tier', color: 'text-yellow-400' },
   { value: 'A', label: 'A Tier', color: 'text-green-400' },
@@ -206,10 +266,44 @@ export interface DraftSession {
   notepad?: Note[];
   isFavorite?: boolean;
   isPlanned?: boolean;
+  // Completed live draft games this plan was linked to
+  liveResults?: LiveDraftResult[];
+  seriesPlan?: SeriesPlan | null;
   createdAt: number;
   updatedAt: number;
 }
 
+// Fearless series plan: champions of our players assigned to each game
+export interface SeriesPlanPick {
+  championId: string;
+  role: Role;
+}
+
+export interface SeriesPlan {
+  gameCount: number;
+  games: SeriesPlanPick[][]; // index = game number - 1
+}
+
+// How a planned ban played out in a live draft game
+export type PlannedBanOutcome = 'banned' | 'banned_by_enemy' | 'picked' | 'picked_by_enemy' | 'open';
+
+export interface LiveDraftResult {
+  liveGameId: string;
+  liveSessionId: string;
+  liveSessionName: string;
+  gameNumber: number;
+  opponentName: string;
+  side: 'blue' | 'red';
+  won: boolean | null; // null until a result is recorded
+  ourBans: string[];
+  theirBans: string[];
+  ourPicks: string[];
+  theirPicks: string[];
+  // Snapshot of the plan's bans when the game finished
+  plannedBans: { championId: string; outcome: PlannedBanOutcome }[];
+  completedAt: number;
+}
+
 // Helper function to generate unique IDs (UUID format for database compatibility)
 export function generateId(): string {
   // Use crypto.randomUUID if available (modern browsers), fallback to manual UUID v4
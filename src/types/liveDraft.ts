@@ -5,14 +5,33 @@
 // ENUMS / CONSTANTS
 // ============================================
 
-export type DraftMode = 'normal' | 'fearless' | 'ironman';
+export type DraftMode = 'normal' | 'fearless' | 'hard_fearless' | 'ironman';
+
+export const DRAFT_MODE_LABELS: Record<DraftMode, string> = {
+  normal: 'Normal',
+  fearless: 'Fearless',
+  hard_fearless: 'Hard Fearless',
+  ironman: 'Ironman',
+};
+
+export const DRAFT_MODE_DESCRIPTIONS: Record<DraftMode, string> = {
+  normal: 'Standard draft rules',
+  fearless: "Champions can't be picked by the same team twice",
+  hard_fearless: "Champions a team picked or banned can't be used by that team again",
+  ironman: 'Picked/banned champions are unavailable for the series',
+};
 export type SessionStatus = 'lobby' | 'in_progress' | 'paused' | 'completed' | 'cancelled';
-export type GameStatus = 'pending' | 'drafting' | 'completed' | 'editing';
+export type GameStatus = 'pending' | 'drafting' | 'trading' | 'completed' | 'editing';
 export type DraftPhase = 'ban1' | 'pick1' | 'ban2' | 'pick2';
 export type DraftSide = 'blue' | 'red';
 export type TeamSide = 'team1' | 'team2';
-export type ParticipantType = 'controller' | 'spectator';
+export type ParticipantType = 'controller' | 'spectator' | 'coach';
+export type CoachFeedKind = 'proposal' | 'hover' | 'note';
 export type DraftActionType = 'ban' | 'pick' | 'timeout';
+export type PickRole = 'top' | 'jungle' | 'mid' | 'adc' | 'support';
+
+export const PICK_ROLES: PickRole[] = ['top', 'jungle', 'mid', 'adc', 'support'];
+export type DraftOrderTemplate = 'standard' | 'clash' | 'ten_ban' | 'custom';
 
 /** Sentinel champion ID used when a ban/pick times out with no selection */
 export const NONE_CHAMPION = '__none__';
@@ -58,14 +77,28 @@ export interface DbLiveDraftSession {
 
   // Config
   draft_mode: DraftMode;
+  fearless_carryover_games: number | null; // Fearless locks expire after N games (null = whole series)
+  locked_champions: string[]; // Pre-locked by the session creator, unavailable in every game
   planned_games: number;
   pick_time_seconds: number;
   ban_time_seconds: number;
+  draft_order_template: DraftOrderTemplate;
+  draft_order: DraftOrderStep[];
+  timeouts_per_team: number;
+  trade_phase_seconds: number; // 0 = no trade phase after the last pick
+  bot_opponent: boolean; // team2 is played by the local draft bot
+  tournament_match_id: string | null; // Set when spawned by a tournament bracket
 
   // State
   status: SessionStatus;
   current_game_number: number;
 
+  // Tactical timeouts (status is 'paused' while one is running)
+  team1_timeouts_used: number;
+  team2_timeouts_used: number;
+  paused_at: string | null;
+  paused_by: 'team1' | 'team2' | null;
+
   // Tokens
   invite_token: string;
 
@@ -95,6 +128,16 @@ export interface DbLiveDraftGame {
   blue_picks: (string | null)[];
   red_picks: (string | null)[];
 
+  /** Role played by each pick slot (same index as *_picks); null until a captain assigns them */
+  blue_roles: (PickRole | null)[] | null;
+  red_roles: (PickRole | null)[] | null;
+
+  /** Final lineup in role order (top → support), set during the trade phase or role assignment */
+  blue_lineup: (string | null)[] | null;
+  red_lineup: (string | null)[] | null;
+  blue_lineup_confirmed: boolean;
+  red_lineup_confirmed: boolean;
+
   edited_picks: EditedPick[];
 
   winner: DraftSide | null;
@@ -151,6 +194,38 @@ export interface DbLiveDraftMessage {
   created_at: string;
 }
 
+export interface DbLiveDraftCoach {
+  session_id: string;
+  user_id: string;
+  team: TeamSide;
+  display_name: string | null;
+  joined_at: string;
+}
+
+// Pending undo request; the opposing captain accepts or declines before expires_at
+export interface DbLiveDraftUndoRequest {
+  game_id: string;
+  session_id: string;
+  action_index: number;
+  requested_by: TeamSide;
+  expires_at: string;
+  created_at: string;
+}
+
+// Team-private coaching feed (RLS: only that team's captain and coaches)
+export interface DbLiveDraftCoachProposal {
+  id: string;
+  session_id: string;
+  game_id: string | null;
+  team: TeamSide;
+  kind: CoachFeedKind;
+  action_index: number | null;
+  champion_id: string | null;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
 // ============================================
 // APPLICATION TYPES
 // ============================================
@@ -198,10 +273,22 @@ export interface LiveDraftMessage extends DbLiveDraftMessage {
 export interface CreateLiveDraftSessionConfig {
   name: string;
   draftMode: DraftMode;
+  fearlessCarryoverGames?: number | null;
+  lockedChampions?: string[];
   plannedGames: number;
   pickTimeSeconds: number;
   banTimeSeconds: number;
 
+  // Draft order (defaults to the standard pro order)
+  draftOrderTemplate?: DraftOrderTemplate;
+  customDraftOrder?: DraftOrderStep[]; // Required when draftOrderTemplate is 'custom'
+
+  // Tactical timeouts each captain may call per series (defaults to 1)
+  timeoutsPerTeam?: number;
+
+  // Length of the post-pick trade phase in seconds (0/omitted = disabled)
+  tradePhaseSeconds?: number;
+
   // Team names (independent of sides - captains choose side in lobby)
   team1Name?: string;
   team2Name?: string;
@@ -210,6 +297,10 @@ export interface CreateLiveDraftSessionConfig {
   linkedDraftId?: string;
   linkedTeamId?: string;
   linkedEnemyId?: string;
+
+  // Practice against the draft bot (bot plays team2 using this enemy team's pools)
+  vsBot?: boolean;
+  botEnemyTeamId?: string;
 }
 
 export interface JoinSessionResult {
@@ -257,6 +348,126 @@ export const DRAFT_ORDER: DraftOrderStep[] = [
   { phase: 'pick2', turn: 'red', actionType: 'pick', index: 4 },
 ];
 
+/** A turn in a draft order before its phase and slot index are derived */
+export interface DraftOrderAction {
+  turn: DraftSide;
+  actionType: 'ban' | 'pick';
+}
+
+/** Max bans or picks per side (the game arrays always hold 5 slots) */
+export const MAX_DRAFT_SLOTS = 5;
+
+/**
+ * Build a full draft order from a plain turn sequence.
+ * Slot indices are assigned per side/action type in order of appearance.
+ * The first ban/pick block maps to ban1/pick1, any later block to ban2/pick2.
+ */
+export function buildDraftOrder(actions: DraftOrderAction[]): DraftOrderStep[] {
+  const slotCounts: Record<string, number> = {};
+  const blocksSeen = { ban: 0, pick: 0 };
+  let previousType: 'ban' | 'pick' | null = null;
+
+  return actions.map(({ turn, actionType }) => {
+    if (actionType !== previousType) {
+      blocksSeen[actionType]++;
+      previousType = actionType;
+    }
+    const key = `${turn}_${actionType}`;
+    const index = slotCounts[key] ?? 0;
+    slotCounts[key] = index + 1;
+
+    const phase: DraftPhase = actionType === 'ban'
+      ? (blocksSeen.ban > 1 ? 'ban2' : 'ban1')
+      : (blocksSeen.pick > 1 ? 'pick2' : 'pick1');
+
+    return { phase, turn, actionType, index };
+  });
+}
+
+// Snake pick order shared by the single-ban-phase templates
+const SNAKE_PICKS: DraftOrderAction[] = (
+  ['blue', 'red', 'red', 'blue', 'blue', 'red', 'red', 'blue', 'blue', 'red'] as DraftSide[]
+).map((turn) => ({ turn, actionType: 'pick' }));
+
+const alternatingBans = (perSide: number): DraftOrderAction[] =>
+  Array.from({ length: perSide * 2 }, (_, i) => ({
+    turn: i % 2 === 0 ? 'blue' : 'red',
+    actionType: 'ban',
+  }));
+
+export const DRAFT_ORDER_TEMPLATES: Record<
+  Exclude<DraftOrderTemplate, 'custom'>,
+  { label: string; description: string; steps: DraftOrderStep[] }
+> = {
+  standard: {
+    label: 'Standard',
+    description: 'Pro tournament draft: 3 bans, 3 picks, 2 bans, 2 picks per side.',
+    steps: DRAFT_ORDER,
+  },
+  clash: {
+    label: 'Clash',
+    description: '3 bans per side, then all picks. No second ban phase.',
+    steps: buildDraftOrder([...alternatingBans(3), ...SNAKE_PICKS]),
+  },
+  ten_ban: {
+    label: '10 Bans',
+    description: '5 bans per side up front, then all picks. No second ban phase.',
+    steps: buildDraftOrder([...alternatingBans(5), ...SNAKE_PICKS]),
+  },
+};
+
+export const DRAFT_ORDER_TEMPLATE_LABELS: Record<DraftOrderTemplate, string> = {
+  standard: DRAFT_ORDER_TEMPLATES.standard.label,
+  clash: DRAFT_ORDER_TEMPLATES.clash.label,
+  ten_ban: DRAFT_ORDER_TEMPLATES.ten_ban.label,
+  custom: 'Custom',
+};
+
+/**
+ * Validate a draft order. Returns an error message, or null when valid.
+ * Each side needs exactly 5 picks and at most 5 bans.
+ */
+export function validateDraftOrder(steps: DraftOrderStep[]): string | null {
+  if (steps.length === 0) return 'Draft order is empty';
+
+  for (const side of ['blue', 'red'] as DraftSide[]) {
+    const picks = steps.filter((s) => s.turn === side && s.actionType === 'pick').length;
+    const bans = steps.filter((s) => s.turn === side && s.actionType === 'ban').length;
+    const sideLabel = side === 'blue' ? 'Blue' : 'Red';
+    if (picks !== MAX_DRAFT_SLOTS) return `${sideLabel} side needs exactly ${MAX_DRAFT_SLOTS} picks (has ${picks})`;
+    if (bans > MAX_DRAFT_SLOTS) return `${sideLabel} side can have at most ${MAX_DRAFT_SLOTS} bans (has ${bans})`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the draft order for a session.
+ * Falls back to the named template, then the standard order, for older rows.
+ */
+export function resolveDraftOrder(
+  session: Pick<DbLiveDraftSession, 'draft_order' | 'draft_order_template'>
+): DraftOrderStep[] {
+  if (Array.isArray(session.draft_order) && session.draft_order.length > 0) {
+    return session.draft_order;
+  }
+  if (session.draft_order_template && session.draft_order_template !== 'custom') {
+    return DRAFT_ORDER_TEMPLATES[session.draft_order_template]?.steps ?? DRAFT_ORDER;
+  }
+  return DRAFT_ORDER;
+}
+
+/**
+ * Get the ban slot indices for a side, split into first and second ban phase
+ */
+export function getBanSlotGroups(order: DraftOrderStep[], side: DraftSide): [number[], number[]] {
+  const bans = order.filter((s) => s.turn === side && s.actionType === 'ban');
+  return [
+    bans.filter((s) => s.phase === 'ban1').map((s) => s.index),
+    bans.filter((s) => s.phase === 'ban2').map((s) => s.index),
+  ];
+}
+
 // ============================================
 // REALTIME EVENTS
 // ============================================
@@ -276,6 +487,15 @@ export interface HoverEvent {
   championId: string | null;
 }
 
+/** A teammate's vote, shared as presence on the team-private channel */
+export interface TeamVoteEvent {
+  voterId: string;
+  displayName: string;
+  gameId: string;
+  actionIndex: number;
+  championId: string;
+}
+
 export interface TimerEvent {
   gameId: string;
   remaining: number;
@@ -315,6 +535,9 @@ export interface PresenceState {
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
 
+/** Whether the local board still matches the server after a reconnect */
+export type SyncStatus = 'in_sync' | 'resyncing' | 'out_of_sync';
+
 export interface LiveDraftState {
   // Current session
   currentSession: LiveDraftSession | null;
@@ -346,50 +569,107 @@ export interface LiveDraftState {
 /**
  * Get the current draft step based on action index
  */
-export function getDraftStep(actionIndex: number): DraftOrderStep | null {
-  return DRAFT_ORDER[actionIndex] ?? null;
+export function getDraftStep(
+  actionIndex: number,
+  order: DraftOrderStep[] = DRAFT_ORDER
+): DraftOrderStep | null {
+  return order[actionIndex] ?? null;
 }
 
 /**
- * Check if a champion is unavailable in the current context
+ * Modes where locks are tracked per team rather than for both teams
  */
-export function isChampionUnavailable(
-  championId: string,
-  mode: DraftMode,
-  currentGame: LiveDraftGame,
-  unavailableChampions: DbLiveDraftUnavailableChampion[],
-  currentTeam?: DraftSide
+export function isFearlessMode(mode: DraftMode): boolean {
+  return mode === 'fearless' || mode === 'hard_fearless';
+}
+
+export type ChampionLockRules = Pick<
+  DbLiveDraftSession,
+  'draft_mode' | 'fearless_carryover_games' | 'locked_champions'
+>;
+
+/**
+ * Check whether a fearless/ironman entry still locks its champion in the given game.
+ * Mirrors live_draft_champion_locked() on the server.
+ */
+export function isLockActive(
+  entry: DbLiveDraftUnavailableChampion,
+  rules: ChampionLockRules,
+  gameNumber: number
 ): boolean {
-  // Always unavailable if already picked/banned in current game
-  const allCurrentChampions = [
-    ...currentGame.blue_bans,
-    ...currentGame.red_bans,
-    ...currentGame.blue_picks,
-    ...currentGame.red_picks,
-  ].filter(Boolean);
-
-  if (allCurrentChampions.includes(championId)) {
-    return true;
-  }
+  if (rules.draft_mode === 'normal') return false;
+  if (entry.from_game >= gameNumber) return false;
+  if (rules.draft_mode === 'ironman') return true;
 
-  // For normal mode, only current game matters
-  if (mode === 'normal') {
-    return false;
-  }
+  // Fearless: only picks lock. Hard fearless: bans lock too.
+  if (rules.draft_mode === 'fearless' && entry.reason !== 'picked') return false;
 
-  // For fearless mode, check if this team has used it before
-  if (mode === 'fearless' && currentTeam) {
-    return unavailableChampions.some(
-      (uc) => uc.champion_id === championId && uc.team === currentTeam
-    );
-  }
+  const carryover = rules.fearless_carryover_games;
+  return carryover == null || gameNumber - entry.from_game <= carryover;
+}
+
+/**
+ * Resolve the team that made a fearless entry. Entries store the side
+ * (blue/red), and teams can swap sides between games.
+ */
+export function getUnavailableEntryTeam(
+  entry: DbLiveDraftUnavailableChampion,
+  games: LiveDraftGame[]
+): TeamSide | null {
+  if (!entry.team) return null;
+  const game = games.find(g => g.game_number === entry.from_game);
+  if (!game) return null;
+  return entry.team === 'blue'
+    ? game.blue_side_team
+    : game.blue_side_team === 'team1' ? 'team2' : 'team1';
+}
 
-  // For ironman mode, check if any team has used it
-  if (mode === 'ironman') {
-    return unavailableChampions.some((uc) => uc.champion_id === championId);
+/**
+ * Champions a team cannot pick or ban in a game: champions already used in the
+ * game, the session's pre-locked list, and active fearless/ironman locks.
+ * @param team - the team drafting; fearless locks are only applied when given
+ */
+export function getUnavailableChampions(
+  rules: ChampionLockRules,
+  game: LiveDraftGame,
+  unavailableChampions: DbLiveDraftUnavailableChampion[],
+  games: LiveDraftGame[],
+  team?: TeamSide | null
+): Set<string> {
+  const unavailable = new Set<string>();
+
+  [...game.blue_bans, ...game.red_bans, ...game.blue_picks, ...game.red_picks]
+    .filter((id): id is string => id !== null && id !== NONE_CHAMPION)
+    .forEach(id => unavailable.add(id));
+
+  (rules.locked_champions ?? []).forEach(id => unavailable.add(id));
+
+  for (const uc of unavailableChampions) {
+    if (!isLockActive(uc, rules, game.game_number)) continue;
+    if (isFearlessMode(rules.draft_mode)) {
+      if (team && getUnavailableEntryTeam(uc, games) === team) {
+        unavailable.add(uc.champion_id);
+      }
+    } else {
+      unavailable.add(uc.champion_id);
+    }
   }
 
-  return false;
+  return unavailable;
+}
+
+/**
+ * Check if a champion is unavailable in the current context
+ */
+export function isChampionUnavailable(
+  championId: string,
+  rules: ChampionLockRules,
+  currentGame: LiveDraftGame,
+  unavailableChampions: DbLiveDraftUnavailableChampion[],
+  games: LiveDraftGame[],
+  team?: TeamSide | null
+): boolean {
+  return getUnavailableChampions(rules, currentGame, unavailableChampions, games, team).has(championId);
 }
 
 /**
@@ -0,0 +1,109 @@
+// Tournament Types
+// Brackets of live draft sessions
+
+import type { DraftMode, TeamSide } from './liveDraft';
+
+// ============================================
+// ENUMS / CONSTANTS
+// ============================================
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin';
+export type TournamentStatus = 'in_progress' | 'completed';
+export type TournamentBracket = 'winners' | 'losers' | 'grand_final' | 'round_robin';
+export type TournamentMatchStatus = 'pending' | 'in_progress' | 'completed';
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single Elimination',
+  double_elimination: 'Double Elimination',
+  round_robin: 'Round Robin',
+};
+
+export const TOURNAMENT_FORMAT_DESCRIPTIONS: Record<TournamentFormat, string> = {
+  single_elimination: 'Lose once and you are out',
+  double_elimination: 'Teams drop to the losers bracket after their first loss',
+  round_robin: 'Every team plays every other team once',
+};
+
+export const MIN_TOURNAMENT_TEAMS = 2;
+export const MAX_TOURNAMENT_TEAMS = 32;
+
+// ============================================
+// DATABASE TYPES
+// ============================================
+
+export interface DbTournament {
+  id: string;
+  name: string;
+  created_by: string;
+  format: TournamentFormat;
+  teams: string[]; // Seed order
+  games_per_match: number;
+  draft_mode: DraftMode;
+  pick_time_seconds: number;
+  ban_time_seconds: number;
+  status: TournamentStatus;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbTournamentMatch {
+  id: string;
+  tournament_id: string;
+  bracket: TournamentBracket;
+  round: number;
+  position: number;
+  team1_name: string | null;
+  team2_name: string | null;
+  team1_score: number;
+  team2_score: number;
+  winner: TeamSide | null;
+  status: TournamentMatchStatus;
+  session_id: string | null;
+  next_match_id: string | null;
+  next_match_slot: TeamSide | null;
+  loser_next_match_id: string | null;
+  loser_next_match_slot: TeamSide | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type Tournament = DbTournament;
+export type TournamentMatch = DbTournamentMatch;
+
+// ============================================
+// APPLICATION TYPES
+// ============================================
+
+/** A generated match before it is stored */
+export type PlannedTournamentMatch = Pick<
+  DbTournamentMatch,
+  | 'id'
+  | 'bracket'
+  | 'round'
+  | 'position'
+  | 'team1_name'
+  | 'team2_name'
+  | 'next_match_id'
+  | 'next_match_slot'
+  | 'loser_next_match_id'
+  | 'loser_next_match_slot'
+>;
+
+export interface CreateTournamentConfig {
+  name: string;
+  format: TournamentFormat;
+  teams: string[];
+  gamesPerMatch: number;
+  draftMode: DraftMode;
+  pickTimeSeconds: number;
+  banTimeSeconds: number;
+}
+
+export interface TournamentStanding {
+  team: string;
+  wins: number;
+  losses: number;
+  gameWins: number;
+  gameLosses: number;
+}
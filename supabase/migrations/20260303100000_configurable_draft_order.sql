@@ -0,0 +1,188 @@
+-- Configurable draft order templates.
+-- Sessions now store their draft order (standard, clash, 10-ban or custom)
+-- and submit_draft_action reads the next step from it instead of the
+-- hardcoded 20-step arrays.
+
+ALTER TABLE public.live_draft_sessions
+  ADD COLUMN draft_order_template TEXT NOT NULL DEFAULT 'standard'
+    CHECK (draft_order_template IN ('standard', 'clash', 'ten_ban', 'custom')),
+  ADD COLUMN draft_order JSONB NOT NULL DEFAULT '[
+    {"phase": "ban1", "turn": "blue", "actionType": "ban", "index": 0},
+    {"phase": "ban1", "turn": "red", "actionType": "ban", "index": 0},
+    {"phase": "ban1", "turn": "blue", "actionType": "ban", "index": 1},
+    {"phase": "ban1", "turn": "red", "actionType": "ban", "index": 1},
+    {"phase": "ban1", "turn": "blue", "actionType": "ban", "index": 2},
+    {"phase": "ban1", "turn": "red", "actionType": "ban", "index": 2},
+    {"phase": "pick1", "turn": "blue", "actionType": "pick", "index": 0},
+    {"phase": "pick1", "turn": "red", "actionType": "pick", "index": 0},
+    {"phase": "pick1", "turn": "red", "actionType": "pick", "index": 1},
+    {"phase": "pick1", "turn": "blue", "actionType": "pick", "index": 1},
+    {"phase": "pick1", "turn": "blue", "actionType": "pick", "index": 2},
+    {"phase": "pick1", "turn": "red", "actionType": "pick", "index": 2},
+    {"phase": "ban2", "turn": "red", "actionType": "ban", "index": 3},
+    {"phase": "ban2", "turn": "blue", "actionType": "ban", "index": 3},
+    {"phase": "ban2", "turn": "red", "actionType": "ban", "index": 4},
+    {"phase": "ban2", "turn": "blue", "actionType": "ban", "index": 4},
+    {"phase": "pick2", "turn": "red", "actionType": "pick", "index": 3},
+    {"phase": "pick2", "turn": "blue", "actionType": "pick", "index": 3},
+    {"phase": "pick2", "turn": "blue", "actionType": "pick", "index": 4},
+    {"phase": "pick2", "turn": "red", "actionType": "pick", "index": 4}
+  ]'::JSONB
+    CHECK (jsonb_typeof(draft_order) = 'array' AND jsonb_array_length(draft_order) BETWEEN 10 AND 20);
+
+CREATE OR REPLACE FUNCTION public.submit_draft_action(
+  p_game_id UUID,
+  p_champion_id TEXT
+)
+RETURNS public.live_draft_actions AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_action public.live_draft_actions;
+  v_user_id UUID;
+  v_blue_captain_id UUID;
+  v_red_captain_id UUID;
+  v_is_blue_captain BOOLEAN;
+  v_step JSONB;
+  v_next_step JSONB;
+  v_action_type TEXT;
+  v_slot INTEGER;
+  v_next_index INTEGER;
+  v_team_for_unavail TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Lock the game row to serialize concurrent submissions
+  SELECT * INTO v_game
+    FROM public.live_draft_games
+    WHERE id = p_game_id
+    FOR UPDATE;
+
+  IF v_game IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  -- Check if this action was already submitted (idempotent guard)
+  SELECT * INTO v_action
+    FROM public.live_draft_actions
+    WHERE game_id = p_game_id
+      AND action_index = v_game.current_action_index;
+
+  IF v_action IS NOT NULL THEN
+    -- Action already recorded — return it without error
+    RETURN v_action;
+  END IF;
+
+  SELECT * INTO v_session FROM public.live_draft_sessions WHERE id = v_game.session_id;
+
+  -- Look up the current step in the session's draft order (JSONB arrays are 0-indexed)
+  v_step := v_session.draft_order -> v_game.current_action_index;
+
+  IF v_game.status <> 'drafting' OR v_step IS NULL THEN
+    RAISE EXCEPTION 'Game is not drafting';
+  END IF;
+
+  -- Determine which team captain is on which side using blue_side_team
+  IF v_game.blue_side_team = 'team1' THEN
+    v_blue_captain_id := v_session.team1_captain_id;
+    v_red_captain_id := v_session.team2_captain_id;
+  ELSE
+    v_blue_captain_id := v_session.team2_captain_id;
+    v_red_captain_id := v_session.team1_captain_id;
+  END IF;
+
+  -- Verify it's the user's turn
+  v_is_blue_captain := (v_user_id = v_blue_captain_id);
+
+  IF v_game.current_turn = 'blue' AND NOT v_is_blue_captain THEN
+    RAISE EXCEPTION 'It is not your turn';
+  END IF;
+
+  IF v_game.current_turn = 'red' AND v_is_blue_captain THEN
+    RAISE EXCEPTION 'It is not your turn';
+  END IF;
+
+  v_action_type := v_step ->> 'actionType';
+  v_slot := (v_step ->> 'index')::INTEGER + 1;  -- PostgreSQL arrays are 1-indexed
+
+  -- Insert the action
+  INSERT INTO public.live_draft_actions (
+    game_id, action_index, action_type, team, champion_id, performed_by
+  )
+  VALUES (
+    p_game_id, v_game.current_action_index, v_action_type, v_game.current_turn, p_champion_id, v_user_id
+  )
+  RETURNING * INTO v_action;
+
+  -- Update game state arrays at the slot given by the draft order
+  IF v_action_type = 'ban' THEN
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_bans[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_bans[v_slot] := p_champion_id;
+    END IF;
+  ELSE
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_picks[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_picks[v_slot] := p_champion_id;
+    END IF;
+  END IF;
+
+  -- Track unavailable champions for fearless/ironman modes
+  IF v_session.draft_mode != 'normal' AND p_champion_id != '__none__' THEN
+    v_team_for_unavail := CASE
+      WHEN v_session.draft_mode = 'fearless' THEN v_game.current_turn
+      ELSE NULL
+    END;
+
+    INSERT INTO public.live_draft_unavailable_champions (
+      session_id, champion_id, from_game, reason, team
+    )
+    SELECT
+      v_session.id,
+      p_champion_id,
+      v_game.game_number,
+      CASE WHEN v_action_type = 'ban' THEN 'banned' ELSE 'picked' END,
+      v_team_for_unavail
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.live_draft_unavailable_champions
+      WHERE session_id = v_session.id
+        AND champion_id = p_champion_id
+        AND team IS NOT DISTINCT FROM v_team_for_unavail
+    );
+  END IF;
+
+  -- Advance to next step (atomic — no separate client call needed)
+  v_next_index := v_game.current_action_index + 1;
+  v_next_step := v_session.draft_order -> v_next_index;
+
+  IF v_next_step IS NULL THEN
+    -- Draft is complete
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      status = 'completed',
+      current_phase = NULL,
+      current_turn = NULL,
+      completed_at = NOW()
+    WHERE id = p_game_id;
+  ELSE
+    -- Advance to next step
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      current_action_index = v_next_index,
+      current_phase = v_next_step ->> 'phase',
+      current_turn = v_next_step ->> 'turn',
+      turn_started_at = NOW()
+    WHERE id = p_game_id;
+  END IF;
+
+  RETURN v_action;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,387 @@
+-- Server-authoritative turn timer for live drafts.
+-- Expired turns are now filled by the database instead of the captain's
+-- browser: pg_cron sweeps drafting games every few seconds and locks in the
+-- captain's hovered champion (or '__none__' when nothing valid is hovered).
+-- Clients may also call expire_draft_turn() when their local countdown hits
+-- zero; the server decides whether the turn has actually expired, so clock
+-- skew between clients can no longer cause double submits.
+
+-- ============================================
+-- Hovered champion per game
+-- ============================================
+-- Kept out of live_draft_games so hover updates don't fire postgres_changes
+-- on the games table (which makes clients reload and reset their selection).
+
+CREATE TABLE public.live_draft_hovers (
+  game_id UUID PRIMARY KEY REFERENCES public.live_draft_games(id) ON DELETE CASCADE,
+  action_index INTEGER NOT NULL,
+  champion_id TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.live_draft_hovers ENABLE ROW LEVEL SECURITY;
+
+-- Hovers are only written through set_draft_hover() and read by the server.
+
+CREATE OR REPLACE FUNCTION public.set_draft_hover(
+  p_game_id UUID,
+  p_champion_id TEXT
+)
+RETURNS void AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_user_id UUID;
+  v_turn_captain_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM public.live_draft_games WHERE id = p_game_id;
+
+  IF v_game IS NULL OR v_game.status <> 'drafting' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_session FROM public.live_draft_sessions WHERE id = v_game.session_id;
+
+  v_turn_captain_id := CASE
+    WHEN (v_game.current_turn = 'blue') = (v_game.blue_side_team = 'team1')
+      THEN v_session.team1_captain_id
+    ELSE v_session.team2_captain_id
+  END;
+
+  -- Anonymous captains have no auth.uid(); mirror submit_draft_action and
+  -- only reject authenticated users who aren't the captain on turn.
+  IF v_user_id IS NOT NULL AND v_user_id IS DISTINCT FROM v_turn_captain_id THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.live_draft_hovers (game_id, action_index, champion_id, updated_at)
+  VALUES (p_game_id, v_game.current_action_index, p_champion_id, NOW())
+  ON CONFLICT (game_id) DO UPDATE SET
+    action_index = EXCLUDED.action_index,
+    champion_id = EXCLUDED.champion_id,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_draft_hover TO anon, authenticated;
+
+-- ============================================
+-- Shared action application
+-- ============================================
+-- Records an action for the current step of a (locked) drafting game and
+-- advances it. Used by both submit_draft_action and the turn timer.
+
+CREATE OR REPLACE FUNCTION public.apply_draft_action(
+  p_game public.live_draft_games,
+  p_session public.live_draft_sessions,
+  p_champion_id TEXT,
+  p_performed_by UUID
+)
+RETURNS public.live_draft_actions AS $$
+DECLARE
+  v_game public.live_draft_games := p_game;
+  v_action public.live_draft_actions;
+  v_step JSONB;
+  v_next_step JSONB;
+  v_action_type TEXT;
+  v_slot INTEGER;
+  v_next_index INTEGER;
+  v_team_for_unavail TEXT;
+BEGIN
+  v_step := p_session.draft_order -> v_game.current_action_index;
+  v_action_type := v_step ->> 'actionType';
+  v_slot := (v_step ->> 'index')::INTEGER + 1;  -- PostgreSQL arrays are 1-indexed
+
+  INSERT INTO public.live_draft_actions (
+    game_id, action_index, action_type, team, champion_id, performed_by
+  )
+  VALUES (
+    v_game.id, v_game.current_action_index, v_action_type, v_game.current_turn, p_champion_id, p_performed_by
+  )
+  RETURNING * INTO v_action;
+
+  -- Update game state arrays at the slot given by the draft order
+  IF v_action_type = 'ban' THEN
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_bans[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_bans[v_slot] := p_champion_id;
+    END IF;
+  ELSE
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_picks[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_picks[v_slot] := p_champion_id;
+    END IF;
+  END IF;
+
+  -- Track unavailable champions for fearless/ironman modes
+  IF p_session.draft_mode != 'normal' AND p_champion_id != '__none__' THEN
+    v_team_for_unavail := CASE
+      WHEN p_session.draft_mode = 'fearless' THEN v_game.current_turn
+      ELSE NULL
+    END;
+
+    INSERT INTO public.live_draft_unavailable_champions (
+      session_id, champion_id, from_game, reason, team
+    )
+    SELECT
+      p_session.id,
+      p_champion_id,
+      v_game.game_number,
+      CASE WHEN v_action_type = 'ban' THEN 'banned' ELSE 'picked' END,
+      v_team_for_unavail
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.live_draft_unavailable_champions
+      WHERE session_id = p_session.id
+        AND champion_id = p_champion_id
+        AND team IS NOT DISTINCT FROM v_team_for_unavail
+    );
+  END IF;
+
+  v_next_index := v_game.current_action_index + 1;
+  v_next_step := p_session.draft_order -> v_next_index;
+
+  IF v_next_step IS NULL THEN
+    -- Draft is complete
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      status = 'completed',
+      current_phase = NULL,
+      current_turn = NULL,
+      completed_at = NOW()
+    WHERE id = v_game.id;
+  ELSE
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      current_action_index = v_next_index,
+      current_phase = v_next_step ->> 'phase',
+      current_turn = v_next_step ->> 'turn',
+      turn_started_at = NOW()
+    WHERE id = v_game.id;
+  END IF;
+
+  DELETE FROM public.live_draft_hovers WHERE game_id = v_game.id;
+
+  RETURN v_action;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_draft_action FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- submit_draft_action (captain submissions)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.submit_draft_action(
+  p_game_id UUID,
+  p_champion_id TEXT
+)
+RETURNS public.live_draft_actions AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_action public.live_draft_actions;
+  v_user_id UUID;
+  v_blue_captain_id UUID;
+  v_red_captain_id UUID;
+  v_is_blue_captain BOOLEAN;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Lock the game row to serialize concurrent submissions
+  SELECT * INTO v_game
+    FROM public.live_draft_games
+    WHERE id = p_game_id
+    FOR UPDATE;
+
+  IF v_game IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  -- Check if this action was already submitted (idempotent guard)
+  SELECT * INTO v_action
+    FROM public.live_draft_actions
+    WHERE game_id = p_game_id
+      AND action_index = v_game.current_action_index;
+
+  IF v_action IS NOT NULL THEN
+    RETURN v_action;
+  END IF;
+
+  SELECT * INTO v_session FROM public.live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_game.status <> 'drafting' OR (v_session.draft_order -> v_game.current_action_index) IS NULL THEN
+    RAISE EXCEPTION 'Game is not drafting';
+  END IF;
+
+  -- Determine which team captain is on which side using blue_side_team
+  IF v_game.blue_side_team = 'team1' THEN
+    v_blue_captain_id := v_session.team1_captain_id;
+    v_red_captain_id := v_session.team2_captain_id;
+  ELSE
+    v_blue_captain_id := v_session.team2_captain_id;
+    v_red_captain_id := v_session.team1_captain_id;
+  END IF;
+
+  -- Verify it's the user's turn
+  v_is_blue_captain := (v_user_id = v_blue_captain_id);
+
+  IF v_game.current_turn = 'blue' AND NOT v_is_blue_captain THEN
+    RAISE EXCEPTION 'It is not your turn';
+  END IF;
+
+  IF v_game.current_turn = 'red' AND v_is_blue_captain THEN
+    RAISE EXCEPTION 'It is not your turn';
+  END IF;
+
+  RETURN public.apply_draft_action(v_game, v_session, p_champion_id, v_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Turn expiry
+-- ============================================
+
+-- Seconds past the turn limit before the server fills the slot. Gives
+-- in-flight lock-ins from the captain a chance to land first.
+CREATE OR REPLACE FUNCTION public.live_draft_turn_grace_seconds()
+RETURNS INTEGER AS $$
+  SELECT 2;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Fill the current turn of a game if (and only if) it has expired.
+-- Returns TRUE when an action was recorded. Safe to call from any client.
+CREATE OR REPLACE FUNCTION public.expire_draft_turn(p_game_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_step JSONB;
+  v_time_limit INTEGER;
+  v_hovered TEXT;
+  v_champion_id TEXT := '__none__';
+  v_my_team TEXT;
+BEGIN
+  -- Skip games another transaction is already advancing
+  SELECT * INTO v_game
+    FROM public.live_draft_games
+    WHERE id = p_game_id
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_game IS NULL OR v_game.status <> 'drafting' OR v_game.turn_started_at IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_session FROM public.live_draft_sessions WHERE id = v_game.session_id;
+
+  v_step := v_session.draft_order -> v_game.current_action_index;
+  IF v_step IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  v_time_limit := CASE
+    WHEN v_step ->> 'actionType' = 'ban' THEN v_session.ban_time_seconds
+    ELSE v_session.pick_time_seconds
+  END;
+
+  IF NOW() < v_game.turn_started_at
+       + make_interval(secs => v_time_limit + public.live_draft_turn_grace_seconds()) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Lock in the hovered champion if it is still valid for this step
+  SELECT champion_id INTO v_hovered
+    FROM public.live_draft_hovers
+    WHERE game_id = p_game_id
+      AND action_index = v_game.current_action_index;
+
+  IF v_hovered IS NOT NULL AND v_hovered <> '__none__'
+     -- array_position instead of ANY(): empty slots are NULL
+     AND array_position(v_game.blue_bans, v_hovered) IS NULL
+     AND array_position(v_game.red_bans, v_hovered) IS NULL
+     AND array_position(v_game.blue_picks, v_hovered) IS NULL
+     AND array_position(v_game.red_picks, v_hovered) IS NULL THEN
+    v_champion_id := v_hovered;
+
+    IF v_session.draft_mode = 'fearless' THEN
+      -- Fearless: own team's previous picks are locked. Sides can swap between
+      -- games, so resolve the stored side to a team through that game.
+      v_my_team := CASE
+        WHEN (v_game.current_turn = 'blue') = (v_game.blue_side_team = 'team1') THEN 'team1'
+        ELSE 'team2'
+      END;
+
+      IF EXISTS (
+        SELECT 1
+        FROM public.live_draft_unavailable_champions uc
+        JOIN public.live_draft_games g
+          ON g.session_id = uc.session_id AND g.game_number = uc.from_game
+        WHERE uc.session_id = v_session.id
+          AND uc.champion_id = v_hovered
+          AND uc.reason = 'picked'
+          AND CASE
+                WHEN (uc.team = 'blue') = (g.blue_side_team = 'team1') THEN 'team1'
+                ELSE 'team2'
+              END = v_my_team
+      ) THEN
+        v_champion_id := '__none__';
+      END IF;
+    ELSIF v_session.draft_mode = 'ironman' THEN
+      IF EXISTS (
+        SELECT 1 FROM public.live_draft_unavailable_champions
+        WHERE session_id = v_session.id
+          AND champion_id = v_hovered
+      ) THEN
+        v_champion_id := '__none__';
+      END IF;
+    END IF;
+  END IF;
+
+  PERFORM public.apply_draft_action(v_game, v_session, v_champion_id, NULL);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION expire_draft_turn TO anon, authenticated;
+
+-- Sweep every drafting game whose turn has run out.
+CREATE OR REPLACE FUNCTION public.expire_live_draft_turns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_game_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_game_id IN
+    SELECT g.id
+    FROM public.live_draft_games g
+    JOIN public.live_draft_sessions s ON s.id = g.session_id
+    WHERE g.status = 'drafting'
+      AND g.turn_started_at < NOW() - make_interval(
+        secs => LEAST(s.pick_time_seconds, s.ban_time_seconds)
+      )
+  LOOP
+    IF public.expire_draft_turn(v_game_id) THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.expire_live_draft_turns FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-live-draft-turns',
+  '5 seconds',
+  $$SELECT public.expire_live_draft_turns()$$
+);
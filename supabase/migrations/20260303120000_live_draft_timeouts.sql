@@ -0,0 +1,244 @@
+-- Tactical timeouts for live drafts.
+-- Each captain gets a configurable number of timeouts per series. A timeout
+-- puts the session in 'paused', freezes the turn clock and is resumed by the
+-- captain who called it (or automatically after 5 minutes). On resume the
+-- active game's turn_started_at is shifted by the paused duration so the
+-- remaining turn time is kept intact.
+
+ALTER TABLE public.live_draft_sessions
+  ADD COLUMN timeouts_per_team INTEGER NOT NULL DEFAULT 1
+    CHECK (timeouts_per_team BETWEEN 0 AND 5),
+  ADD COLUMN team1_timeouts_used INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN team2_timeouts_used INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN paused_at TIMESTAMPTZ,
+  ADD COLUMN paused_by TEXT CHECK (paused_by IN ('team1', 'team2'));
+
+-- ============================================
+-- Block draft actions while paused
+-- ============================================
+-- Covers captain submissions and server-side turn expiry alike.
+
+CREATE OR REPLACE FUNCTION public.prevent_live_draft_action_while_paused()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.live_draft_games g
+    JOIN public.live_draft_sessions s ON s.id = g.session_id
+    WHERE g.id = NEW.game_id
+      AND s.status = 'paused'
+  ) THEN
+    RAISE EXCEPTION 'Draft is paused';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER live_draft_actions_block_while_paused
+  BEFORE INSERT ON public.live_draft_actions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_live_draft_action_while_paused();
+
+-- ============================================
+-- Resume (shared)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.resume_paused_live_draft(p_session_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_paused_at TIMESTAMPTZ;
+BEGIN
+  SELECT paused_at INTO v_paused_at
+    FROM public.live_draft_sessions
+    WHERE id = p_session_id AND status = 'paused'
+    FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Shift the turn start so the remaining time is what it was when paused
+  UPDATE public.live_draft_games
+  SET turn_started_at = turn_started_at + (NOW() - COALESCE(v_paused_at, NOW()))
+  WHERE session_id = p_session_id
+    AND status = 'drafting'
+    AND turn_started_at IS NOT NULL;
+
+  UPDATE public.live_draft_sessions
+  SET status = 'in_progress',
+      paused_at = NULL,
+      paused_by = NULL
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.resume_paused_live_draft FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Captain RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION pause_live_draft(
+  p_session_id UUID,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_session RECORD;
+  v_team TEXT;
+  v_used INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Session not found');
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can call a timeout');
+  END IF;
+
+  IF v_session.status <> 'in_progress' THEN
+    RETURN json_build_object('success', false, 'message', 'Draft is not in progress');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM live_draft_games
+    WHERE session_id = p_session_id AND status = 'drafting'
+  ) THEN
+    RETURN json_build_object('success', false, 'message', 'Timeouts can only be called during a draft');
+  END IF;
+
+  v_used := CASE WHEN v_team = 'team1' THEN v_session.team1_timeouts_used ELSE v_session.team2_timeouts_used END;
+
+  IF v_used >= v_session.timeouts_per_team THEN
+    RETURN json_build_object('success', false, 'message', 'No timeouts left');
+  END IF;
+
+  UPDATE live_draft_sessions SET
+    status = 'paused',
+    paused_at = NOW(),
+    paused_by = v_team,
+    team1_timeouts_used = team1_timeouts_used + CASE WHEN v_team = 'team1' THEN 1 ELSE 0 END,
+    team2_timeouts_used = team2_timeouts_used + CASE WHEN v_team = 'team2' THEN 1 ELSE 0 END
+  WHERE id = p_session_id;
+
+  RETURN json_build_object('success', true, 'team', v_team);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION pause_live_draft TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION resume_live_draft(
+  p_session_id UUID,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_session RECORD;
+  v_team TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Session not found');
+  END IF;
+
+  IF v_session.status <> 'paused' THEN
+    RETURN json_build_object('success', false, 'message', 'Draft is not paused');
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS DISTINCT FROM v_session.paused_by THEN
+    RETURN json_build_object('success', false, 'message', 'Only the captain who called the timeout can resume');
+  END IF;
+
+  PERFORM public.resume_paused_live_draft(p_session_id);
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resume_live_draft TO anon, authenticated;
+
+-- ============================================
+-- Turn expiry sweep: auto-resume long timeouts, skip paused sessions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.live_draft_max_timeout_seconds()
+RETURNS INTEGER AS $$
+  SELECT 300;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.expire_live_draft_turns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_session_id UUID;
+  v_game_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_session_id IN
+    SELECT id FROM public.live_draft_sessions
+    WHERE status = 'paused'
+      AND paused_at < NOW() - make_interval(secs => public.live_draft_max_timeout_seconds())
+  LOOP
+    PERFORM public.resume_paused_live_draft(v_session_id);
+  END LOOP;
+
+  FOR v_game_id IN
+    SELECT g.id
+    FROM public.live_draft_games g
+    JOIN public.live_draft_sessions s ON s.id = g.session_id
+    WHERE g.status = 'drafting'
+      AND s.status = 'in_progress'
+      AND g.turn_started_at < NOW() - make_interval(
+        secs => LEAST(s.pick_time_seconds, s.ban_time_seconds)
+      )
+  LOOP
+    BEGIN
+      IF public.expire_draft_turn(v_game_id) THEN
+        v_count := v_count + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Session was paused between the select and the expiry; retry next sweep
+      NULL;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,398 @@
+-- Fearless variants.
+--   hard_fearless            : like fearless, but a team's bans lock champions out for that team too
+--   fearless_carryover_games : fearless/hard fearless locks expire after N games (NULL = whole series)
+--   locked_champions         : custom list of champions pre-locked by the session creator (any mode)
+--
+-- Availability is now enforced server-side for every action (captain
+-- submissions, server turn expiry and timed-out slot fills) through
+-- live_draft_champion_locked().
+
+ALTER TABLE public.live_draft_sessions
+  DROP CONSTRAINT IF EXISTS live_draft_sessions_draft_mode_check;
+
+ALTER TABLE public.live_draft_sessions
+  ADD CONSTRAINT live_draft_sessions_draft_mode_check
+    CHECK (draft_mode IN ('normal', 'fearless', 'hard_fearless', 'ironman')),
+  ADD COLUMN fearless_carryover_games INTEGER
+    CHECK (fearless_carryover_games IS NULL OR fearless_carryover_games BETWEEN 1 AND 4),
+  ADD COLUMN locked_champions TEXT[] NOT NULL DEFAULT '{}';
+
+-- Carryover locks need to know the most recent game a champion was used in,
+-- so keep one row per game instead of one per series.
+ALTER TABLE public.live_draft_unavailable_champions
+  DROP CONSTRAINT IF EXISTS live_draft_unavailable_champions_session_id_champion_id_team_key;
+
+ALTER TABLE public.live_draft_unavailable_champions
+  ADD CONSTRAINT live_draft_unavailable_champions_per_game_key
+    UNIQUE (session_id, champion_id, team, from_game);
+
+-- ============================================
+-- Availability
+-- ============================================
+
+-- TRUE when p_champion_id cannot be picked/banned by p_side in p_game.
+CREATE OR REPLACE FUNCTION public.live_draft_champion_locked(
+  p_session public.live_draft_sessions,
+  p_game public.live_draft_games,
+  p_side TEXT,
+  p_champion_id TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_my_team TEXT;
+BEGIN
+  IF p_champion_id IS NULL OR p_champion_id = '__none__' THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Already used in this game (array_position: empty slots are NULL)
+  IF array_position(p_game.blue_bans, p_champion_id) IS NOT NULL
+     OR array_position(p_game.red_bans, p_champion_id) IS NOT NULL
+     OR array_position(p_game.blue_picks, p_champion_id) IS NOT NULL
+     OR array_position(p_game.red_picks, p_champion_id) IS NOT NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  -- Custom pre-locked list
+  IF p_champion_id = ANY(p_session.locked_champions) THEN
+    RETURN TRUE;
+  END IF;
+
+  IF p_session.draft_mode = 'ironman' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.live_draft_unavailable_champions
+      WHERE session_id = p_session.id
+        AND champion_id = p_champion_id
+        AND from_game < p_game.game_number
+    );
+  END IF;
+
+  IF p_session.draft_mode IN ('fearless', 'hard_fearless') THEN
+    -- Locks belong to teams. Sides can swap between games, so resolve the
+    -- stored side to a team through the game the lock came from.
+    v_my_team := CASE
+      WHEN (p_side = 'blue') = (p_game.blue_side_team = 'team1') THEN 'team1'
+      ELSE 'team2'
+    END;
+
+    RETURN EXISTS (
+      SELECT 1
+      FROM public.live_draft_unavailable_champions uc
+      JOIN public.live_draft_games g
+        ON g.session_id = uc.session_id AND g.game_number = uc.from_game
+      WHERE uc.session_id = p_session.id
+        AND uc.champion_id = p_champion_id
+        AND uc.from_game < p_game.game_number
+        AND (p_session.draft_mode = 'hard_fearless' OR uc.reason = 'picked')
+        AND (
+          p_session.fearless_carryover_games IS NULL
+          OR p_game.game_number - uc.from_game <= p_session.fearless_carryover_games
+        )
+        AND CASE
+              WHEN (uc.team = 'blue') = (g.blue_side_team = 'team1') THEN 'team1'
+              ELSE 'team2'
+            END = v_my_team
+    );
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record a pick/ban for fearless/ironman tracking.
+CREATE OR REPLACE FUNCTION public.record_live_draft_unavailable(
+  p_session public.live_draft_sessions,
+  p_game public.live_draft_games,
+  p_side TEXT,
+  p_action_type TEXT,
+  p_champion_id TEXT
+)
+RETURNS void AS $$
+DECLARE
+  v_team_for_unavail TEXT;
+BEGIN
+  IF p_session.draft_mode = 'normal' OR p_champion_id IS NULL OR p_champion_id = '__none__' THEN
+    RETURN;
+  END IF;
+
+  v_team_for_unavail := CASE
+    WHEN p_session.draft_mode IN ('fearless', 'hard_fearless') THEN p_side
+    ELSE NULL
+  END;
+
+  INSERT INTO public.live_draft_unavailable_champions (
+    session_id, champion_id, from_game, reason, team
+  )
+  SELECT
+    p_session.id,
+    p_champion_id,
+    p_game.game_number,
+    CASE WHEN p_action_type = 'ban' THEN 'banned' ELSE 'picked' END,
+    v_team_for_unavail
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.live_draft_unavailable_champions
+    WHERE session_id = p_session.id
+      AND champion_id = p_champion_id
+      AND from_game = p_game.game_number
+      AND team IS NOT DISTINCT FROM v_team_for_unavail
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_live_draft_unavailable FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- apply_draft_action: reject locked champions
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.apply_draft_action(
+  p_game public.live_draft_games,
+  p_session public.live_draft_sessions,
+  p_champion_id TEXT,
+  p_performed_by UUID
+)
+RETURNS public.live_draft_actions AS $$
+DECLARE
+  v_game public.live_draft_games := p_game;
+  v_action public.live_draft_actions;
+  v_step JSONB;
+  v_next_step JSONB;
+  v_action_type TEXT;
+  v_slot INTEGER;
+  v_next_index INTEGER;
+BEGIN
+  IF public.live_draft_champion_locked(p_session, p_game, p_game.current_turn, p_champion_id) THEN
+    RAISE EXCEPTION 'Champion is unavailable';
+  END IF;
+
+  v_step := p_session.draft_order -> v_game.current_action_index;
+  v_action_type := v_step ->> 'actionType';
+  v_slot := (v_step ->> 'index')::INTEGER + 1;  -- PostgreSQL arrays are 1-indexed
+
+  INSERT INTO public.live_draft_actions (
+    game_id, action_index, action_type, team, champion_id, performed_by
+  )
+  VALUES (
+    v_game.id, v_game.current_action_index, v_action_type, v_game.current_turn, p_champion_id, p_performed_by
+  )
+  RETURNING * INTO v_action;
+
+  -- Update game state arrays at the slot given by the draft order
+  IF v_action_type = 'ban' THEN
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_bans[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_bans[v_slot] := p_champion_id;
+    END IF;
+  ELSE
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_picks[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_picks[v_slot] := p_champion_id;
+    END IF;
+  END IF;
+
+  PERFORM public.record_live_draft_unavailable(p_session, v_game, v_game.current_turn, v_action_type, p_champion_id);
+
+  v_next_index := v_game.current_action_index + 1;
+  v_next_step := p_session.draft_order -> v_next_index;
+
+  IF v_next_step IS NULL THEN
+    -- Draft is complete
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      status = 'completed',
+      current_phase = NULL,
+      current_turn = NULL,
+      completed_at = NOW()
+    WHERE id = v_game.id;
+  ELSE
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      current_action_index = v_next_index,
+      current_phase = v_next_step ->> 'phase',
+      current_turn = v_next_step ->> 'turn',
+      turn_started_at = NOW()
+    WHERE id = v_game.id;
+  END IF;
+
+  DELETE FROM public.live_draft_hovers WHERE game_id = v_game.id;
+
+  RETURN v_action;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_draft_action FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- expire_draft_turn: use the shared availability check for the hover
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.expire_draft_turn(p_game_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_step JSONB;
+  v_time_limit INTEGER;
+  v_hovered TEXT;
+  v_champion_id TEXT := '__none__';
+BEGIN
+  -- Skip games another transaction is already advancing
+  SELECT * INTO v_game
+    FROM public.live_draft_games
+    WHERE id = p_game_id
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_game IS NULL OR v_game.status <> 'drafting' OR v_game.turn_started_at IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_session FROM public.live_draft_sessions WHERE id = v_game.session_id;
+
+  v_step := v_session.draft_order -> v_game.current_action_index;
+  IF v_step IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  v_time_limit := CASE
+    WHEN v_step ->> 'actionType' = 'ban' THEN v_session.ban_time_seconds
+    ELSE v_session.pick_time_seconds
+  END;
+
+  IF NOW() < v_game.turn_started_at
+       + make_interval(secs => v_time_limit + public.live_draft_turn_grace_seconds()) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Lock in the hovered champion if it is still valid for this step
+  SELECT champion_id INTO v_hovered
+    FROM public.live_draft_hovers
+    WHERE game_id = p_game_id
+      AND action_index = v_game.current_action_index;
+
+  IF v_hovered IS NOT NULL
+     AND NOT public.live_draft_champion_locked(v_session, v_game, v_game.current_turn, v_hovered) THEN
+    v_champion_id := v_hovered;
+  END IF;
+
+  PERFORM public.apply_draft_action(v_game, v_session, v_champion_id, NULL);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- fill_timed_out_slot: use the shared availability check and tracking
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.fill_timed_out_slot(
+  p_game_id UUID,
+  p_slot TEXT,        -- e.g. 'blue_pick_2' or 'red_ban_1'
+  p_champion_id TEXT  -- the champion to fill in
+)
+RETURNS void AS $$
+DECLARE
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_user_id UUID;
+  v_side TEXT;
+  v_type TEXT;
+  v_index INTEGER;
+  v_current_value TEXT;
+  v_captain_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  -- Parse slot string: 'blue_pick_2' -> side=blue, type=pick, index=2
+  v_side  := split_part(p_slot, '_', 1);
+  v_type  := split_part(p_slot, '_', 2);
+  v_index := split_part(p_slot, '_', 3)::INTEGER;
+
+  IF v_side NOT IN ('blue', 'red') OR v_type NOT IN ('pick', 'ban') THEN
+    RAISE EXCEPTION 'Invalid slot format: %', p_slot;
+  END IF;
+  IF v_index < 0 OR v_index > 4 THEN
+    RAISE EXCEPTION 'Invalid slot index: %', v_index;
+  END IF;
+
+  SELECT * INTO v_game
+    FROM public.live_draft_games
+    WHERE id = p_game_id
+    FOR UPDATE;
+
+  IF v_game IS NULL THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  SELECT * INTO v_session
+    FROM public.live_draft_sessions
+    WHERE id = v_game.session_id;
+
+  -- Determine captain for this side
+  IF v_side = 'blue' THEN
+    v_captain_id := CASE
+      WHEN v_game.blue_side_team = 'team1' THEN v_session.team1_captain_id
+      ELSE v_session.team2_captain_id
+    END;
+  ELSE
+    v_captain_id := CASE
+      WHEN v_game.blue_side_team = 'team1' THEN v_session.team2_captain_id
+      ELSE v_session.team1_captain_id
+    END;
+  END IF;
+
+  IF v_user_id IS DISTINCT FROM v_captain_id THEN
+    RAISE EXCEPTION 'Only the team captain can fill timed-out slots';
+  END IF;
+
+  -- Read current value at the slot (PostgreSQL arrays are 1-indexed)
+  IF v_type = 'pick' THEN
+    IF v_side = 'blue' THEN v_current_value := v_game.blue_picks[v_index + 1];
+    ELSE v_current_value := v_game.red_picks[v_index + 1];
+    END IF;
+  ELSE
+    IF v_side = 'blue' THEN v_current_value := v_game.blue_bans[v_index + 1];
+    ELSE v_current_value := v_game.red_bans[v_index + 1];
+    END IF;
+  END IF;
+
+  IF v_current_value IS DISTINCT FROM '__none__' THEN
+    RAISE EXCEPTION 'Slot is not timed out';
+  END IF;
+
+  IF public.live_draft_champion_locked(v_session, v_game, v_side, p_champion_id) THEN
+    RAISE EXCEPTION 'Champion is unavailable';
+  END IF;
+
+  -- Update the game array
+  IF v_type = 'pick' AND v_side = 'blue' THEN
+    v_game.blue_picks[v_index + 1] := p_champion_id;
+    UPDATE public.live_draft_games SET blue_picks = v_game.blue_picks WHERE id = p_game_id;
+  ELSIF v_type = 'pick' AND v_side = 'red' THEN
+    v_game.red_picks[v_index + 1] := p_champion_id;
+    UPDATE public.live_draft_games SET red_picks = v_game.red_picks WHERE id = p_game_id;
+  ELSIF v_type = 'ban' AND v_side = 'blue' THEN
+    v_game.blue_bans[v_index + 1] := p_champion_id;
+    UPDATE public.live_draft_games SET blue_bans = v_game.blue_bans WHERE id = p_game_id;
+  ELSE
+    v_game.red_bans[v_index + 1] := p_champion_id;
+    UPDATE public.live_draft_games SET red_bans = v_game.red_bans WHERE id = p_game_id;
+  END IF;
+
+  -- Update the action record
+  UPDATE public.live_draft_actions
+  SET champion_id = p_champion_id
+  WHERE game_id = p_game_id
+    AND team = v_side
+    AND action_type = v_type
+    AND champion_id = '__none__';
+
+  PERFORM public.record_live_draft_unavailable(v_session, v_game, v_side, v_type, p_champion_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
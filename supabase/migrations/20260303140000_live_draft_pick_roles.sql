@@ -0,0 +1,78 @@
+-- Role-aware pick assignment for live draft games.
+-- blue_picks/red_picks stay in pick order; blue_roles/red_roles hold the role
+-- each pick slot plays (same index), set by captains after the draft like the
+-- champ-select swap phase. NULL means "not assigned yet" and the client infers
+-- roles from champion data.
+
+ALTER TABLE public.live_draft_games
+  ADD COLUMN IF NOT EXISTS blue_roles TEXT[] DEFAULT NULL,
+  ADD COLUMN IF NOT EXISTS red_roles TEXT[] DEFAULT NULL;
+
+CREATE OR REPLACE FUNCTION set_live_draft_pick_roles(
+  p_game_id UUID,
+  p_roles TEXT[],
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game RECORD;
+  v_session RECORD;
+  v_team TEXT;
+  v_side TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can assign roles');
+  END IF;
+
+  IF v_game.status <> 'completed' THEN
+    RETURN json_build_object('success', false, 'message', 'Roles can only be assigned after the draft');
+  END IF;
+
+  IF array_length(p_roles, 1) IS DISTINCT FROM 5
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_roles) r
+      WHERE r IS NULL OR r NOT IN ('top', 'jungle', 'mid', 'adc', 'support')
+    )
+    OR (SELECT COUNT(DISTINCT r) FROM unnest(p_roles) r) <> 5
+  THEN
+    RETURN json_build_object('success', false, 'message', 'Each pick must have a unique role');
+  END IF;
+
+  v_side := CASE WHEN v_game.blue_side_team = v_team THEN 'blue' ELSE 'red' END;
+
+  IF v_side = 'blue' THEN
+    UPDATE live_draft_games SET blue_roles = p_roles WHERE id = p_game_id;
+  ELSE
+    UPDATE live_draft_games SET red_roles = p_roles WHERE id = p_game_id;
+  END IF;
+
+  RETURN json_build_object('success', true, 'side', v_side);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_live_draft_pick_roles TO anon, authenticated;
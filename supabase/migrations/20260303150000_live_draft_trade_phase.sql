@@ -0,0 +1,354 @@
+-- Optional trade phase at the end of a live draft.
+-- When trade_phase_seconds > 0, a game whose last pick is locked in moves to
+-- 'trading' instead of 'completed'. Captains rearrange their own picks into
+-- roles (set_live_draft_pick_roles) and confirm; the game completes once both
+-- sides confirm or the trade timer runs out.
+--
+-- blue_lineup/red_lineup hold the final lineup in role order
+-- (top, jungle, mid, adc, support), separate from pick order.
+
+ALTER TABLE public.live_draft_sessions
+  ADD COLUMN trade_phase_seconds INTEGER NOT NULL DEFAULT 0
+    CHECK (trade_phase_seconds BETWEEN 0 AND 180);
+
+ALTER TABLE public.live_draft_games
+  DROP CONSTRAINT IF EXISTS live_draft_games_status_check;
+
+ALTER TABLE public.live_draft_games
+  ADD CONSTRAINT live_draft_games_status_check
+    CHECK (status IN ('pending', 'drafting', 'trading', 'completed', 'editing')),
+  ADD COLUMN blue_lineup TEXT[] DEFAULT NULL,
+  ADD COLUMN red_lineup TEXT[] DEFAULT NULL,
+  ADD COLUMN blue_lineup_confirmed BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN red_lineup_confirmed BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- Internal helpers
+-- ============================================
+
+-- End the trade phase of a game
+CREATE OR REPLACE FUNCTION public.finish_live_draft_trade(p_game_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.live_draft_games SET
+    status = 'completed',
+    turn_started_at = NULL,
+    completed_at = NOW()
+  WHERE id = p_game_id AND status = 'trading';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.finish_live_draft_trade FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- apply_draft_action: enter the trade phase after the last pick
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.apply_draft_action(
+  p_game public.live_draft_games,
+  p_session public.live_draft_sessions,
+  p_champion_id TEXT,
+  p_performed_by UUID
+)
+RETURNS public.live_draft_actions AS $$
+DECLARE
+  v_game public.live_draft_games := p_game;
+  v_action public.live_draft_actions;
+  v_step JSONB;
+  v_next_step JSONB;
+  v_action_type TEXT;
+  v_slot INTEGER;
+  v_next_index INTEGER;
+BEGIN
+  IF public.live_draft_champion_locked(p_session, p_game, p_game.current_turn, p_champion_id) THEN
+    RAISE EXCEPTION 'Champion is unavailable';
+  END IF;
+
+  v_step := p_session.draft_order -> v_game.current_action_index;
+  v_action_type := v_step ->> 'actionType';
+  v_slot := (v_step ->> 'index')::INTEGER + 1;  -- PostgreSQL arrays are 1-indexed
+
+  INSERT INTO public.live_draft_actions (
+    game_id, action_index, action_type, team, champion_id, performed_by
+  )
+  VALUES (
+    v_game.id, v_game.current_action_index, v_action_type, v_game.current_turn, p_champion_id, p_performed_by
+  )
+  RETURNING * INTO v_action;
+
+  -- Update game state arrays at the slot given by the draft order
+  IF v_action_type = 'ban' THEN
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_bans[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_bans[v_slot] := p_champion_id;
+    END IF;
+  ELSE
+    IF v_game.current_turn = 'blue' THEN
+      v_game.blue_picks[v_slot] := p_champion_id;
+    ELSE
+      v_game.red_picks[v_slot] := p_champion_id;
+    END IF;
+  END IF;
+
+  PERFORM public.record_live_draft_unavailable(p_session, v_game, v_game.current_turn, v_action_type, p_champion_id);
+
+  v_next_index := v_game.current_action_index + 1;
+  v_next_step := p_session.draft_order -> v_next_index;
+
+  IF v_next_step IS NULL AND p_session.trade_phase_seconds > 0 THEN
+    -- Picks are done; captains get a window to rearrange their lineup
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      status = 'trading',
+      current_phase = NULL,
+      current_turn = NULL,
+      turn_started_at = NOW()
+    WHERE id = v_game.id;
+  ELSIF v_next_step IS NULL THEN
+    -- Draft is complete
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      status = 'completed',
+      current_phase = NULL,
+      current_turn = NULL,
+      completed_at = NOW()
+    WHERE id = v_game.id;
+  ELSE
+    UPDATE public.live_draft_games SET
+      blue_bans = v_game.blue_bans,
+      red_bans = v_game.red_bans,
+      blue_picks = v_game.blue_picks,
+      red_picks = v_game.red_picks,
+      current_action_index = v_next_index,
+      current_phase = v_next_step ->> 'phase',
+      current_turn = v_next_step ->> 'turn',
+      turn_started_at = NOW()
+    WHERE id = v_game.id;
+  END IF;
+
+  DELETE FROM public.live_draft_hovers WHERE game_id = v_game.id;
+
+  RETURN v_action;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_draft_action FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- set_live_draft_pick_roles: allowed while trading, also stores the lineup
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_live_draft_pick_roles(
+  p_game_id UUID,
+  p_roles TEXT[],
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game RECORD;
+  v_session RECORD;
+  v_team TEXT;
+  v_side TEXT;
+  v_picks TEXT[];
+  v_lineup TEXT[];
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can assign roles');
+  END IF;
+
+  IF v_game.status NOT IN ('trading', 'completed') THEN
+    RETURN json_build_object('success', false, 'message', 'Roles can only be assigned after the draft');
+  END IF;
+
+  IF array_length(p_roles, 1) IS DISTINCT FROM 5
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_roles) r
+      WHERE r IS NULL OR r NOT IN ('top', 'jungle', 'mid', 'adc', 'support')
+    )
+    OR (SELECT COUNT(DISTINCT r) FROM unnest(p_roles) r) <> 5
+  THEN
+    RETURN json_build_object('success', false, 'message', 'Each pick must have a unique role');
+  END IF;
+
+  v_side := CASE WHEN v_game.blue_side_team = v_team THEN 'blue' ELSE 'red' END;
+
+  IF v_game.status = 'trading' AND (
+    (v_side = 'blue' AND v_game.blue_lineup_confirmed)
+    OR (v_side = 'red' AND v_game.red_lineup_confirmed)
+  ) THEN
+    RETURN json_build_object('success', false, 'message', 'Lineup already confirmed');
+  END IF;
+
+  v_picks := CASE WHEN v_side = 'blue' THEN v_game.blue_picks ELSE v_game.red_picks END;
+
+  -- Lineup in role order: the pick assigned to each role
+  SELECT array_agg(v_picks[array_position(p_roles, role)] ORDER BY ord)
+    INTO v_lineup
+    FROM unnest(ARRAY['top', 'jungle', 'mid', 'adc', 'support']) WITH ORDINALITY AS t(role, ord);
+
+  IF v_side = 'blue' THEN
+    UPDATE live_draft_games SET blue_roles = p_roles, blue_lineup = v_lineup WHERE id = p_game_id;
+  ELSE
+    UPDATE live_draft_games SET red_roles = p_roles, red_lineup = v_lineup WHERE id = p_game_id;
+  END IF;
+
+  RETURN json_build_object('success', true, 'side', v_side);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_live_draft_pick_roles TO anon, authenticated;
+
+-- ============================================
+-- confirm_live_draft_lineup: captain is done trading
+-- ============================================
+
+CREATE OR REPLACE FUNCTION confirm_live_draft_lineup(
+  p_game_id UUID,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game RECORD;
+  v_session RECORD;
+  v_team TEXT;
+  v_side TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can confirm a lineup');
+  END IF;
+
+  IF v_game.status <> 'trading' THEN
+    RETURN json_build_object('success', false, 'message', 'Trade phase is over');
+  END IF;
+
+  v_side := CASE WHEN v_game.blue_side_team = v_team THEN 'blue' ELSE 'red' END;
+
+  IF v_side = 'blue' THEN
+    UPDATE live_draft_games SET blue_lineup_confirmed = TRUE WHERE id = p_game_id;
+  ELSE
+    UPDATE live_draft_games SET red_lineup_confirmed = TRUE WHERE id = p_game_id;
+  END IF;
+
+  IF (v_side = 'blue' OR v_game.blue_lineup_confirmed)
+     AND (v_side = 'red' OR v_game.red_lineup_confirmed) THEN
+    PERFORM public.finish_live_draft_trade(p_game_id);
+  END IF;
+
+  RETURN json_build_object('success', true, 'side', v_side);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_live_draft_lineup TO anon, authenticated;
+
+-- ============================================
+-- Turn expiry sweep: also close expired trade phases
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.expire_live_draft_turns()
+RETURNS INTEGER AS $$
+DECLARE
+  v_session_id UUID;
+  v_game_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_session_id IN
+    SELECT id FROM public.live_draft_sessions
+    WHERE status = 'paused'
+      AND paused_at < NOW() - make_interval(secs => public.live_draft_max_timeout_seconds())
+  LOOP
+    PERFORM public.resume_paused_live_draft(v_session_id);
+  END LOOP;
+
+  FOR v_game_id IN
+    SELECT g.id
+    FROM public.live_draft_games g
+    JOIN public.live_draft_sessions s ON s.id = g.session_id
+    WHERE g.status = 'drafting'
+      AND s.status = 'in_progress'
+      AND g.turn_started_at < NOW() - make_interval(
+        secs => LEAST(s.pick_time_seconds, s.ban_time_seconds)
+      )
+  LOOP
+    BEGIN
+      IF public.expire_draft_turn(v_game_id) THEN
+        v_count := v_count + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      -- Session was paused between the select and the expiry; retry next sweep
+      NULL;
+    END;
+  END LOOP;
+
+  FOR v_game_id IN
+    SELECT g.id
+    FROM public.live_draft_games g
+    JOIN public.live_draft_sessions s ON s.id = g.session_id
+    WHERE g.status = 'trading'
+      AND g.turn_started_at < NOW() - make_interval(
+        secs => s.trade_phase_seconds + public.live_draft_turn_grace_seconds()
+      )
+  LOOP
+    PERFORM public.finish_live_draft_trade(v_game_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
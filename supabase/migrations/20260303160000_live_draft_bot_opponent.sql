@@ -0,0 +1,134 @@
+-- Bot opponent for solo live-draft practice.
+-- The bot always plays team2. Its draft decisions are made by a deterministic
+-- AI running in the human captain's browser, which submits them through
+-- submit_bot_draft_action(). The database keeps the bot's captain slot,
+-- ready state, side and trade-phase confirmation in step with the human.
+
+ALTER TABLE public.live_draft_sessions
+  ADD COLUMN bot_opponent BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- Bot captain mirrors the human captain
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.live_draft_bot_captain()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.bot_opponent THEN
+    NEW.team2_captain_id := NULL;
+    NEW.team2_captain_display_name := 'Bot';
+    -- Ready together with the human, on the other side. The side stays NULL
+    -- until then so the human can freely pick or switch sides.
+    NEW.team2_ready := NEW.team1_ready;
+    NEW.team2_side := CASE
+      WHEN NOT NEW.team1_ready THEN NULL
+      WHEN NEW.team1_side = 'blue' THEN 'red'
+      WHEN NEW.team1_side = 'red' THEN 'blue'
+      ELSE NULL
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER live_draft_sessions_bot_captain
+  BEFORE INSERT OR UPDATE ON public.live_draft_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.live_draft_bot_captain();
+
+-- The bot accepts its lineup as soon as the trade phase starts
+CREATE OR REPLACE FUNCTION public.live_draft_bot_confirm_lineup()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'trading' AND OLD.status IS DISTINCT FROM 'trading'
+     AND EXISTS (
+       SELECT 1 FROM public.live_draft_sessions
+       WHERE id = NEW.session_id AND bot_opponent
+     ) THEN
+    IF NEW.blue_side_team = 'team2' THEN
+      NEW.blue_lineup_confirmed := TRUE;
+    ELSE
+      NEW.red_lineup_confirmed := TRUE;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER live_draft_games_bot_confirm_lineup
+  BEFORE UPDATE OF status ON public.live_draft_games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.live_draft_bot_confirm_lineup();
+
+-- ============================================
+-- submit_bot_draft_action: the human captain's client acts for the bot
+-- ============================================
+
+CREATE OR REPLACE FUNCTION submit_bot_draft_action(
+  p_game_id UUID,
+  p_champion_id TEXT,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_bot_side TEXT;
+  v_is_human_captain BOOLEAN;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF v_game IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF NOT v_session.bot_opponent THEN
+    RETURN json_build_object('success', false, 'message', 'This session has no bot opponent');
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    v_is_human_captain := v_session.team1_captain_id = v_user_id;
+  ELSE
+    v_is_human_captain := p_team = 'team1' AND v_session.team1_captain_id IS NULL;
+  END IF;
+
+  IF NOT COALESCE(v_is_human_captain, FALSE) THEN
+    RETURN json_build_object('success', false, 'message', 'Only the captain can run the bot');
+  END IF;
+
+  -- Already acted for this step (another tab or the server timer got there first)
+  IF EXISTS (
+    SELECT 1 FROM live_draft_actions
+    WHERE game_id = p_game_id AND action_index = v_game.current_action_index
+  ) THEN
+    RETURN json_build_object('success', true);
+  END IF;
+
+  IF v_game.status <> 'drafting' OR v_session.status <> 'in_progress' THEN
+    RETURN json_build_object('success', false, 'message', 'Game is not drafting');
+  END IF;
+
+  v_bot_side := CASE WHEN v_game.blue_side_team = 'team2' THEN 'blue' ELSE 'red' END;
+
+  IF v_game.current_turn IS DISTINCT FROM v_bot_side THEN
+    RETURN json_build_object('success', false, 'message', 'It is not the bot''s turn');
+  END IF;
+
+  PERFORM public.apply_draft_action(v_game, v_session, p_champion_id, NULL);
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_bot_draft_action TO anon, authenticated;
@@ -0,0 +1,394 @@
+-- Tournament brackets built on live draft sessions.
+-- The client generates the bracket (single/double elimination or round robin)
+-- and creates it in one call. Every match whose two teams are known spawns a
+-- live draft session; recording game winners advances the bracket.
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+CREATE TABLE public.live_draft_tournaments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('single_elimination', 'double_elimination', 'round_robin')),
+  teams TEXT[] NOT NULL, -- Team names in seed order
+
+  -- Config for spawned sessions
+  games_per_match INTEGER NOT NULL DEFAULT 1 CHECK (games_per_match IN (1, 3, 5)),
+  draft_mode TEXT NOT NULL DEFAULT 'normal'
+    CHECK (draft_mode IN ('normal', 'fearless', 'hard_fearless', 'ironman')),
+  pick_time_seconds INTEGER NOT NULL DEFAULT 30,
+  ban_time_seconds INTEGER NOT NULL DEFAULT 30,
+
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_live_draft_tournaments_created_by ON public.live_draft_tournaments(created_by);
+
+CREATE TABLE public.live_draft_tournament_matches (
+  id UUID PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.live_draft_tournaments(id) ON DELETE CASCADE,
+  bracket TEXT NOT NULL CHECK (bracket IN ('winners', 'losers', 'grand_final', 'round_robin')),
+  round INTEGER NOT NULL,
+  position INTEGER NOT NULL,
+
+  team1_name TEXT,
+  team2_name TEXT,
+  team1_score INTEGER NOT NULL DEFAULT 0,
+  team2_score INTEGER NOT NULL DEFAULT 0,
+  winner TEXT CHECK (winner IN ('team1', 'team2')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed')),
+  session_id UUID REFERENCES public.live_draft_sessions(id) ON DELETE SET NULL,
+
+  -- Where the winner (and in double elimination, the loser) goes next
+  next_match_id UUID REFERENCES public.live_draft_tournament_matches(id) ON DELETE SET NULL,
+  next_match_slot TEXT CHECK (next_match_slot IN ('team1', 'team2')),
+  loser_next_match_id UUID REFERENCES public.live_draft_tournament_matches(id) ON DELETE SET NULL,
+  loser_next_match_slot TEXT CHECK (loser_next_match_slot IN ('team1', 'team2')),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tournament_id, bracket, round, position)
+);
+
+CREATE INDEX idx_live_draft_tournament_matches_tournament ON public.live_draft_tournament_matches(tournament_id);
+
+ALTER TABLE public.live_draft_sessions
+  ADD COLUMN tournament_match_id UUID REFERENCES public.live_draft_tournament_matches(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_live_draft_sessions_tournament_match ON public.live_draft_sessions(tournament_match_id);
+
+CREATE TRIGGER update_live_draft_tournaments_updated_at
+  BEFORE UPDATE ON public.live_draft_tournaments
+  FOR EACH ROW EXECUTE FUNCTION public.update_live_draft_updated_at();
+
+CREATE TRIGGER update_live_draft_tournament_matches_updated_at
+  BEFORE UPDATE ON public.live_draft_tournament_matches
+  FOR EACH ROW EXECUTE FUNCTION public.update_live_draft_updated_at();
+
+-- ============================================
+-- RLS: brackets are public, all writes go through the functions below
+-- ============================================
+
+ALTER TABLE public.live_draft_tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_draft_tournament_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tournaments" ON public.live_draft_tournaments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Creator can delete tournaments" ON public.live_draft_tournaments
+  FOR DELETE USING (auth.uid() = created_by);
+
+CREATE POLICY "Anyone can view tournament matches" ON public.live_draft_tournament_matches
+  FOR SELECT USING (true);
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.live_draft_tournament_matches;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- ============================================
+-- Internal helpers
+-- ============================================
+
+-- Spawn the live draft session for a match once both teams are known
+CREATE OR REPLACE FUNCTION public.spawn_tournament_match_session(p_match_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+  v_tournament live_draft_tournaments;
+  v_label TEXT;
+  v_session_id UUID;
+BEGIN
+  SELECT * INTO v_match FROM live_draft_tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match IS NULL OR v_match.session_id IS NOT NULL OR v_match.status <> 'pending'
+     OR v_match.team1_name IS NULL OR v_match.team2_name IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament FROM live_draft_tournaments WHERE id = v_match.tournament_id;
+
+  v_label := CASE v_match.bracket
+    WHEN 'winners' THEN CASE WHEN v_tournament.format = 'double_elimination' THEN 'WB ' ELSE '' END
+      || 'R' || v_match.round || ' M' || v_match.position
+    WHEN 'losers' THEN 'LB R' || v_match.round || ' M' || v_match.position
+    WHEN 'grand_final' THEN 'Grand Final'
+    ELSE 'Round ' || v_match.round || ' M' || v_match.position
+  END;
+
+  INSERT INTO live_draft_sessions (
+    name, created_by, draft_mode, planned_games, pick_time_seconds, ban_time_seconds,
+    team1_name, team2_name, tournament_match_id
+  )
+  VALUES (
+    left(v_tournament.name, 30 - char_length(v_label) - 3) || ' · ' || v_label,
+    v_tournament.created_by,
+    v_tournament.draft_mode,
+    v_tournament.games_per_match,
+    v_tournament.pick_time_seconds,
+    v_tournament.ban_time_seconds,
+    left(v_match.team1_name, 30),
+    left(v_match.team2_name, 30),
+    v_match.id
+  )
+  RETURNING id INTO v_session_id;
+
+  INSERT INTO live_draft_games (session_id, game_number, status)
+  VALUES (v_session_id, 1, 'pending');
+
+  UPDATE live_draft_tournament_matches
+  SET session_id = v_session_id, status = 'in_progress'
+  WHERE id = v_match.id;
+END;
+$$;
+
+-- Finish a match: close its session and send winner and loser onward
+CREATE OR REPLACE FUNCTION public.complete_tournament_match(p_match_id UUID, p_winner TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+  v_winner_name TEXT;
+  v_loser_name TEXT;
+BEGIN
+  SELECT * INTO v_match FROM live_draft_tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match IS NULL OR v_match.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  UPDATE live_draft_tournament_matches
+  SET winner = p_winner, status = 'completed'
+  WHERE id = p_match_id;
+
+  -- Remaining games of the series are not needed
+  UPDATE live_draft_sessions
+  SET status = 'completed', completed_at = COALESCE(completed_at, NOW())
+  WHERE id = v_match.session_id AND status NOT IN ('completed', 'cancelled');
+
+  v_winner_name := CASE WHEN p_winner = 'team1' THEN v_match.team1_name ELSE v_match.team2_name END;
+  v_loser_name := CASE WHEN p_winner = 'team1' THEN v_match.team2_name ELSE v_match.team1_name END;
+
+  IF v_match.next_match_id IS NOT NULL THEN
+    UPDATE live_draft_tournament_matches
+    SET team1_name = CASE WHEN v_match.next_match_slot = 'team1' THEN v_winner_name ELSE team1_name END,
+        team2_name = CASE WHEN v_match.next_match_slot = 'team2' THEN v_winner_name ELSE team2_name END
+    WHERE id = v_match.next_match_id;
+    PERFORM public.spawn_tournament_match_session(v_match.next_match_id);
+  END IF;
+
+  IF v_match.loser_next_match_id IS NOT NULL THEN
+    UPDATE live_draft_tournament_matches
+    SET team1_name = CASE WHEN v_match.loser_next_match_slot = 'team1' THEN v_loser_name ELSE team1_name END,
+        team2_name = CASE WHEN v_match.loser_next_match_slot = 'team2' THEN v_loser_name ELSE team2_name END
+    WHERE id = v_match.loser_next_match_id;
+    PERFORM public.spawn_tournament_match_session(v_match.loser_next_match_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM live_draft_tournament_matches
+    WHERE tournament_id = v_match.tournament_id AND status <> 'completed'
+  ) THEN
+    UPDATE live_draft_tournaments
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = v_match.tournament_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spawn_tournament_match_session(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_tournament_match(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Advance the bracket when a game result is recorded
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.advance_tournament_on_game_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+  v_tournament live_draft_tournaments;
+  v_team1_wins INTEGER;
+  v_team2_wins INTEGER;
+  v_wins_needed INTEGER;
+BEGIN
+  IF NEW.winner IS NOT DISTINCT FROM OLD.winner THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT m.* INTO v_match
+  FROM live_draft_sessions s
+  JOIN live_draft_tournament_matches m ON m.id = s.tournament_match_id
+  WHERE s.id = NEW.session_id;
+
+  IF v_match IS NULL OR v_match.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_tournament FROM live_draft_tournaments WHERE id = v_match.tournament_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE (winner = 'blue') = (blue_side_team = 'team1')),
+    COUNT(*) FILTER (WHERE (winner = 'blue') <> (blue_side_team = 'team1'))
+  INTO v_team1_wins, v_team2_wins
+  FROM live_draft_games
+  WHERE session_id = NEW.session_id AND winner IS NOT NULL;
+
+  UPDATE live_draft_tournament_matches
+  SET team1_score = v_team1_wins, team2_score = v_team2_wins
+  WHERE id = v_match.id;
+
+  v_wins_needed := v_tournament.games_per_match / 2 + 1;
+
+  IF v_team1_wins >= v_wins_needed THEN
+    PERFORM public.complete_tournament_match(v_match.id, 'team1');
+  ELSIF v_team2_wins >= v_wins_needed THEN
+    PERFORM public.complete_tournament_match(v_match.id, 'team2');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER live_draft_games_advance_tournament
+  AFTER UPDATE OF winner ON public.live_draft_games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_tournament_on_game_result();
+
+-- ============================================
+-- create_live_draft_tournament: bracket + first sessions in one transaction
+-- ============================================
+
+CREATE OR REPLACE FUNCTION create_live_draft_tournament(
+  p_name TEXT,
+  p_format TEXT,
+  p_teams TEXT[],
+  p_games_per_match INTEGER,
+  p_draft_mode TEXT,
+  p_pick_time_seconds INTEGER,
+  p_ban_time_seconds INTEGER,
+  p_matches JSONB -- [{ id, bracket, round, position, team1_name, team2_name, next_match_id, ... }]
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_tournament_id UUID;
+  v_match_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Sign in to create tournaments');
+  END IF;
+
+  IF array_length(p_teams, 1) IS NULL OR array_length(p_teams, 1) < 2 OR array_length(p_teams, 1) > 32 THEN
+    RETURN json_build_object('success', false, 'message', 'A tournament needs between 2 and 32 teams');
+  END IF;
+
+  IF jsonb_array_length(p_matches) = 0 THEN
+    RETURN json_build_object('success', false, 'message', 'The bracket has no matches');
+  END IF;
+
+  INSERT INTO live_draft_tournaments (
+    name, created_by, format, teams, games_per_match, draft_mode, pick_time_seconds, ban_time_seconds
+  )
+  VALUES (
+    p_name, v_user_id, p_format, p_teams, p_games_per_match, p_draft_mode, p_pick_time_seconds, p_ban_time_seconds
+  )
+  RETURNING id INTO v_tournament_id;
+
+  -- Insert all matches first, then link them, so links may point forward
+  INSERT INTO live_draft_tournament_matches (id, tournament_id, bracket, round, position, team1_name, team2_name)
+  SELECT
+    (m->>'id')::UUID, v_tournament_id, m->>'bracket', (m->>'round')::INTEGER, (m->>'position')::INTEGER,
+    m->>'team1_name', m->>'team2_name'
+  FROM jsonb_array_elements(p_matches) m;
+
+  UPDATE live_draft_tournament_matches t
+  SET next_match_id = (m->>'next_match_id')::UUID,
+      next_match_slot = m->>'next_match_slot',
+      loser_next_match_id = (m->>'loser_next_match_id')::UUID,
+      loser_next_match_slot = m->>'loser_next_match_slot'
+  FROM jsonb_array_elements(p_matches) m
+  WHERE t.id = (m->>'id')::UUID;
+
+  FOR v_match_id IN
+    SELECT id FROM live_draft_tournament_matches
+    WHERE tournament_id = v_tournament_id AND team1_name IS NOT NULL AND team2_name IS NOT NULL
+    ORDER BY bracket, round, position
+  LOOP
+    PERFORM public.spawn_tournament_match_session(v_match_id);
+  END LOOP;
+
+  RETURN json_build_object('success', true, 'tournament_id', v_tournament_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_live_draft_tournament TO authenticated;
+
+-- ============================================
+-- set_tournament_match_winner: organizer override (walkovers, abandoned series)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_tournament_match_winner(
+  p_match_id UUID,
+  p_winner TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+BEGIN
+  SELECT m.* INTO v_match
+  FROM live_draft_tournament_matches m
+  JOIN live_draft_tournaments t ON t.id = m.tournament_id
+  WHERE m.id = p_match_id AND t.created_by = auth.uid();
+
+  IF v_match IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Only the organizer can set match results');
+  END IF;
+
+  IF v_match.status = 'completed' THEN
+    RETURN json_build_object('success', false, 'message', 'Match is already decided');
+  END IF;
+
+  IF v_match.team1_name IS NULL OR v_match.team2_name IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Both teams must be known first');
+  END IF;
+
+  IF p_winner NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Invalid winner');
+  END IF;
+
+  PERFORM public.complete_tournament_match(p_match_id, p_winner);
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_tournament_match_winner TO authenticated;
@@ -0,0 +1,20 @@
+-- Saved live draft session presets.
+-- A preset stores the CreateLiveDraftSessionConfig used to prefill the create
+-- session modal (mode, games, timers, draft order, linked team/draft, ...).
+-- IDs are client-generated TEXT, matching custom_templates.
+
+CREATE TABLE IF NOT EXISTS public.live_draft_presets (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_draft_presets_user ON public.live_draft_presets(user_id);
+
+ALTER TABLE public.live_draft_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own live draft presets" ON public.live_draft_presets
+  FOR ALL USING (auth.uid() = user_id);
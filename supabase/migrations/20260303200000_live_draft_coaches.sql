@@ -0,0 +1,323 @@
+-- Coach participants for live drafts.
+-- Each team has a private coach invite link. Coaches (signed-in users only)
+-- see their team's private notes and can hover/propose champions; their
+-- captain receives these in real time. Proposals are protected by RLS so the
+-- opposing team and spectators can never read them. Because every anonymous
+-- visitor shares the same database role, only signed-in captains and coaches
+-- can take part.
+
+ALTER TABLE public.live_draft_participants
+  DROP CONSTRAINT IF EXISTS live_draft_participants_participant_type_check;
+ALTER TABLE public.live_draft_participants
+  ADD CONSTRAINT live_draft_participants_participant_type_check
+  CHECK (participant_type IN ('controller', 'spectator', 'coach'));
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+-- One private invite token per team. No policies: only readable through
+-- get_live_draft_coach_token(), which checks that the caller is the captain.
+CREATE TABLE IF NOT EXISTS public.live_draft_coach_invites (
+  session_id UUID NOT NULL REFERENCES public.live_draft_sessions(id) ON DELETE CASCADE,
+  team TEXT NOT NULL CHECK (team IN ('team1', 'team2')),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, team)
+);
+
+-- Coach membership. Participant rows can be written by anyone, so this table
+-- (written only by join_live_draft_as_coach) is what RLS trusts.
+CREATE TABLE IF NOT EXISTS public.live_draft_coaches (
+  session_id UUID NOT NULL REFERENCES public.live_draft_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  team TEXT NOT NULL CHECK (team IN ('team1', 'team2')),
+  display_name TEXT,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+-- Team-private coaching feed: champion proposals, the coach's current hover
+-- and free-text notes
+CREATE TABLE IF NOT EXISTS public.live_draft_coach_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.live_draft_sessions(id) ON DELETE CASCADE,
+  game_id UUID REFERENCES public.live_draft_games(id) ON DELETE CASCADE,
+  team TEXT NOT NULL CHECK (team IN ('team1', 'team2')),
+  kind TEXT NOT NULL CHECK (kind IN ('proposal', 'hover', 'note')),
+  action_index INTEGER, -- Draft step a proposal/hover was made for
+  champion_id TEXT,
+  note TEXT CHECK (char_length(note) <= 200),
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (kind = 'note' OR (game_id IS NOT NULL AND champion_id IS NOT NULL)),
+  CHECK (kind <> 'note' OR note IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_draft_coaches_session ON public.live_draft_coaches(session_id);
+CREATE INDEX IF NOT EXISTS idx_live_draft_coach_proposals_session ON public.live_draft_coach_proposals(session_id, team);
+
+-- ============================================
+-- TEAM MEMBERSHIP CHECK
+-- ============================================
+
+-- Signed-in captain of p_team, or a coach of p_team who is not also the
+-- opposing captain
+CREATE OR REPLACE FUNCTION public.is_live_draft_team_member(
+  p_session_id UUID,
+  p_team TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM live_draft_sessions s
+    WHERE s.id = p_session_id
+    AND (
+      (p_team = 'team1' AND s.team1_captain_id = auth.uid())
+      OR (p_team = 'team2' AND s.team2_captain_id = auth.uid())
+      OR (
+        EXISTS (
+          SELECT 1 FROM live_draft_coaches c
+          WHERE c.session_id = s.id AND c.user_id = auth.uid() AND c.team = p_team
+        )
+        AND auth.uid() IS DISTINCT FROM (
+          CASE WHEN p_team = 'team1' THEN s.team2_captain_id ELSE s.team1_captain_id END
+        )
+      )
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_live_draft_team_member TO anon, authenticated;
+
+-- ============================================
+-- RLS
+-- ============================================
+
+ALTER TABLE public.live_draft_coach_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_draft_coaches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_draft_coach_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Who coaches which team is public (shown in the lobby), what they say is not
+CREATE POLICY "Anyone can view live draft coaches" ON public.live_draft_coaches
+  FOR SELECT USING (true);
+
+-- Coaches can leave, captains can remove their own team's coaches
+CREATE POLICY "Coaches and their captain can remove coaches" ON public.live_draft_coaches
+  FOR DELETE USING (auth.uid() = user_id OR public.is_live_draft_team_member(session_id, team));
+
+CREATE POLICY "Team members can view their coaching feed" ON public.live_draft_coach_proposals
+  FOR SELECT USING (public.is_live_draft_team_member(session_id, team));
+
+-- Proposals and hovers go through propose_live_draft_champion(); notes are
+-- inserted directly
+CREATE POLICY "Team members can add notes" ON public.live_draft_coach_proposals
+  FOR INSERT WITH CHECK (
+    kind = 'note'
+    AND created_by = auth.uid()
+    AND public.is_live_draft_team_member(session_id, team)
+  );
+
+CREATE POLICY "Team members can dismiss coaching feed entries" ON public.live_draft_coach_proposals
+  FOR DELETE USING (public.is_live_draft_team_member(session_id, team));
+
+-- ============================================
+-- RPCs
+-- ============================================
+
+-- Captain: get (or create) the coach invite token for their team
+CREATE OR REPLACE FUNCTION get_live_draft_coach_token(
+  p_session_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_session RECORD;
+  v_team TEXT;
+  v_token TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Sign in to invite a coach');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Session not found');
+  END IF;
+
+  v_team := CASE
+    WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+    WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+    ELSE NULL
+  END;
+
+  IF v_team IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can invite a coach');
+  END IF;
+
+  INSERT INTO live_draft_coach_invites (session_id, team)
+  VALUES (p_session_id, v_team)
+  ON CONFLICT (session_id, team) DO NOTHING;
+
+  SELECT token INTO v_token FROM live_draft_coach_invites
+  WHERE session_id = p_session_id AND team = v_team;
+
+  RETURN json_build_object('success', true, 'team', v_team, 'token', v_token);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_live_draft_coach_token TO anon, authenticated;
+
+-- Join a team as coach through its private invite token
+CREATE OR REPLACE FUNCTION join_live_draft_as_coach(
+  p_token TEXT,
+  p_display_name TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_invite RECORD;
+  v_session RECORD;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Sign in to join as coach');
+  END IF;
+
+  SELECT * INTO v_invite FROM live_draft_coach_invites WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Coach link is invalid or has expired');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_invite.session_id;
+
+  IF v_session.status IN ('completed', 'cancelled') THEN
+    RETURN json_build_object('success', false, 'message', 'This session has ended');
+  END IF;
+
+  IF v_user_id IN (v_session.team1_captain_id, v_session.team2_captain_id) THEN
+    RETURN json_build_object('success', false, 'message', 'Captains cannot join as coach');
+  END IF;
+
+  -- A user coaches one team at a time
+  INSERT INTO live_draft_coaches (session_id, user_id, team, display_name)
+  VALUES (v_invite.session_id, v_user_id, v_invite.team, p_display_name)
+  ON CONFLICT (session_id, user_id) DO UPDATE SET
+    team = EXCLUDED.team,
+    display_name = COALESCE(EXCLUDED.display_name, live_draft_coaches.display_name),
+    joined_at = NOW();
+
+  INSERT INTO live_draft_participants (
+    session_id, user_id, participant_type, team, display_name, is_captain, is_connected
+  )
+  VALUES (
+    v_invite.session_id, v_user_id, 'coach', NULL, p_display_name, FALSE, TRUE
+  )
+  ON CONFLICT (session_id, user_id) DO UPDATE SET
+    participant_type = 'coach',
+    team = NULL,
+    display_name = COALESCE(EXCLUDED.display_name, live_draft_participants.display_name),
+    is_captain = FALSE,
+    is_connected = TRUE,
+    last_seen_at = NOW();
+
+  RETURN json_build_object('success', true, 'session_id', v_invite.session_id, 'team', v_invite.team);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_live_draft_as_coach TO anon, authenticated;
+
+-- Coach: propose a champion for the current step, or update the hover
+-- suggestion (one hover per coach per game)
+CREATE OR REPLACE FUNCTION propose_live_draft_champion(
+  p_game_id UUID,
+  p_champion_id TEXT,
+  p_kind TEXT DEFAULT 'proposal',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game RECORD;
+  v_team TEXT;
+  v_side TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF p_kind NOT IN ('proposal', 'hover') THEN
+    RETURN json_build_object('success', false, 'message', 'Invalid proposal type');
+  END IF;
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT team INTO v_team FROM live_draft_coaches
+  WHERE session_id = v_game.session_id AND user_id = v_user_id;
+
+  IF v_team IS NULL OR NOT is_live_draft_team_member(v_game.session_id, v_team) THEN
+    RETURN json_build_object('success', false, 'message', 'Only coaches can propose champions');
+  END IF;
+
+  v_side := CASE WHEN v_game.blue_side_team = v_team THEN 'blue' ELSE 'red' END;
+
+  IF v_game.status <> 'drafting' OR v_game.current_turn IS DISTINCT FROM v_side THEN
+    RETURN json_build_object('success', false, 'message', 'You can only propose during your team''s turn');
+  END IF;
+
+  IF p_kind = 'hover' THEN
+    DELETE FROM live_draft_coach_proposals
+    WHERE game_id = p_game_id AND created_by = v_user_id AND kind = 'hover';
+  END IF;
+
+  INSERT INTO live_draft_coach_proposals (
+    session_id, game_id, team, kind, action_index, champion_id, note, created_by
+  )
+  VALUES (
+    v_game.session_id, p_game_id, v_team, p_kind, v_game.current_action_index,
+    p_champion_id, NULLIF(left(trim(p_note), 200), ''), v_user_id
+  );
+
+  RETURN json_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION propose_live_draft_champion TO anon, authenticated;
+
+-- Realtime delivers rows only to subscribers whose RLS allows them
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.live_draft_coach_proposals;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.live_draft_coaches;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,93 @@
+-- Team-private voting links for live drafts.
+-- Each team gets a secret link for its other players. The token doubles as the
+-- name of the team's realtime channel, where teammates publish their votes via
+-- presence. Only the captain and link holders know it; the public session
+-- channel never carries votes.
+
+CREATE TABLE IF NOT EXISTS public.live_draft_team_links (
+  session_id UUID NOT NULL REFERENCES public.live_draft_sessions(id) ON DELETE CASCADE,
+  team TEXT NOT NULL CHECK (team IN ('team1', 'team2')),
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, team)
+);
+
+-- No policies: tokens are only handed out by the functions below
+ALTER TABLE public.live_draft_team_links ENABLE ROW LEVEL SECURITY;
+
+-- Captain: get (or create) the team link for their team
+CREATE OR REPLACE FUNCTION get_live_draft_team_link(
+  p_session_id UUID,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_session RECORD;
+  v_team TEXT;
+  v_token TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Session not found');
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSIF p_team = 'team1' AND v_session.team1_captain_id IS NULL AND v_session.team1_captain_display_name IS NOT NULL THEN
+    v_team := 'team1';
+  ELSIF p_team = 'team2' AND v_session.team2_captain_id IS NULL AND v_session.team2_captain_display_name IS NOT NULL THEN
+    v_team := 'team2';
+  END IF;
+
+  IF v_team IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can share the team link');
+  END IF;
+
+  INSERT INTO live_draft_team_links (session_id, team)
+  VALUES (p_session_id, v_team)
+  ON CONFLICT (session_id, team) DO NOTHING;
+
+  SELECT token INTO v_token FROM live_draft_team_links
+  WHERE session_id = p_session_id AND team = v_team;
+
+  RETURN json_build_object('success', true, 'team', v_team, 'token', v_token);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_live_draft_team_link TO anon, authenticated;
+
+-- Teammate: resolve a team link to its session and team
+CREATE OR REPLACE FUNCTION resolve_live_draft_team_link(
+  p_token TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link RECORD;
+BEGIN
+  SELECT * INTO v_link FROM live_draft_team_links WHERE token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Team link is invalid or has expired');
+  END IF;
+
+  RETURN json_build_object('success', true, 'session_id', v_link.session_id, 'team', v_link.team);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_live_draft_team_link TO anon, authenticated;
@@ -0,0 +1,294 @@
+-- Undo last action with opponent consent.
+-- A captain who misclicked asks to undo their side's last ban/pick; the other
+-- captain has a short window to accept. Accepting reverts the action in one
+-- transaction and leaves an 'undo' entry in live_draft_actions.
+
+-- ============================================
+-- Audit entries in live_draft_actions
+-- ============================================
+
+-- Undo entries don't occupy a draft step, so they have no action_index of their
+-- own (keeping UNIQUE(game_id, action_index) and the idempotency guards of
+-- submit_draft_action intact). undone_action_index points at the reverted step.
+ALTER TABLE public.live_draft_actions
+  ALTER COLUMN action_index DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS undone_action_index INTEGER;
+
+ALTER TABLE public.live_draft_actions
+  DROP CONSTRAINT IF EXISTS live_draft_actions_action_type_check;
+
+ALTER TABLE public.live_draft_actions
+  ADD CONSTRAINT live_draft_actions_action_type_check
+  CHECK (action_type IN ('ban', 'pick', 'timeout', 'undo'));
+
+ALTER TABLE public.live_draft_actions
+  ADD CONSTRAINT live_draft_actions_undo_index_check
+  CHECK (
+    (action_type = 'undo' AND action_index IS NULL AND undone_action_index IS NOT NULL)
+    OR (action_type <> 'undo' AND action_index IS NOT NULL)
+  );
+
+-- ============================================
+-- Pending undo requests (one per game)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.live_draft_undo_requests (
+  game_id UUID PRIMARY KEY REFERENCES public.live_draft_games(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.live_draft_sessions(id) ON DELETE CASCADE,
+  action_index INTEGER NOT NULL,
+  requested_by TEXT NOT NULL CHECK (requested_by IN ('team1', 'team2')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_draft_undo_requests_session ON public.live_draft_undo_requests(session_id);
+
+ALTER TABLE public.live_draft_undo_requests ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the session sees pending requests; writes go through the functions below
+CREATE POLICY "Anyone can view undo requests" ON public.live_draft_undo_requests
+  FOR SELECT USING (true);
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.live_draft_undo_requests;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- How long the opponent has to answer
+CREATE OR REPLACE FUNCTION public.live_draft_undo_window_seconds()
+RETURNS INTEGER AS $$
+  SELECT 15;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- request_live_draft_undo: ask to undo your side's last action
+-- ============================================
+
+CREATE OR REPLACE FUNCTION request_live_draft_undo(
+  p_game_id UUID,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game RECORD;
+  v_session RECORD;
+  v_team TEXT;
+  v_side TEXT;
+  v_action RECORD;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can request an undo');
+  END IF;
+
+  IF v_session.status <> 'in_progress' OR v_game.status <> 'drafting' THEN
+    RETURN json_build_object('success', false, 'message', 'Undo is only possible while drafting');
+  END IF;
+
+  IF v_game.current_action_index = 0 THEN
+    RETURN json_build_object('success', false, 'message', 'Nothing to undo');
+  END IF;
+
+  v_side := CASE WHEN v_game.blue_side_team = v_team THEN 'blue' ELSE 'red' END;
+
+  SELECT * INTO v_action FROM live_draft_actions
+  WHERE game_id = p_game_id AND action_index = v_game.current_action_index - 1;
+
+  IF NOT FOUND OR v_action.team <> v_side OR v_action.action_type NOT IN ('ban', 'pick') THEN
+    RETURN json_build_object('success', false, 'message', 'You can only undo your own last ban or pick');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM live_draft_undo_requests
+    WHERE game_id = p_game_id AND expires_at > NOW()
+  ) THEN
+    RETURN json_build_object('success', false, 'message', 'An undo request is already pending');
+  END IF;
+
+  v_expires_at := NOW() + make_interval(secs => public.live_draft_undo_window_seconds());
+
+  INSERT INTO live_draft_undo_requests (game_id, session_id, action_index, requested_by, expires_at)
+  VALUES (p_game_id, v_game.session_id, v_action.action_index, v_team, v_expires_at)
+  ON CONFLICT (game_id) DO UPDATE SET
+    action_index = EXCLUDED.action_index,
+    requested_by = EXCLUDED.requested_by,
+    expires_at = EXCLUDED.expires_at,
+    created_at = NOW();
+
+  RETURN json_build_object('success', true, 'expires_at', v_expires_at);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_live_draft_undo TO anon, authenticated;
+
+-- ============================================
+-- respond_live_draft_undo: the opponent accepts or declines
+-- ============================================
+
+CREATE OR REPLACE FUNCTION respond_live_draft_undo(
+  p_game_id UUID,
+  p_accept BOOLEAN,
+  p_team TEXT DEFAULT NULL -- Required for anonymous: 'team1' or 'team2'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_game public.live_draft_games;
+  v_session public.live_draft_sessions;
+  v_request RECORD;
+  v_action RECORD;
+  v_team TEXT;
+  v_step JSONB;
+  v_slot INTEGER;
+BEGIN
+  v_user_id := auth.uid();
+
+  SELECT * INTO v_game FROM live_draft_games WHERE id = p_game_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Game not found');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = v_game.session_id;
+
+  IF v_user_id IS NOT NULL THEN
+    v_team := CASE
+      WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+      WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+      ELSE NULL
+    END;
+  ELSE
+    v_team := p_team;
+  END IF;
+
+  IF v_team IS NULL OR v_team NOT IN ('team1', 'team2') THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can answer an undo request');
+  END IF;
+
+  SELECT * INTO v_request FROM live_draft_undo_requests WHERE game_id = p_game_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'No pending undo request');
+  END IF;
+
+  IF v_request.requested_by = v_team THEN
+    RETURN json_build_object('success', false, 'message', 'The opposing captain has to answer this request');
+  END IF;
+
+  DELETE FROM live_draft_undo_requests WHERE game_id = p_game_id;
+
+  IF v_request.expires_at <= NOW() THEN
+    RETURN json_build_object('success', false, 'message', 'Undo request expired');
+  END IF;
+
+  IF NOT p_accept THEN
+    RETURN json_build_object('success', true, 'undone', false);
+  END IF;
+
+  -- The draft must not have moved on since the request
+  IF v_session.status <> 'in_progress'
+    OR v_game.status <> 'drafting'
+    OR v_game.current_action_index - 1 <> v_request.action_index THEN
+    RETURN json_build_object('success', false, 'message', 'The draft has moved on, undo is no longer possible');
+  END IF;
+
+  SELECT * INTO v_action FROM live_draft_actions
+  WHERE game_id = p_game_id AND action_index = v_request.action_index;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Action not found');
+  END IF;
+
+  v_step := v_session.draft_order -> v_action.action_index;
+  v_slot := (v_step ->> 'index')::INTEGER + 1;  -- PostgreSQL arrays are 1-indexed
+
+  IF v_action.action_type = 'ban' THEN
+    IF v_action.team = 'blue' THEN
+      v_game.blue_bans[v_slot] := NULL;
+    ELSE
+      v_game.red_bans[v_slot] := NULL;
+    END IF;
+  ELSE
+    IF v_action.team = 'blue' THEN
+      v_game.blue_picks[v_slot] := NULL;
+    ELSE
+      v_game.red_picks[v_slot] := NULL;
+    END IF;
+  END IF;
+
+  -- Release the fearless/ironman lock the action created
+  IF v_session.draft_mode <> 'normal' AND v_action.champion_id IS NOT NULL THEN
+    DELETE FROM live_draft_unavailable_champions
+    WHERE session_id = v_session.id
+      AND champion_id = v_action.champion_id
+      AND from_game = v_game.game_number
+      AND team IS NOT DISTINCT FROM CASE
+        WHEN v_session.draft_mode IN ('fearless', 'hard_fearless') THEN v_action.team
+        ELSE NULL
+      END;
+  END IF;
+
+  DELETE FROM live_draft_actions WHERE id = v_action.id;
+
+  INSERT INTO live_draft_actions (
+    game_id, action_index, undone_action_index, action_type, team, champion_id, performed_by
+  )
+  VALUES (
+    p_game_id,
+    NULL,
+    v_action.action_index,
+    'undo',
+    v_action.team,
+    v_action.champion_id,
+    CASE WHEN v_request.requested_by = 'team1' THEN v_session.team1_captain_id ELSE v_session.team2_captain_id END
+  );
+
+  -- Hand the step back to the side that misclicked with a fresh turn
+  UPDATE live_draft_games SET
+    blue_bans = v_game.blue_bans,
+    red_bans = v_game.red_bans,
+    blue_picks = v_game.blue_picks,
+    red_picks = v_game.red_picks,
+    current_action_index = v_action.action_index,
+    current_phase = v_step ->> 'phase',
+    current_turn = v_step ->> 'turn',
+    turn_started_at = NOW()
+  WHERE id = p_game_id;
+
+  DELETE FROM live_draft_hovers WHERE game_id = p_game_id;
+
+  RETURN json_build_object('success', true, 'undone', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_live_draft_undo TO anon, authenticated;
@@ -0,0 +1,8 @@
+-- Team draft analytics look up every session a team was linked to
+CREATE INDEX IF NOT EXISTS idx_live_draft_sessions_team1_linked_team
+  ON public.live_draft_sessions(team1_linked_team_id)
+  WHERE team1_linked_team_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_live_draft_sessions_team2_linked_team
+  ON public.live_draft_sessions(team2_linked_team_id)
+  WHERE team2_linked_team_id IS NOT NULL;
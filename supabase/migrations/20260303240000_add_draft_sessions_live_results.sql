@@ -0,0 +1,3 @@
+-- Completed live draft games written back into the linked draft plan
+ALTER TABLE public.draft_sessions
+  ADD COLUMN IF NOT EXISTS live_results JSONB DEFAULT '[]'::jsonb;
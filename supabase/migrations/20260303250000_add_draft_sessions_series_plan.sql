@@ -0,0 +1,3 @@
+-- Fearless series plan: which comfort picks to spend in which game
+ALTER TABLE public.draft_sessions
+  ADD COLUMN IF NOT EXISTS series_plan JSONB DEFAULT NULL;
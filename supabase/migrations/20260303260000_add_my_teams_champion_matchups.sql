@@ -0,0 +1,3 @@
+-- Counter/synergy matrix: "X is good into Y" and "X pairs with Y" entries per team
+ALTER TABLE public.my_teams
+  ADD COLUMN IF NOT EXISTS champion_matchups JSONB DEFAULT '[]'::jsonb;
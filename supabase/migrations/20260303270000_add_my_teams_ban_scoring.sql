@@ -0,0 +1,3 @@
+-- Per-team ban scoring profile: weights for ranking enemy ban candidates
+ALTER TABLE public.my_teams
+  ADD COLUMN IF NOT EXISTS ban_scoring JSONB DEFAULT NULL;
@@ -0,0 +1,66 @@
+-- Team links for signed-in captains only.
+-- Anonymous captains were identified by the team they passed in, so any
+-- anonymous visitor could ask for an anonymous captain's team link and read
+-- that team's votes. Every anonymous visitor shares the same database role,
+-- so, like coach links, team links now need a signed-in captain.
+
+-- Links handed out to anonymous captains may already have leaked
+DELETE FROM public.live_draft_team_links l
+USING public.live_draft_sessions s
+WHERE s.id = l.session_id
+  AND (
+    (l.team = 'team1' AND s.team1_captain_id IS NULL)
+    OR (l.team = 'team2' AND s.team2_captain_id IS NULL)
+  );
+
+DROP FUNCTION IF EXISTS get_live_draft_team_link(UUID, TEXT);
+
+-- Captain: get (or create) the team link for their team
+CREATE OR REPLACE FUNCTION get_live_draft_team_link(
+  p_session_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_session RECORD;
+  v_team TEXT;
+  v_token TEXT;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Sign in to share the team link');
+  END IF;
+
+  SELECT * INTO v_session FROM live_draft_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'message', 'Session not found');
+  END IF;
+
+  v_team := CASE
+    WHEN v_session.team1_captain_id = v_user_id THEN 'team1'
+    WHEN v_session.team2_captain_id = v_user_id THEN 'team2'
+    ELSE NULL
+  END;
+
+  IF v_team IS NULL THEN
+    RETURN json_build_object('success', false, 'message', 'Only captains can share the team link');
+  END IF;
+
+  INSERT INTO live_draft_team_links (session_id, team)
+  VALUES (p_session_id, v_team)
+  ON CONFLICT (session_id, team) DO NOTHING;
+
+  SELECT token INTO v_token FROM live_draft_team_links
+  WHERE session_id = p_session_id AND team = v_team;
+
+  RETURN json_build_object('success', true, 'team', v_team, 'token', v_token);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_live_draft_team_link TO authenticated;
@@ -0,0 +1,128 @@
+-- Grand final bracket reset for double elimination tournaments.
+-- The winners bracket champion has not lost yet when it reaches the grand
+-- final, so a loss there must not knock it out. When the losers bracket team
+-- wins the first grand final, a second one (round 2 of the grand_final
+-- bracket) is created and spawned; its winner takes the tournament.
+
+-- Spawn the live draft session for a match once both teams are known
+CREATE OR REPLACE FUNCTION public.spawn_tournament_match_session(p_match_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+  v_tournament live_draft_tournaments;
+  v_label TEXT;
+  v_session_id UUID;
+BEGIN
+  SELECT * INTO v_match FROM live_draft_tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match IS NULL OR v_match.session_id IS NOT NULL OR v_match.status <> 'pending'
+     OR v_match.team1_name IS NULL OR v_match.team2_name IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_tournament FROM live_draft_tournaments WHERE id = v_match.tournament_id;
+
+  v_label := CASE v_match.bracket
+    WHEN 'winners' THEN CASE WHEN v_tournament.format = 'double_elimination' THEN 'WB ' ELSE '' END
+      || 'R' || v_match.round || ' M' || v_match.position
+    WHEN 'losers' THEN 'LB R' || v_match.round || ' M' || v_match.position
+    WHEN 'grand_final' THEN CASE WHEN v_match.round > 1 THEN 'GF Reset' ELSE 'Grand Final' END
+    ELSE 'Round ' || v_match.round || ' M' || v_match.position
+  END;
+
+  INSERT INTO live_draft_sessions (
+    name, created_by, draft_mode, planned_games, pick_time_seconds, ban_time_seconds,
+    team1_name, team2_name, tournament_match_id
+  )
+  VALUES (
+    left(v_tournament.name, 30 - char_length(v_label) - 3) || ' · ' || v_label,
+    v_tournament.created_by,
+    v_tournament.draft_mode,
+    v_tournament.games_per_match,
+    v_tournament.pick_time_seconds,
+    v_tournament.ban_time_seconds,
+    left(v_match.team1_name, 30),
+    left(v_match.team2_name, 30),
+    v_match.id
+  )
+  RETURNING id INTO v_session_id;
+
+  INSERT INTO live_draft_games (session_id, game_number, status)
+  VALUES (v_session_id, 1, 'pending');
+
+  UPDATE live_draft_tournament_matches
+  SET session_id = v_session_id, status = 'in_progress'
+  WHERE id = v_match.id;
+END;
+$$;
+
+-- Finish a match: close its session and send winner and loser onward
+CREATE OR REPLACE FUNCTION public.complete_tournament_match(p_match_id UUID, p_winner TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match live_draft_tournament_matches;
+  v_winner_name TEXT;
+  v_loser_name TEXT;
+  v_reset_id UUID;
+BEGIN
+  SELECT * INTO v_match FROM live_draft_tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match IS NULL OR v_match.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  UPDATE live_draft_tournament_matches
+  SET winner = p_winner, status = 'completed'
+  WHERE id = p_match_id;
+
+  -- Remaining games of the series are not needed
+  UPDATE live_draft_sessions
+  SET status = 'completed', completed_at = COALESCE(completed_at, NOW())
+  WHERE id = v_match.session_id AND status NOT IN ('completed', 'cancelled');
+
+  v_winner_name := CASE WHEN p_winner = 'team1' THEN v_match.team1_name ELSE v_match.team2_name END;
+  v_loser_name := CASE WHEN p_winner = 'team1' THEN v_match.team2_name ELSE v_match.team1_name END;
+
+  IF v_match.next_match_id IS NOT NULL THEN
+    UPDATE live_draft_tournament_matches
+    SET team1_name = CASE WHEN v_match.next_match_slot = 'team1' THEN v_winner_name ELSE team1_name END,
+        team2_name = CASE WHEN v_match.next_match_slot = 'team2' THEN v_winner_name ELSE team2_name END
+    WHERE id = v_match.next_match_id;
+    PERFORM public.spawn_tournament_match_session(v_match.next_match_id);
+  END IF;
+
+  IF v_match.loser_next_match_id IS NOT NULL THEN
+    UPDATE live_draft_tournament_matches
+    SET team1_name = CASE WHEN v_match.loser_next_match_slot = 'team1' THEN v_loser_name ELSE team1_name END,
+        team2_name = CASE WHEN v_match.loser_next_match_slot = 'team2' THEN v_loser_name ELSE team2_name END
+    WHERE id = v_match.loser_next_match_id;
+    PERFORM public.spawn_tournament_match_session(v_match.loser_next_match_id);
+  END IF;
+
+  -- The losers bracket team (team2) took the first grand final: both teams
+  -- now have one loss, so they play once more
+  IF v_match.bracket = 'grand_final' AND v_match.round = 1 AND p_winner = 'team2' THEN
+    INSERT INTO live_draft_tournament_matches (id, tournament_id, bracket, round, position, team1_name, team2_name)
+    VALUES (gen_random_uuid(), v_match.tournament_id, 'grand_final', 2, 1, v_match.team1_name, v_match.team2_name)
+    RETURNING id INTO v_reset_id;
+    PERFORM public.spawn_tournament_match_session(v_reset_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM live_draft_tournament_matches
+    WHERE tournament_id = v_match.tournament_id AND status <> 'completed'
+  ) THEN
+    UPDATE live_draft_tournaments
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = v_match.tournament_id;
+  END IF;
+END;
+$$;